@@ -1,71 +1,15 @@
 import { once, on, showUI, emit } from '@create-figma-plugin/utilities'
 
 import { AddIconsHandler, GetSelectedIconsHandler, GetSelectedIconsResponseHandler, IconData, ShowSuccessHandler, ShowErrorHandler } from './types'
-import { processSvgToReact, getComponentName } from './svgr-processor'
-import { GITHUB_CONFIG, validateGitHubConfig } from './config'
-
-// Helper function to check if a node contains vector content
-function hasVectorContent(node: SceneNode): boolean {
-  if (node.type === 'VECTOR') {
-    return true
-  }
-  
-  // Check for boolean operations (unions, intersections, etc.)
-  if (node.type === 'BOOLEAN_OPERATION') {
-    return true
-  }
-  
-  if (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') {
-    // Check if frame contains vector nodes
-    if ('children' in node) {
-      return node.children.some(child => hasVectorContent(child))
-    }
-  }
-  
-  return false
-}
-
-// Helper function to check if a node is exactly 24x24px
-function is24x24Frame(node: SceneNode): boolean {
-  return node.width === 24 && node.height === 24
-}
-
-// Helper function to check if a node has reasonable icon dimensions (for individual vectors)
-function hasReasonableIconSize(node: SceneNode): boolean {
-  const minSize = 12
-  const maxSize = 48
-  
-  return node.width >= minSize && node.width <= maxSize && 
-         node.height >= minSize && node.height <= maxSize
-}
-
-// Helper function to get all icon nodes from a selection
-function getIconNodes(nodes: readonly SceneNode[]): SceneNode[] {
-  const iconNodes: SceneNode[] = []
-  
-  for (const node of nodes) {
-    // Priority 1: 24x24px frames with vector content
-    if ((node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') && 
-        is24x24Frame(node) && hasVectorContent(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 2: Individual vectors with reasonable size
-    else if (node.type === 'VECTOR' && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 3: Boolean operations (unions, etc.) with reasonable size
-    else if (node.type === 'BOOLEAN_OPERATION' && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 4: Other frames with vector content (fallback for non-24x24)
-    else if ((node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') && 
-             hasVectorContent(node) && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-  }
-  
-  return iconNodes
-}
+import { processSvgToReact } from './svgr-processor'
+import { createDeliveryBackend, isGitHubMode, submitIcons } from './delivery'
+import { formatPreflightIssues } from './github-preflight'
+import { exportIconSvg, exportIconVariants } from './icon-export'
+import { detectIconNodes, getDetectionRules } from './icon-detection'
+import { findIconConflicts } from './icon-index'
+import { getComponentName } from './icon-names'
+import { getIconPayload } from './payload'
+import { getActiveProfile, getWorkflowPageUrl } from './profiles'
 
 // Track last processed icons for comparison
 let lastProcessedIcons: IconData[] = []
@@ -74,25 +18,22 @@ let lastProcessedIcons: IconData[] = []
 async function processSelection() {
   try {
     const selection = figma.currentPage.selection
-    const iconNodes = getIconNodes(selection)
+    const { iconNodes, rejected } = detectIconNodes(selection, await getDetectionRules())
     
     const icons: IconData[] = []
 
     for (const node of iconNodes) {
       try {
-        // Export as SVG
-        const svgData = await node.exportAsync({
-          format: 'SVG',
-          svgIdAttribute: false
-        })
-        
-        // Convert Uint8Array to string
-        const svgString = String.fromCharCode.apply(null, Array.from(svgData))
+        // Export as SVG, fitted onto the icon canvas and optimized; a component set exports each variant
+        const { variants, exported } = node.type === 'COMPONENT_SET'
+          ? await exportIconVariants(node)
+          : { variants: undefined, exported: await exportIconSvg(node) }
+        const { svg: svgString, canvas, optimization } = exported
 
         // Process through SVGR simulation
         let processedIcon;
         try {
-          processedIcon = processSvgToReact(svgString, node.name)
+          processedIcon = processSvgToReact(svgString, node.name, { variants })
         } catch (error) {
           console.error('Error processing icon:', node.name, error)
           // Create a fallback processed icon
@@ -107,14 +48,17 @@ async function processSelection() {
         
         // Get description if the node is a Component
         let description = ''
-        if (node.type === 'COMPONENT') {
-          description = (node as ComponentNode).description || ''
+        if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+          description = node.description || ''
         }
 
         icons.push({
           id: node.id,
           name: node.name,
           svg: svgString,
+          optimization,
+          canvas,
+          variants,
           width: node.width,
           height: node.height,
           processedIcon,
@@ -133,7 +77,7 @@ async function processSelection() {
     lastProcessedIcons = icons
     
     // Send the icons back to the UI
-    emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons })
+    emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons, rejected })
     
   } catch (error) {
     console.error('Error in processSelection:', error)
@@ -142,13 +86,15 @@ async function processSelection() {
   }
 }
 
-export default function () {
+export default async function () {
   // Process current selection immediately and add to design system
   const selection = figma.currentPage.selection
-  const iconNodes = getIconNodes(selection)
+  const { iconNodes, rejected } = detectIconNodes(selection, await getDetectionRules())
   
   if (iconNodes.length === 0) {
-    figma.notify('No icons selected. Please select some icons to add to the design system.')
+    figma.notify(rejected.length > 0
+      ? `No icons selected. "${rejected[0].name}": ${rejected[0].reason}.`
+      : 'No icons selected. Please select some icons to add to the design system.')
     figma.closePlugin()
     return
   }
@@ -164,19 +110,16 @@ async function addIconsToDesignSystem(iconNodes: SceneNode[]) {
 
     for (const node of iconNodes) {
       try {
-        // Export as SVG
-        const svgData = await node.exportAsync({
-          format: 'SVG',
-          svgIdAttribute: false
-        })
-        
-        // Convert Uint8Array to string
-        const svgString = String.fromCharCode.apply(null, Array.from(svgData))
+        // Export as SVG, fitted onto the icon canvas and optimized; a component set exports each variant
+        const { variants, exported } = node.type === 'COMPONENT_SET'
+          ? await exportIconVariants(node)
+          : { variants: undefined, exported: await exportIconSvg(node) }
+        const { svg: svgString, canvas, optimization } = exported
 
         // Process through SVGR simulation
         let processedIcon;
         try {
-          processedIcon = processSvgToReact(svgString, node.name)
+          processedIcon = processSvgToReact(svgString, node.name, { variants })
         } catch (error) {
           console.error('Error processing icon:', node.name, error)
           // Create a fallback processed icon
@@ -191,14 +134,17 @@ async function addIconsToDesignSystem(iconNodes: SceneNode[]) {
         
         // Get description if the node is a Component
         let description = ''
-        if (node.type === 'COMPONENT') {
-          description = (node as ComponentNode).description || ''
+        if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+          description = node.description || ''
         }
 
         icons.push({
           id: node.id,
           name: node.name,
           svg: svgString,
+          optimization,
+          canvas,
+          variants,
           width: node.width,
           height: node.height,
           processedIcon,
@@ -228,163 +174,70 @@ async function addIconsToDesignSystem(iconNodes: SceneNode[]) {
   }
 }
 
-// Function to add icons to GitHub
+// Function to add icons to the design system through the active profile's delivery backend
 async function addIconsToGitHub(icons: IconData[]) {
-  // Validate GitHub configuration
-  const configValidation = validateGitHubConfig()
-  if (!configValidation.isValid) {
-    figma.notify(`Configuration Error: ${configValidation.errors.join(', ')}`)
+  // Use the delivery profile last selected in the Design System Icons UI
+  const profile = await getActiveProfile()
+  const backend = createDeliveryBackend(profile)
+
+  // Validate the profile's configuration
+  const configErrors = await backend.validate()
+  if (configErrors.length > 0) {
+    figma.notify(`Configuration Error: ${configErrors.join(', ')}. Check the delivery profile in the Design System Icons settings.`)
     figma.closePlugin()
     return
   }
 
-  // Dynamic chunking based on actual payload size
-  const MAX_PAYLOAD_SIZE = 55000 // Stay well under 64KB limit with some buffer
-  const chunks: IconData[][] = []
-  
-  let currentChunk: IconData[] = []
-  let currentChunkSize = 0
-  
-  for (const icon of icons) {
-    // Estimate size for this icon (name + SVG + metadata + JSON overhead)
-    const iconPayload = {
-      name: icon.name,
-      svg: icon.svg,
-      aliases: icon.aliases || []
-    }
-    const estimatedSize = JSON.stringify(iconPayload).length
-    
-    // If adding this icon would exceed the limit, start a new chunk
-    if (currentChunkSize + estimatedSize > MAX_PAYLOAD_SIZE && currentChunk.length > 0) {
-      chunks.push([...currentChunk])
-      currentChunk = [icon]
-      currentChunkSize = estimatedSize
-    } else {
-      currentChunk.push(icon)
-      currentChunkSize += estimatedSize
-    }
-  }
-  
-  // Add the last chunk if it has icons
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk)
+  // Check the credentials and target before sending anything
+  const preflight = await backend.preflight()
+  if (!preflight.ok) {
+    console.error(`${backend.label} preflight failed:`, formatPreflightIssues(preflight.issues))
+    figma.notify(`${preflight.issues[0].message} ${preflight.issues[0].remediation}`, { error: true, timeout: 10000 })
+    figma.closePlugin()
+    return
   }
 
-  let successCount = 0
-  let errorCount = 0
-  const workflowUrls: string[] = []
-
-  // Process each chunk
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i]
-    const chunkNumber = i + 1
-    const totalChunks = chunks.length
-
+  // Skip icons that already exist in the design system; without a UI there's no way to mark them as updates
+  if (isGitHubMode(profile.deliveryMode)) {
     try {
-      // Create icon payload for this chunk
-      const iconPayload = chunk.map(icon => ({
-        name: icon.name,
-        svg: icon.svg,
-        aliases: icon.aliases || []
-      }))
-      
-      // Create JSON string and base64 encode it
-      const jsonString = JSON.stringify(iconPayload)
-      
-      // Check if payload is still too large (shouldn't happen with dynamic chunking, but safety check)
-      if (jsonString.length > 60000) {
-        console.error(`Chunk ${chunkNumber} is still too large (${jsonString.length} bytes)`)
-        errorCount += chunk.length
-        continue
-      }
-      
-      // Log chunk size for monitoring
-      console.log(`Chunk ${chunkNumber}/${totalChunks}: ${chunk.length} icons, ${jsonString.length} bytes`)
-      
-      let base64Payload
-      try {
-        // Try btoa first (if available)
-        if (typeof btoa !== 'undefined') {
-          base64Payload = btoa(jsonString)
-        } else {
-          throw new Error('btoa not available')
+      const conflicts = await findIconConflicts(profile, icons)
+      const existingCount = Object.keys(conflicts).length
+      if (existingCount > 0) {
+        icons = icons.filter(icon => !conflicts[icon.id])
+        figma.notify(`Skipped ${existingCount} icon(s) that already exist in the design system`)
+        if (icons.length === 0) {
+          figma.closePlugin()
+          return
         }
-      } catch (error) {
-        // Manual base64 encoding fallback
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
-        let result = ''
-        let j = 0
-        
-        while (j < jsonString.length) {
-          const a = jsonString.charCodeAt(j++)
-          const b = j < jsonString.length ? jsonString.charCodeAt(j++) : 0
-          const c = j < jsonString.length ? jsonString.charCodeAt(j++) : 0
-          
-          const bitmap = (a << 16) | (b << 8) | c
-          
-          result += chars.charAt((bitmap >> 18) & 63)
-          result += chars.charAt((bitmap >> 12) & 63)
-          result += j - 2 < jsonString.length ? chars.charAt((bitmap >> 6) & 63) : '='
-          result += j - 1 < jsonString.length ? chars.charAt(bitmap & 63) : '='
-        }
-        
-        base64Payload = result
       }
-      
-      // Trigger GitHub Actions workflow for this chunk
-      const response = await fetch(
-        `https://api.github.com/repos/${GITHUB_CONFIG.OWNER}/${GITHUB_CONFIG.REPO}/actions/workflows/${GITHUB_CONFIG.WORKFLOW_FILE}/dispatches`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${GITHUB_CONFIG.PAT}`,
-            'Accept': 'application/vnd.github+json',
-            'X-GitHub-Api-Version': '2022-11-28',
-          },
-          body: JSON.stringify({
-            ref: GITHUB_CONFIG.BRANCH,
-            inputs: {
-              icons: base64Payload,
-              chunkInfo: `${chunkNumber}/${totalChunks}` // Add chunk info for tracking
-            }
-          })
-        }
-      )
-
-      if (response.ok) {
-        // Get the workflow run URL from the response headers
-        const workflowRunUrl = response.headers?.get('Location') || 
-          `https://github.com/${GITHUB_CONFIG.OWNER}/${GITHUB_CONFIG.REPO}/actions/workflows/design-system-add-icons.yml`
-        
-        workflowUrls.push(workflowRunUrl)
-        successCount += chunk.length
-        
-        // Show progress for this chunk
-        figma.notify(`Chunk ${chunkNumber}/${totalChunks}: Added ${chunk.length} icon(s) to design system`)
-      } else {
-        const errorText = await response.text()
-        console.error(`GitHub API error for chunk ${chunkNumber}:`, response.status, errorText)
-        errorCount += chunk.length
-        figma.notify(`Chunk ${chunkNumber}/${totalChunks}: Failed to add icons (${response.status})`)
-      }
-      
-      // Add a small delay between requests to avoid rate limiting
-      if (i < chunks.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000)) // 1 second delay
-      }
-      
     } catch (error) {
-      console.error(`Error processing chunk ${chunkNumber}:`, error)
-      errorCount += chunk.length
-      figma.notify(`Chunk ${chunkNumber}/${totalChunks}: Network error`)
+      console.error('Error checking for existing icons:', error)
     }
   }
 
+  // Failed chunks are kept so they can be resumed from the Design System Icons UI
+  const results = await submitIcons(profile, backend, icons.map(getIconPayload), {
+    onResult: result => {
+      // Show progress for this chunk
+      figma.notify(result.error
+        ? `Chunk ${result.chunkNumber}/${result.totalChunks}: Failed to add icons`
+        : `Chunk ${result.chunkNumber}/${result.totalChunks}: Added ${result.icons.length} icon(s) to design system`)
+    },
+    onRetry: (chunk, delay, reason) => {
+      figma.notify(`Chunk ${chunk.chunkNumber}/${chunk.totalChunks}: ${reason}, retrying in ${Math.ceil(delay / 1000)}s`)
+    }
+  })
+
+  const successCount = results.filter(result => !result.error).reduce((count, result) => count + result.icons.length, 0)
+  const errorCount = results.filter(result => result.error).reduce((count, result) => count + result.icons.length, 0)
+  const reviewUrl = results.find(result => result.url)?.url ??
+    (profile.deliveryMode === 'workflow' ? getWorkflowPageUrl(profile) : undefined)
+
   // Show final results
+  const failedNote = errorCount > 0 ? ` (${errorCount} failed; resume them from Design System Icons)` : ''
   if (successCount > 0) {
-    const workflowUrl = workflowUrls[0] // Show the first workflow URL
-    figma.notify(`Successfully added ${successCount} icon(s) to design system! ${errorCount > 0 ? `(${errorCount} failed)` : ''} Workflow: ${workflowUrl}`)
+    figma.notify(`Successfully added ${successCount} icon(s) to design system!${failedNote}${reviewUrl ? ` ${reviewUrl}` : ''}`)
   } else {
-    figma.notify(`Failed to add any icons to design system. ${errorCount} icons failed.`)
+    figma.notify(`Failed to add any icons to design system.${failedNote}`, { error: true, timeout: 10000 })
   }
 }
@@ -0,0 +1,85 @@
+import { sha1 } from './hash'
+import { BatchChunk, BatchRecord, ChunkRunProgress, DeliveryProfile, IconPayload } from './types'
+
+// Every submission is a batch: its chunks are dispatched with the same batchId and
+// manifestHash so the workflow can collect them onto one branch. A record of each batch
+// is kept in figma.clientStorage so past submissions can be looked up.
+const BATCH_RECORDS_KEY = 'batch-records'
+const MAX_BATCH_RECORDS = 50 // Oldest records are dropped beyond this
+
+export function createBatchId(): string {
+  return `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// SHA-1 of the sorted "name:sha1(svg)" lines of every icon in the batch. The workflow can
+// compute the same hash over the icons it has gathered to know that all chunks arrived.
+export function getManifestHash(icons: IconPayload[]): string {
+  return sha1(icons.map(icon => `${icon.name}:${sha1(icon.svg)}`).sort().join('\n'))
+}
+
+// Turn planned chunks into the dispatches of a new batch
+export function createBatch(chunks: IconPayload[][]): BatchChunk[] {
+  const batchId = createBatchId()
+  const manifestHash = getManifestHash(chunks.reduce<IconPayload[]>((icons, chunk) => icons.concat(chunk), []))
+  return chunks.map((icons, index) => ({
+    batchId,
+    manifestHash,
+    chunkNumber: index + 1,
+    totalChunks: chunks.length,
+    icons
+  }))
+}
+
+export async function getBatchRecords(): Promise<BatchRecord[]> {
+  const stored = await figma.clientStorage.getAsync(BATCH_RECORDS_KEY)
+  return Array.isArray(stored) ? stored as BatchRecord[] : []
+}
+
+async function setBatchRecords(records: BatchRecord[]): Promise<void> {
+  await figma.clientStorage.setAsync(BATCH_RECORDS_KEY, records.slice(0, MAX_BATCH_RECORDS))
+}
+
+// Progress arrives for several chunks at once, so read-modify-write updates are queued
+// to keep one chunk's update from overwriting another's
+let recordsQueue: Promise<void> = Promise.resolve()
+
+function updateBatchRecords(update: (records: BatchRecord[]) => BatchRecord[]): Promise<void> {
+  recordsQueue = recordsQueue
+    .then(async () => setBatchRecords(update(await getBatchRecords())))
+    .catch(error => console.error('Error updating batch records:', error))
+  return recordsQueue
+}
+
+// Record a new batch, newest first, with every chunk pending
+export async function saveBatchRecord(profile: DeliveryProfile, chunks: BatchChunk[]): Promise<void> {
+  if (chunks.length === 0) {
+    return
+  }
+  const record: BatchRecord = {
+    batchId: chunks[0].batchId,
+    manifestHash: chunks[0].manifestHash,
+    profileId: profile.id,
+    profileName: profile.name,
+    createdAt: Date.now(),
+    iconNames: chunks.reduce<string[]>((names, chunk) => names.concat(chunk.icons.map(icon => icon.name)), []),
+    chunks: chunks.map(chunk => ({
+      chunkNumber: chunk.chunkNumber,
+      totalChunks: chunk.totalChunks,
+      iconCount: chunk.icons.length,
+      state: 'pending'
+    }))
+  }
+  await updateBatchRecords(records => [record, ...records])
+}
+
+// Store the latest dispatch or workflow run state of one chunk of a batch
+export async function updateBatchChunk(batchId: string, progress: ChunkRunProgress): Promise<void> {
+  await updateBatchRecords(records => records.map(record =>
+    record.batchId === batchId
+      ? {
+        ...record,
+        chunks: record.chunks.map(chunk => chunk.chunkNumber === progress.chunkNumber ? progress : chunk)
+      }
+      : record
+  ))
+}
@@ -0,0 +1,111 @@
+import { ComponentTemplateId, DeliveryProfile } from './types'
+
+// Placeholders a component template can use, written as {{name}}
+export const TEMPLATE_PLACEHOLDERS = [
+  'componentName', // e.g. ArrowRightIcon
+  'iconName', // The icon's name as entered in the plugin
+  'jsx', // The <svg> element
+  'viewBox',
+  'metadata', // JSON object with the icon's name and aliases
+  'year',
+  'reactImports', // ", useId" when the component needs it, to append inside the React import's braces
+  'props', // The destructured props, e.g. { size = 24, className, ref, ...props }
+  'setup', // Statements to run before `return` (the useId() call); usually empty
+  'variantProps' // Props to add to IconProps: component set variants and duotone's secondaryColor, e.g. ` & { variant?: "filled" | "outline" }`; usually empty
+] as const
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number]
+
+export type TemplateValues = Record<TemplatePlaceholder, string>
+
+export interface ComponentTemplate {
+  id: ComponentTemplateId
+  name: string
+  source: string
+}
+
+export const BUILT_IN_TEMPLATES: ComponentTemplate[] = [
+  {
+    id: 'memo',
+    name: 'Memoized component',
+    source: `/**
+ * (c) Copyright {{year}} Nominal Inc. All rights reserved.
+ */
+
+import React, { memo{{reactImports}} } from "react";
+
+import type { IconProps } from "./types";
+// Auto-generated icon component
+export const {{componentName}}: React.NamedExoticComponent<IconProps{{variantProps}}> = memo(
+  function {{componentName}}({{props}}: IconProps{{variantProps}}) {
+{{setup}}
+    return (
+      {{jsx}}
+    );
+  },
+);
+{{componentName}}.displayName = "{{componentName}}";
+export { {{componentName}} as ReactComponent };`
+  },
+  {
+    id: 'default-export',
+    name: 'Memoized component, default export',
+    source: `import React, { memo{{reactImports}} } from "react";
+
+import type { IconProps } from "./types";
+
+const {{componentName}} = memo(
+  function {{componentName}}({{props}}: IconProps{{variantProps}}) {
+{{setup}}
+    return (
+      {{jsx}}
+    );
+  },
+);
+{{componentName}}.displayName = "{{componentName}}";
+export default {{componentName}};`
+  }
+]
+
+export const DEFAULT_TEMPLATE_ID: ComponentTemplateId = 'memo'
+
+// Read from the target branch, see GITHUB_CONFIG.COMPONENT_TEMPLATE_PATH
+export const REPOSITORY_TEMPLATE_ID: ComponentTemplateId = 'repository'
+
+export function getComponentTemplateId(profile: DeliveryProfile): ComponentTemplateId {
+  return profile.componentTemplate || DEFAULT_TEMPLATE_ID
+}
+
+export function getBuiltInTemplate(id: ComponentTemplateId): ComponentTemplate {
+  return BUILT_IN_TEMPLATES.find(template => template.id === id) || BUILT_IN_TEMPLATES[0]
+}
+
+// What is wrong with a template, e.g. one read from a repository: unknown placeholders,
+// or no {{jsx}} to put the icon in
+export function getTemplateProblems(source: string): string[] {
+  const problems: string[] = []
+  const names = (source.match(/\{\{\s*\w+\s*\}\}/g) || []).map(placeholder => placeholder.slice(2, -2).trim())
+  for (const name of names.filter((name, index) => names.indexOf(name) === index)) {
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      problems.push(`unknown placeholder {{${name}}}`)
+    }
+  }
+  if (!names.includes('jsx')) {
+    problems.push('no {{jsx}} placeholder')
+  }
+  return problems
+}
+
+// Fill in a template. A line holding nothing but a placeholder that is empty is left out,
+// so optional parts like {{setup}} don't leave blank lines behind.
+export function renderTemplate(source: string, values: TemplateValues): string {
+  const getValue = (name: string): string | undefined => (values as Record<string, string>)[name]
+  return source
+    .split('\n')
+    .filter(line => {
+      const match = /^\s*\{\{\s*(\w+)\s*\}\}\s*$/.exec(line)
+      return !match || getValue(match[1]) !== ''
+    })
+    .join('\n')
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => getValue(name) ?? placeholder)
+}
@@ -1,31 +1,69 @@
+import { getGitHubToken } from './credentials'
+import { DeliveryMode, DeliveryProfile, PayloadEncoding } from './types'
+
 // GitHub Actions configuration
+// OWNER, REPO, WORKFLOW_FILE, BRANCH, DELIVERY_MODE and PAYLOAD_ENCODING are the defaults for the built-in
+// "Production" delivery profile; other profiles are created at runtime in Settings
 export const GITHUB_CONFIG = {
   // Update these values to match your repository
   OWNER: 'nominal-io', // Your GitHub username or organization
   REPO: 'galaxy', // Your repository name
   WORKFLOW_FILE: 'design-system-add-icons.yml', // The workflow file name
-  BRANCH: 'main', // The branch to trigger the workflow on
-  
-  // You'll need to replace this with your actual GitHub Personal Access Token
-  // Get one from: https://github.com/settings/tokens
-  // Required scopes: workflow, contents:write
-  // Use environment variable for security
-  PAT: process.env.GITHUB_PAT || ''
+  BRANCH: 'main', // The branch to trigger the workflow on (and the base branch for pull requests)
+
+  // How icons are delivered: 'workflow' dispatches WORKFLOW_FILE, 'pull-request' opens a PR directly
+  DELIVERY_MODE: 'workflow' as DeliveryMode,
+  // Encoding of the workflow's `icons` input. 'legacy' is the plain base64 the current workflow
+  // decodes; switch profiles to 'gzip' once the workflow understands the versioned format.
+  PAYLOAD_ENCODING: 'legacy' as PayloadEncoding,
+  ICONS_DIR: 'packages/design-system/src/icons', // Where generated .tsx components are committed
+  SVG_DIR: 'packages/design-system/src/icons/svg', // Where the raw SVGs are committed
+  // Where the other output targets are committed (the React component goes to ICONS_DIR)
+  OUTPUT_DIRS: {
+    vue: 'packages/design-system-vue/src/icons',
+    svelte: 'packages/design-system-svelte/src/icons',
+    'react-native': 'packages/design-system-native/src/icons',
+    svg: 'packages/design-system/src/icons/static', // Standalone SVGs, colored like the components
+  },
+  // Component template read from the target branch by profiles using the 'repository' template
+  COMPONENT_TEMPLATE_PATH: 'packages/design-system/src/icons/icon-component.template',
+}
+
+// Optimization of exported SVGs before code generation; see svg-optimizer.ts
+export const SVG_CONFIG = {
+  // Decimals kept in coordinates, in viewBox units. With a 24-unit viewBox, 2 moves no point
+  // by more than 0.005px at 24px (0.02px at 96px).
+  PRECISION: 2,
+  // Icons exported at another size are fitted onto a CANVAS_SIZE square; see svg-canvas.ts
+  CANVAS_SIZE: 24,
+  // Space kept around bare vectors and boolean operations when they are fitted (frames keep their own)
+  CANVAS_PADDING: 2,
 }
 
-// Validate configuration
-export function validateGitHubConfig(): { isValid: boolean; errors: string[] } {
+// Validate a delivery profile, including the user's token from clientStorage
+// The token is created at https://github.com/settings/tokens and entered in the plugin settings
+// Required scopes: workflow, contents:write (plus pull-requests:write for the 'pull-request' mode)
+export async function validateGitHubConfig(profile: DeliveryProfile): Promise<{ isValid: boolean; errors: string[] }> {
   const errors: string[] = []
   
-  if (!GITHUB_CONFIG.OWNER || GITHUB_CONFIG.OWNER === 'YOUR_GITHUB_USERNAME') {
+  if (!profile.owner || profile.owner === 'YOUR_GITHUB_USERNAME') {
     errors.push('GitHub owner is not configured')
   }
   
-  if (!GITHUB_CONFIG.REPO || GITHUB_CONFIG.REPO === 'YOUR_REPOSITORY_NAME') {
+  if (!profile.repo || profile.repo === 'YOUR_REPOSITORY_NAME') {
     errors.push('GitHub repository is not configured')
   }
+
+  if (!profile.branch) {
+    errors.push('Branch is not configured')
+  }
+
+  if (profile.deliveryMode === 'workflow' && !profile.workflowFile) {
+    errors.push('Workflow file is not configured')
+  }
   
-  if (!GITHUB_CONFIG.PAT || GITHUB_CONFIG.PAT === 'YOUR_GITHUB_PAT_HERE') {
+  const token = await getGitHubToken()
+  if (!token) {
     errors.push('GitHub Personal Access Token is not configured')
   }
   
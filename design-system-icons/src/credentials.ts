@@ -0,0 +1,40 @@
+// Per-user GitHub credentials, stored in figma.clientStorage so that each
+// designer uses their own token and no token is bundled into the build.
+// clientStorage is only available in the main thread.
+const GITHUB_TOKEN_KEY = 'github-token'
+
+export async function getGitHubToken(): Promise<string> {
+  const token = await figma.clientStorage.getAsync(GITHUB_TOKEN_KEY)
+  return typeof token === 'string' ? token : ''
+}
+
+export async function saveGitHubToken(token: string): Promise<void> {
+  await figma.clientStorage.setAsync(GITHUB_TOKEN_KEY, token.trim())
+}
+
+export async function clearGitHubToken(): Promise<void> {
+  await figma.clientStorage.deleteAsync(GITHUB_TOKEN_KEY)
+}
+
+// Show only the last few characters so the UI can tell tokens apart without exposing them
+export function getTokenHint(token: string): string | undefined {
+  return token ? `…${token.slice(-4)}` : undefined
+}
+
+// GitLab tokens and webhook secrets belong to a single delivery profile
+function getProfileSecretKey(profileId: string): string {
+  return `profile-secret:${profileId}`
+}
+
+export async function getProfileSecret(profileId: string): Promise<string> {
+  const secret = await figma.clientStorage.getAsync(getProfileSecretKey(profileId))
+  return typeof secret === 'string' ? secret : ''
+}
+
+export async function saveProfileSecret(profileId: string, secret: string): Promise<void> {
+  if (secret.trim() === '') {
+    await figma.clientStorage.deleteAsync(getProfileSecretKey(profileId))
+  } else {
+    await figma.clientStorage.setAsync(getProfileSecretKey(profileId), secret.trim())
+  }
+}
@@ -0,0 +1,127 @@
+import { BatchChunk, ChunkRunProgress, IconPayload, PreflightResult } from './types'
+
+// What a backend reports for a delivered chunk
+export interface DeliveredChunk {
+  url?: string // Pull request, merge request or other page to review the icons
+  correlationId?: string // Used to find the workflow run a dispatch started
+}
+
+export interface ChunkDeliveryResult extends BatchChunk, DeliveredChunk {
+  deliveredAt: number
+  error?: string // Set when the chunk still failed after retries
+}
+
+// A way of getting icons into the design system. Icons are planned into chunks
+// that fit the backend's request limits, and each chunk is delivered separately;
+// retries, failure persistence and reporting are shared (see delivery.ts).
+export interface DeliveryBackend {
+  // Shown in messages, e.g. "GitHub workflow"
+  label: string
+  // Configuration problems that can be reported without any network access
+  validate(): Promise<string[]>
+  // Check credentials and the target before anything is sent
+  preflight(): Promise<PreflightResult>
+  planChunks(icons: IconPayload[]): IconPayload[][]
+  deliverChunk(chunk: BatchChunk): Promise<DeliveredChunk>
+  // The payload deliverChunk would send for a chunk, and the icons decoded back from it (for dry runs)
+  previewChunk?(chunk: BatchChunk): { request: string; icons: IconPayload[] }
+  // Current content of a file on the target branch, or null if it doesn't exist (for dry-run diffs)
+  readFile?(path: string): Promise<string | null>
+  // Follow the work started by the delivered chunks, for backends where it runs asynchronously
+  trackChunks?(chunks: ChunkDeliveryResult[], onUpdate: (progress: ChunkRunProgress) => void): Promise<void>
+}
+
+// Figma's fetch exposes response headers as a plain `headersObject` instead of a Headers instance
+export function getResponseHeader(response: Response, name: string): string | null {
+  if (response.headers && typeof response.headers.get === 'function') {
+    return response.headers.get(name)
+  }
+  const headersObject = (response as unknown as { headersObject?: { [name: string]: string } }).headersObject || {}
+  const key = Object.keys(headersObject).find(header => header.toLowerCase() === name.toLowerCase())
+  return key !== undefined ? headersObject[key] : null
+}
+
+// An error from a backend. Retryable errors (network, 5xx, rate limits) are tried again,
+// after `retryAfter` milliseconds when the server said how long to wait.
+export class DeliveryError extends Error {
+  retryable: boolean
+  retryAfter?: number
+
+  constructor(message: string, retryable = false, retryAfter?: number) {
+    super(message)
+    this.name = 'DeliveryError'
+    this.retryable = retryable
+    this.retryAfter = retryAfter
+  }
+}
+
+// How long the server asks us to wait, from Retry-After or the X-RateLimit-*/RateLimit-* headers
+export function getRateLimitDelay(response: Response): number | null {
+  const retryAfter = getResponseHeader(response, 'Retry-After')
+  if (retryAfter !== null && !isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000
+  }
+  const remaining = getResponseHeader(response, 'X-RateLimit-Remaining') ?? getResponseHeader(response, 'RateLimit-Remaining')
+  const reset = getResponseHeader(response, 'X-RateLimit-Reset') ?? getResponseHeader(response, 'RateLimit-Reset')
+  if (remaining === '0' && reset !== null) {
+    // Reset is in epoch seconds; add a second for clock skew
+    return Math.max(Number(reset) * 1000 - Date.now(), 0) + 1000
+  }
+  return null
+}
+
+// Turn a failed HTTP response into a DeliveryError, classifying 5xx responses and
+// rate limits (429, or 403 with rate limit headers or message) as retryable
+export async function getResponseError(response: Response, description: string): Promise<DeliveryError> {
+  const errorText = await response.text()
+  const rateLimitDelay = getRateLimitDelay(response)
+  const isRateLimited = response.status === 429 ||
+    (response.status === 403 && (rateLimitDelay !== null || /rate limit/i.test(errorText)))
+  return new DeliveryError(
+    `${description} (${response.status}): ${errorText}`,
+    isRateLimited || response.status >= 500,
+    rateLimitDelay ?? undefined
+  )
+}
+
+const MAX_ATTEMPTS = 5
+const BASE_RETRY_DELAY = 1000 // Doubles after every failed attempt
+const MAX_RETRY_DELAY = 60 * 1000
+const MAX_RATE_LIMIT_WAIT = 5 * 60 * 1000 // Give up rather than keep the plugin waiting longer
+
+// Exponential backoff with jitter, so parallel clients don't retry in lockstep
+function getBackoffDelay(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY * Math.pow(2, attempt - 1), MAX_RETRY_DELAY) + Math.floor(Math.random() * 500)
+}
+
+// Run an operation, retrying retryable DeliveryErrors and network errors (anything that
+// isn't a DeliveryError, as fetch rejects with plain errors) with exponential backoff
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  onRetry?: (attempt: number, delay: number, reason: string) => void,
+  wait: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      const isDeliveryError = error instanceof DeliveryError
+      if (isDeliveryError && !error.retryable) {
+        throw error
+      }
+      if (attempt >= MAX_ATTEMPTS) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new DeliveryError(`${message} (gave up after ${attempt} attempts)`)
+      }
+
+      const delay = isDeliveryError && error.retryAfter !== undefined ? error.retryAfter : getBackoffDelay(attempt)
+      if (delay > MAX_RATE_LIMIT_WAIT) {
+        throw new DeliveryError(`Asked to wait ${Math.ceil(delay / 60000)} minutes before retrying`)
+      }
+      const reason = !isDeliveryError ? 'network error'
+        : error.retryAfter !== undefined || /rate limit/i.test(error.message) ? 'rate limited' : 'server error'
+      onRetry?.(attempt, delay, reason)
+      await wait(delay)
+    }
+  }
+}
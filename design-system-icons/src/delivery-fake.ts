@@ -0,0 +1,68 @@
+import { DeliveryBackend, DeliveryError } from './delivery-backend'
+import { decodePayload, encodePayload, planChunks } from './payload'
+import { BatchChunk, IconPayload } from './types'
+
+export interface FakeBackendOptions {
+  // Plan chunks as if this were the encoded size limit, to exercise chunking with a few icons
+  maxChunkSize?: number
+  // Chunk numbers that fail on delivery; retryable failures succeed on the next attempt
+  failChunks?: { [chunkNumber: number]: 'retryable' | 'permanent' }
+}
+
+export interface FakeBackend extends DeliveryBackend {
+  deliveries: BatchChunk[]
+}
+
+// Accepts submissions without any network access and remembers them in `deliveries`.
+// Used by the "Local test" delivery mode to try the plugin without touching a repository.
+export function createFakeBackend(options: FakeBackendOptions = {}): FakeBackend {
+  const deliveries: BatchChunk[] = []
+  const failures = { ...options.failChunks }
+
+  return {
+    label: 'Local test',
+    deliveries,
+
+    async validate() {
+      return []
+    },
+
+    async preflight() {
+      return { ok: true, login: 'local-test', issues: [] }
+    },
+
+    planChunks(icons: IconPayload[]) {
+      return planChunks(icons, 'gzip', options.maxChunkSize)
+    },
+
+    previewChunk(chunk) {
+      const request = encodePayload(chunk.icons, 'gzip')
+      return { request, icons: decodePayload(request) }
+    },
+
+    async deliverChunk(chunk) {
+      const failure = failures[chunk.chunkNumber]
+      if (failure === 'retryable') {
+        delete failures[chunk.chunkNumber]
+        throw new DeliveryError(`Fake server error for chunk ${chunk.chunkNumber}`, true)
+      }
+      if (failure === 'permanent') {
+        throw new DeliveryError(`Fake rejection of chunk ${chunk.chunkNumber}`)
+      }
+      deliveries.push(chunk)
+      console.log(`Local test: received chunk ${chunk.chunkNumber}/${chunk.totalChunks} of ${chunk.batchId} (${chunk.icons.length} icons)`)
+      return {}
+    },
+
+    async trackChunks(chunks, onUpdate) {
+      for (const chunk of chunks) {
+        onUpdate({
+          chunkNumber: chunk.chunkNumber,
+          totalChunks: chunk.totalChunks,
+          iconCount: chunk.icons.length,
+          state: 'success'
+        })
+      }
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { validateGitHubConfig } from './config'
+import { getGitHubToken } from './credentials'
+import { DeliveryBackend, DeliveryError, getResponseError } from './delivery-backend'
+import { getGitHubHeaders, githubFetch, githubRequestRaw } from './github-api'
+import { checkGitHubAccess } from './github-preflight'
+import { createIconsPullRequest, loadComponentTemplate } from './github-pr'
+import { decodePayload, encodePayload, planChunks } from './payload'
+import { getPayloadEncoding } from './profiles'
+import { DeliveryProfile } from './types'
+import { createCorrelationId, trackWorkflowRuns } from './workflow-runs'
+
+const MAX_CHUNK_SIZE = 60000 // Hard limit on the encoded input, checked before dispatching
+
+// Inputs added after the original `icons` and `chunkInfo`. GitHub rejects dispatches with inputs
+// the workflow doesn't declare, so each one is only sent when the workflow declares it.
+const OPTIONAL_INPUTS = ['correlationId', 'batchId', 'chunkIndex', 'chunkTotal', 'manifestHash']
+
+// Read a file from the profile's branch, for dry-run diffs and the repository's component template
+async function readRepositoryFile(profile: DeliveryProfile, path: string): Promise<string | null> {
+  return await githubRequestRaw(profile, `/contents/${path}?ref=${encodeURIComponent(profile.branch)}`)
+}
+
+// The optional inputs that the profile's workflow declares, read from its file on the branch
+async function getDeclaredInputs(profile: DeliveryProfile): Promise<string[]> {
+  const workflow = await readRepositoryFile(profile, `.github/workflows/${encodeURIComponent(profile.workflowFile)}`)
+  const declared = workflow === null ? [] : OPTIONAL_INPUTS.filter(input => new RegExp(`^\\s+${input}:`, 'm').test(workflow))
+  if (declared.length < OPTIONAL_INPUTS.length) {
+    console.warn(`Workflow ${profile.workflowFile} doesn't declare ${OPTIONAL_INPUTS.filter(input => !declared.includes(input)).join(', ')}; those inputs are left out`)
+  }
+  return declared
+}
+
+// Dispatches the design system workflow once per chunk; the workflow opens the pull request
+export function createGitHubWorkflowBackend(profile: DeliveryProfile): DeliveryBackend {
+  const encoding = getPayloadEncoding(profile)
+  let declaredInputs: string[] | null = null
+
+  return {
+    label: 'GitHub workflow',
+
+    async validate() {
+      return (await validateGitHubConfig(profile)).errors
+    },
+
+    async preflight() {
+      return await checkGitHubAccess(profile)
+    },
+
+    planChunks(icons) {
+      return planChunks(icons, encoding)
+    },
+
+    previewChunk(chunk) {
+      const request = encodePayload(chunk.icons, encoding)
+      return { request, icons: decodePayload(request) }
+    },
+
+    async readFile(path) {
+      return await readRepositoryFile(profile, path)
+    },
+
+    async deliverChunk(chunk) {
+      const encodedPayload = encodePayload(chunk.icons, encoding)
+
+      // Check if payload is still too large (only happens for a single oversized icon)
+      if (encodedPayload.length > MAX_CHUNK_SIZE) {
+        throw new DeliveryError(`Chunk is too large (${encodedPayload.length} bytes encoded)`)
+      }
+
+      // Log chunk size for monitoring
+      console.log(`Chunk ${chunk.chunkNumber}/${chunk.totalChunks} of ${chunk.batchId}: ${chunk.icons.length} icons, ${JSON.stringify(chunk.icons).length} bytes JSON, ${encodedPayload.length} bytes ${encoding}`)
+
+      const correlationId = createCorrelationId(chunk.chunkNumber)
+      const declared = declaredInputs = declaredInputs || await getDeclaredInputs(profile)
+      const optionalInputs: { [input: string]: string } = {
+        correlationId, // Echoed in the run name so the run can be found again
+        // Lets the workflow gather all chunks of one submission onto a single branch and PR
+        batchId: chunk.batchId,
+        chunkIndex: String(chunk.chunkNumber),
+        chunkTotal: String(chunk.totalChunks),
+        manifestHash: chunk.manifestHash
+      }
+      const token = await getGitHubToken()
+      const response = await githubFetch(
+        `https://api.github.com/repos/${profile.owner}/${profile.repo}/actions/workflows/${profile.workflowFile}/dispatches`,
+        {
+          method: 'POST',
+          headers: getGitHubHeaders(token),
+          body: JSON.stringify({
+            ref: profile.branch,
+            inputs: {
+              icons: encodedPayload,
+              chunkInfo: `${chunk.chunkNumber}/${chunk.totalChunks}`, // Add chunk info for tracking
+              ...declared.reduce((inputs, input) => ({ ...inputs, [input]: optionalInputs[input] }), {})
+            }
+          })
+        }
+      )
+      if (!response.ok) {
+        throw await getResponseError(response, 'GitHub API error for workflow dispatch')
+      }
+
+      // Without the correlation ID in its run name, the run can't be found to track it
+      return declared.includes('correlationId') ? { correlationId } : {}
+    },
+
+    async trackChunks(chunks, onUpdate) {
+      await trackWorkflowRuns(profile, chunks
+        .filter(chunk => chunk.correlationId !== undefined)
+        .map(chunk => ({
+          chunkNumber: chunk.chunkNumber,
+          totalChunks: chunk.totalChunks,
+          iconCount: chunk.icons.length,
+          correlationId: chunk.correlationId as string,
+          dispatchedAt: chunk.deliveredAt
+        })), onUpdate)
+    }
+  }
+}
+
+// Commits all icons to a new branch through the Git Data API and opens a single pull request
+export function createGitHubPullRequestBackend(profile: DeliveryProfile): DeliveryBackend {
+  return {
+    label: 'GitHub pull request',
+
+    async validate() {
+      return (await validateGitHubConfig(profile)).errors
+    },
+
+    async preflight() {
+      return await checkGitHubAccess(profile)
+    },
+
+    // The Git Data API has no practical size limit, so everything goes into one pull request
+    planChunks(icons) {
+      return icons.length > 0 ? [icons] : []
+    },
+
+    async readFile(path) {
+      return await readRepositoryFile(profile, path)
+    },
+
+    async deliverChunk(chunk) {
+      const template = await loadComponentTemplate(profile, path => readRepositoryFile(profile, path))
+      const pullRequest = await createIconsPullRequest(profile, chunk.icons, `design-system-icons/${chunk.batchId}`, template)
+      console.log(`Opened pull request #${pullRequest.number} from ${pullRequest.branch}`)
+      return { url: pullRequest.url }
+    }
+  }
+}
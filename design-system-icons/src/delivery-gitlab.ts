@@ -0,0 +1,232 @@
+import { getProfileSecret } from './credentials'
+import { DeliveryBackend, getResponseError } from './delivery-backend'
+import { generateIcons, getIconFiles, getPullRequestBody, getPullRequestTitle, loadComponentTemplate } from './github-pr'
+import { getEndpointUrlProblem } from './network-access'
+import { DeliveryProfile, PreflightIssue, PreflightResult } from './types'
+
+// Opens a merge request on GitLab: owner/repo is the project path, endpointUrl the instance
+// and the profile's secret a personal or project access token with the `api` scope.
+const DEFAULT_GITLAB_URL = 'https://gitlab.com'
+const DEVELOPER_ACCESS_LEVEL = 30 // Lowest role that can push branches
+
+function getGitLabUrl(profile: DeliveryProfile): string {
+  return (profile.endpointUrl || DEFAULT_GITLAB_URL).replace(/\/+$/, '')
+}
+
+function getProjectPath(profile: DeliveryProfile): string {
+  return `${profile.owner}/${profile.repo}`
+}
+
+async function gitlabFetch(profile: DeliveryProfile, path: string, init: { method?: string; body?: unknown } = {}): Promise<Response> {
+  const token = await getProfileSecret(profile.id)
+  return await fetch(`${getGitLabUrl(profile)}/api/v4/projects/${encodeURIComponent(getProjectPath(profile))}${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      'PRIVATE-TOKEN': token,
+      'Content-Type': 'application/json'
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined
+  })
+}
+
+async function gitlabRequest<T>(profile: DeliveryProfile, path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+  const response = await gitlabFetch(profile, path, init)
+  if (!response.ok) {
+    throw await getResponseError(response, `GitLab API error for ${init.method || 'GET'} ${path}`)
+  }
+  return await response.json() as T
+}
+
+// Paths of the files already in a directory of a branch, so commits can update them
+async function listDirectory(profile: DeliveryProfile, directory: string, ref: string): Promise<string[]> {
+  const paths: string[] = []
+  for (let page = 1; ; page++) {
+    const response = await gitlabFetch(profile, `/repository/tree?path=${encodeURIComponent(directory)}&ref=${encodeURIComponent(ref)}&per_page=100&page=${page}`)
+    if (response.status === 404) {
+      return paths // The directory doesn't exist yet
+    }
+    if (!response.ok) {
+      throw await getResponseError(response, 'GitLab API error for GET /repository/tree')
+    }
+    const entries = await response.json() as { path: string; type: string }[]
+    paths.push(...entries.filter(entry => entry.type === 'blob').map(entry => entry.path))
+    if (entries.length < 100) {
+      return paths
+    }
+  }
+}
+
+// Read a file from the profile's branch, for dry-run diffs and the repository's component template
+async function readRepositoryFile(profile: DeliveryProfile, path: string): Promise<string | null> {
+  const response = await gitlabFetch(profile, `/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(profile.branch)}`)
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw await getResponseError(response, 'GitLab API error for GET /repository/files')
+  }
+  return await response.text()
+}
+
+async function checkGitLabAccess(profile: DeliveryProfile): Promise<PreflightResult> {
+  const issues: PreflightIssue[] = []
+  const projectPath = getProjectPath(profile)
+
+  if (!await getProfileSecret(profile.id)) {
+    issues.push({
+      code: 'missing_token',
+      message: `No GitLab token is saved for "${profile.name}".`,
+      remediation: 'Open Settings, edit the profile and save a personal access token with the "api" scope.'
+    })
+    return { ok: false, issues }
+  }
+
+  try {
+    // 1. The token must be valid and see the project
+    const projectResponse = await gitlabFetch(profile, '')
+    if (projectResponse.status === 401) {
+      issues.push({
+        code: 'invalid_token',
+        message: 'GitLab rejected the saved token.',
+        remediation: 'The token may be mistyped, expired or revoked. Create a new one and save it on the profile.'
+      })
+      return { ok: false, issues }
+    }
+    if (!projectResponse.ok) {
+      issues.push({
+        code: 'repo_not_found',
+        message: `The token can't access ${projectPath} on ${getGitLabUrl(profile)}.`,
+        remediation: 'Check the owner and repository of the profile, and that your account is a member of the project.'
+      })
+      return { ok: false, issues }
+    }
+
+    // 2. The account must be allowed to push branches
+    const project = await projectResponse.json() as {
+      permissions?: { project_access?: { access_level: number } | null; group_access?: { access_level: number } | null }
+    }
+    const accessLevel = Math.max(
+      project.permissions?.project_access?.access_level ?? 0,
+      project.permissions?.group_access?.access_level ?? 0
+    )
+    if (project.permissions && accessLevel < DEVELOPER_ACCESS_LEVEL) {
+      issues.push({
+        code: 'no_push_access',
+        message: `Your account can't push to ${projectPath}.`,
+        remediation: `Ask a maintainer of ${projectPath} for the Developer role or higher.`
+      })
+    }
+
+    // 3. The target branch must exist
+    const branchResponse = await gitlabFetch(profile, `/repository/branches/${encodeURIComponent(profile.branch)}`)
+    if (!branchResponse.ok) {
+      issues.push({
+        code: 'branch_not_found',
+        message: `Branch "${profile.branch}" doesn't exist in ${projectPath}.`,
+        remediation: `Update the branch of the "${profile.name}" delivery profile to an existing branch.`
+      })
+    }
+
+    return { ok: issues.length === 0, issues }
+  } catch (error) {
+    console.error('Error checking GitLab access:', error)
+    issues.push({
+      code: 'network_error',
+      message: `Could not reach ${getGitLabUrl(profile)}.`,
+      remediation: 'Check your internet connection, and that the GitLab host is listed in networkAccess in package.json.'
+    })
+    return { ok: false, issues }
+  }
+}
+
+export function createGitLabBackend(profile: DeliveryProfile): DeliveryBackend {
+  return {
+    label: 'GitLab merge request',
+
+    async validate() {
+      const errors: string[] = []
+      if (!profile.owner || !profile.repo) {
+        errors.push('GitLab project is not configured')
+      }
+      if (!profile.branch) {
+        errors.push('Branch is not configured')
+      }
+      if (!await getProfileSecret(profile.id)) {
+        errors.push(`GitLab token is not configured for "${profile.name}"`)
+      }
+      const urlProblem = getEndpointUrlProblem(getGitLabUrl(profile))
+      if (urlProblem) {
+        errors.push(`GitLab URL: ${urlProblem}`)
+      }
+      return errors
+    },
+
+    async preflight() {
+      return await checkGitLabAccess(profile)
+    },
+
+    // A single commit can carry all icons, so everything goes into one merge request
+    planChunks(icons) {
+      return icons.length > 0 ? [icons] : []
+    },
+
+    async readFile(path) {
+      return await readRepositoryFile(profile, path)
+    },
+
+    // Retries and resumes run this again, so a branch or merge request left by an earlier attempt
+    // of the same batch is reused rather than created again
+    async deliverChunk(chunk) {
+      const branch = `design-system-icons/${chunk.batchId}`
+      const template = await loadComponentTemplate(profile, path => readRepositoryFile(profile, path))
+      const generatedIcons = generateIcons(chunk.icons, template)
+      const files = getIconFiles(generatedIcons)
+
+      const branchResponse = await gitlabFetch(profile, `/repository/branches/${encodeURIComponent(branch)}`)
+      if (!branchResponse.ok && branchResponse.status !== 404) {
+        throw await getResponseError(branchResponse, 'GitLab API error for GET /repository/branches')
+      }
+      const branchExists = branchResponse.ok
+
+      // Files that already exist are updated, so list every directory the files go to
+      const existingPaths: string[] = []
+      const directories = files.map(file => file.path.slice(0, file.path.lastIndexOf('/')))
+      for (const directory of directories.filter((directory, index) => directories.indexOf(directory) === index)) {
+        existingPaths.push(...await listDirectory(profile, directory, branchExists ? branch : profile.branch))
+      }
+
+      // Commit all icon files in one request, creating the branch unless an earlier attempt did
+      await gitlabRequest(profile, '/repository/commits', {
+        method: 'POST',
+        body: {
+          branch,
+          ...(branchExists ? {} : { start_branch: profile.branch }),
+          commit_message: getPullRequestTitle(chunk.icons),
+          actions: files.map(file => ({
+            action: existingPaths.includes(file.path) ? 'update' : 'create',
+            file_path: file.path,
+            content: file.content
+          }))
+        }
+      })
+
+      const openMergeRequests = await gitlabRequest<{ iid: number; web_url: string }[]>(
+        profile,
+        `/merge_requests?source_branch=${encodeURIComponent(branch)}&target_branch=${encodeURIComponent(profile.branch)}&state=opened`
+      )
+      const mergeRequest = openMergeRequests[0] || await gitlabRequest<{ iid: number; web_url: string }>(profile, '/merge_requests', {
+        method: 'POST',
+        body: {
+          source_branch: branch,
+          target_branch: profile.branch,
+          title: getPullRequestTitle(chunk.icons),
+          description: getPullRequestBody(generatedIcons),
+          remove_source_branch: true
+        }
+      })
+      console.log(`Opened merge request !${mergeRequest.iid} from ${branch}`)
+
+      return { url: mergeRequest.web_url }
+    }
+  }
+}
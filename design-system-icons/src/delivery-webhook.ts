@@ -0,0 +1,82 @@
+import { getProfileSecret } from './credentials'
+import { DeliveryBackend, getResponseError } from './delivery-backend'
+import { getEndpointUrlProblem } from './network-access'
+import { BatchChunk, DeliveryProfile, PreflightResult } from './types'
+
+// POSTs each submission as JSON to an HTTP endpoint (a CI trigger, a bot, a queue):
+//   { batchId, manifestHash, chunkNumber, totalChunks, icons: [{ name, svg, aliases, update? }] }
+// The profile's secret, if any, is sent as a bearer token. The endpoint may answer
+// with `{ "url": "…" }` to link the user to whatever it created.
+function getWebhookUrl(profile: DeliveryProfile): string {
+  return (profile.endpointUrl || '').trim()
+}
+
+async function checkWebhook(profile: DeliveryProfile): Promise<PreflightResult> {
+  const url = getWebhookUrl(profile)
+  try {
+    // Only reachability can be checked; a webhook may reject anything but its POSTs
+    await fetch(url, { method: 'HEAD' })
+    return { ok: true, issues: [] }
+  } catch (error) {
+    console.error('Error checking webhook:', error)
+    return {
+      ok: false,
+      issues: [{
+        code: 'network_error',
+        message: `Could not reach ${url}.`,
+        remediation: 'Check the URL of the profile, and that its host is listed in networkAccess in package.json.'
+      }]
+    }
+  }
+}
+
+export function createWebhookBackend(profile: DeliveryProfile): DeliveryBackend {
+  return {
+    label: 'Webhook',
+
+    async validate() {
+      const url = getWebhookUrl(profile)
+      if (!url) {
+        return ['Webhook URL is not configured']
+      }
+      const urlProblem = getEndpointUrlProblem(url)
+      return urlProblem ? [`Webhook URL: ${urlProblem}`] : []
+    },
+
+    async preflight() {
+      return await checkWebhook(profile)
+    },
+
+    planChunks(icons) {
+      return icons.length > 0 ? [icons] : []
+    },
+
+    previewChunk(chunk) {
+      const request = JSON.stringify(chunk)
+      return { request, icons: (JSON.parse(request) as BatchChunk).icons }
+    },
+
+    async deliverChunk(chunk) {
+      const secret = await getProfileSecret(profile.id)
+      const response = await fetch(getWebhookUrl(profile), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(secret ? { Authorization: `Bearer ${secret}` } : {})
+        },
+        body: JSON.stringify(chunk)
+      })
+      if (!response.ok) {
+        throw await getResponseError(response, 'Webhook error')
+      }
+
+      const text = await response.text()
+      try {
+        const body = JSON.parse(text) as { url?: unknown }
+        return typeof body.url === 'string' ? { url: body.url } : {}
+      } catch {
+        return {} // Not every endpoint answers with JSON
+      }
+    }
+  }
+}
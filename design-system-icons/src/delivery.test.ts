@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { deliverChunks, getChunkProgress, submitIcons } from './delivery'
+import { createFakeBackend } from './delivery-fake'
+import { createGitHubWorkflowBackend } from './delivery-github'
+import { getFailedChunks } from './failed-chunks'
+import { DeliveryProfile, IconPayload } from './types'
+
+const PROFILE: DeliveryProfile = {
+  id: 'local-test',
+  name: 'Local test',
+  owner: '',
+  repo: '',
+  branch: '',
+  workflowFile: '',
+  deliveryMode: 'fake'
+}
+
+// Icons with distinct path data, so compression can't fit many of them into a small chunk
+function createIcons(count: number): IconPayload[] {
+  return Array.from({ length: count }, (_, index) => ({
+    name: `icon-${index}`,
+    svg: `<svg viewBox="0 0 24 24"><path d="${Array.from({ length: 12 }, (_, point) => `L${(index * 7 + point * 13) % 97}.${(index * 31 + point * 17) % 89} ${(index * 11 + point * 5) % 83}.${(index + point * 29) % 79}`).join('')}"/></svg>`,
+    aliases: []
+  }))
+}
+
+// Delivery waits between chunks and before retries; fake timers skip the waits
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync()
+  return await promise
+}
+
+beforeEach(() => {
+  // Batch records and failed chunks are kept in figma.clientStorage
+  const storage = new Map<string, unknown>()
+  vi.stubGlobal('figma', {
+    clientStorage: {
+      getAsync: async (key: string) => storage.get(key),
+      setAsync: async (key: string, value: unknown) => { storage.set(key, value) },
+      deleteAsync: async (key: string) => { storage.delete(key) }
+    }
+  })
+  vi.useFakeTimers()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('submitIcons', () => {
+  it('splits icons into chunks of the maximum size and delivers them in order as one batch', async () => {
+    const icons = createIcons(6)
+    const backend = createFakeBackend({ maxChunkSize: 800 })
+
+    const results = await settle(submitIcons(PROFILE, backend, icons))
+
+    expect(results.length).toBeGreaterThan(1)
+    expect(results.every(result => result.error === undefined)).toBe(true)
+    expect(backend.deliveries.map(chunk => chunk.chunkNumber)).toEqual(results.map((_, index) => index + 1))
+    expect(new Set(backend.deliveries.map(chunk => chunk.batchId)).size).toBe(1)
+    expect(backend.deliveries.every(chunk => chunk.totalChunks === results.length)).toBe(true)
+    expect(backend.deliveries.flatMap(chunk => chunk.icons.map(icon => icon.name))).toEqual(icons.map(icon => icon.name))
+    for (const chunk of backend.deliveries) {
+      expect(backend.previewChunk!(chunk).request.length).toBeLessThanOrEqual(800)
+    }
+    // Each chunk is as full as it can be: the next icon wouldn't have fit
+    for (let i = 0; i < backend.deliveries.length - 1; i++) {
+      const chunk = backend.deliveries[i]
+      const next = backend.deliveries[i + 1].icons[0]
+      expect(backend.previewChunk!({ ...chunk, icons: [...chunk.icons, next] }).request.length).toBeGreaterThan(800)
+    }
+  })
+
+  it('retries a chunk that failed with a retryable error', async () => {
+    const backend = createFakeBackend({ maxChunkSize: 800, failChunks: { 2: 'retryable' } })
+    const onRetry = vi.fn()
+
+    const results = await settle(submitIcons(PROFILE, backend, createIcons(6), { onRetry }))
+
+    expect(onRetry).toHaveBeenCalledTimes(1)
+    expect(onRetry.mock.calls[0][0].chunkNumber).toBe(2)
+    expect(results.every(result => result.error === undefined)).toBe(true)
+    expect(backend.deliveries).toHaveLength(results.length)
+    expect(await getFailedChunks()).toEqual([])
+  })
+
+  it('reports and keeps a chunk that failed permanently, and still delivers the others', async () => {
+    const backend = createFakeBackend({ maxChunkSize: 800, failChunks: { 2: 'permanent' } })
+    const onResult = vi.fn()
+
+    const results = await settle(submitIcons(PROFILE, backend, createIcons(6), { onResult }))
+
+    expect(results[1].error).toContain('Fake rejection of chunk 2')
+    expect(results.filter(result => result.error !== undefined)).toHaveLength(1)
+    expect(backend.deliveries.map(chunk => chunk.chunkNumber)).not.toContain(2)
+    expect(backend.deliveries).toHaveLength(results.length - 1)
+    expect(onResult).toHaveBeenCalledTimes(results.length)
+
+    const failedChunks = await getFailedChunks()
+    expect(failedChunks).toHaveLength(1)
+    expect(failedChunks[0]).toMatchObject({ chunkNumber: 2, batchId: results[0].batchId, profile: PROFILE })
+    expect(failedChunks[0].icons).toEqual(results[1].icons)
+  })
+})
+
+describe('deliverChunks', () => {
+  it('resumes a failed chunk with its original batch fields', async () => {
+    const failing = createFakeBackend({ maxChunkSize: 800, failChunks: { 1: 'permanent' } })
+    await settle(submitIcons(PROFILE, failing, createIcons(4)))
+    const [failedChunk] = await getFailedChunks()
+
+    const backend = createFakeBackend()
+    const results = await settle(deliverChunks(backend, [failedChunk]))
+
+    expect(results[0].error).toBeUndefined()
+    expect(backend.deliveries).toEqual([{
+      batchId: failedChunk.batchId,
+      manifestHash: failedChunk.manifestHash,
+      chunkNumber: 1,
+      totalChunks: failedChunk.totalChunks,
+      icons: failedChunk.icons
+    }])
+  })
+
+  it('gives up on a chunk that keeps failing with retryable errors', async () => {
+    const backend = createFakeBackend()
+    backend.deliverChunk = vi.fn(async () => { throw new Error('Network request failed') })
+
+    const [result] = await settle(deliverChunks(backend, [{ batchId: 'batch-test', manifestHash: 'hash', chunkNumber: 1, totalChunks: 1, icons: createIcons(1) }]))
+
+    expect(backend.deliverChunk).toHaveBeenCalledTimes(5)
+    expect(result.error).toMatch(/gave up after 5 attempts/)
+  })
+})
+
+describe('getChunkProgress', () => {
+  // A workflow written before runs were tracked: it takes the icons and nothing else
+  const WORKFLOW = 'on:\n  workflow_dispatch:\n    inputs:\n      icons:\n        required: true\n      chunkInfo:\n        required: false\n'
+
+  it('reports a chunk as done when its workflow run has no correlation ID to be found by', async () => {
+    const profile: DeliveryProfile = { ...PROFILE, owner: 'acme', repo: 'icons', branch: 'main', workflowFile: 'icons.yml', deliveryMode: 'workflow' }
+    const fetch = vi.fn(async (url: string, _init: RequestInit) => url.includes('/contents/')
+      ? new Response(WORKFLOW, { status: 200 })
+      : new Response(null, { status: 204 }))
+    vi.stubGlobal('fetch', fetch)
+    const backend = createGitHubWorkflowBackend(profile)
+
+    const [result] = await settle(submitIcons(profile, backend, createIcons(2)))
+
+    expect(result.error).toBeUndefined()
+    expect(result.correlationId).toBeUndefined()
+    expect(JSON.parse(fetch.mock.calls[1][1].body as string).inputs).not.toHaveProperty('correlationId')
+    // Nothing would ever move it past "Waiting for run"
+    expect(getChunkProgress(backend, result)).toMatchObject({ state: 'success', conclusion: undefined })
+  })
+
+  it('reports a dispatched chunk as pending while its run can be tracked', async () => {
+    const backend = createFakeBackend()
+    const result = { batchId: 'batch-test', manifestHash: 'hash', chunkNumber: 1, totalChunks: 1, icons: createIcons(1), correlationId: 'chunk-1-abc', deliveredAt: 0 }
+
+    expect(getChunkProgress(backend, result).state).toBe('pending')
+    expect(getChunkProgress(backend, { ...result, correlationId: undefined }).state).toBe('success')
+  })
+})
@@ -0,0 +1,119 @@
+import { createBatch, saveBatchRecord, updateBatchChunk } from './batches'
+import { ChunkDeliveryResult, DeliveryBackend, withRetry } from './delivery-backend'
+import { createFakeBackend } from './delivery-fake'
+import { createGitHubPullRequestBackend, createGitHubWorkflowBackend } from './delivery-github'
+import { createGitLabBackend } from './delivery-gitlab'
+import { createWebhookBackend } from './delivery-webhook'
+import { addFailedChunk } from './failed-chunks'
+import { BatchChunk, ChunkRunProgress, DeliveryMode, DeliveryProfile, IconPayload } from './types'
+
+const CHUNK_DELAY = 1000 // 1 second delay between chunks
+
+// Whether a profile targets a GitHub repository, i.e. uses the GitHub token
+export function isGitHubMode(mode: DeliveryMode): boolean {
+  return mode === 'workflow' || mode === 'pull-request'
+}
+
+export function createDeliveryBackend(profile: DeliveryProfile): DeliveryBackend {
+  switch (profile.deliveryMode) {
+    case 'pull-request':
+      return createGitHubPullRequestBackend(profile)
+    case 'gitlab-merge-request':
+      return createGitLabBackend(profile)
+    case 'webhook':
+      return createWebhookBackend(profile)
+    case 'fake':
+      return createFakeBackend()
+    default:
+      return createGitHubWorkflowBackend(profile)
+  }
+}
+
+// The progress of a chunk right after delivery. Work that the backend can follow, such as a
+// workflow run found by its correlation ID, is still pending; for the other chunks, delivery is
+// the end of the submission, and the confirmation links to the workflow page instead of a run.
+export function getChunkProgress(backend: DeliveryBackend, result: ChunkDeliveryResult): ChunkRunProgress {
+  return {
+    chunkNumber: result.chunkNumber,
+    totalChunks: result.totalChunks,
+    iconCount: result.icons.length,
+    state: result.error ? 'failure' : backend.trackChunks && result.correlationId !== undefined ? 'pending' : 'success',
+    conclusion: result.error ? 'dispatch_failed' : undefined,
+    runUrl: result.url
+  }
+}
+
+export interface DeliveryCallbacks {
+  // Called as soon as a chunk was delivered or finally failed
+  onResult?: (result: ChunkDeliveryResult) => void
+  onRetry?: (chunk: BatchChunk, delay: number, reason: string) => void
+}
+
+// Deliver the chunks of a batch one after another, keeping their state in the batch record.
+// Transient failures (network errors, 5xx responses, rate limits) are retried with backoff;
+// the results report which chunks still failed so the caller can keep them for a later resume.
+export async function deliverChunks(backend: DeliveryBackend, chunks: BatchChunk[], callbacks: DeliveryCallbacks = {}): Promise<ChunkDeliveryResult[]> {
+  const results: ChunkDeliveryResult[] = []
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i]
+    // Copy only the batch fields, as resumed chunks carry their stored profile and attempts
+    const batchChunk: BatchChunk = {
+      batchId: chunk.batchId,
+      manifestHash: chunk.manifestHash,
+      chunkNumber: chunk.chunkNumber,
+      totalChunks: chunk.totalChunks,
+      icons: chunk.icons
+    }
+    let result: ChunkDeliveryResult
+
+    try {
+      const delivered = await withRetry(() => backend.deliverChunk(batchChunk), (attempt, delay, reason) => {
+        console.warn(`Chunk ${chunk.chunkNumber}/${chunk.totalChunks}: ${reason}, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1})`)
+        callbacks.onRetry?.(batchChunk, delay, reason)
+      })
+      result = { ...batchChunk, ...delivered, deliveredAt: Date.now() }
+      console.log(`Chunk ${chunk.chunkNumber}/${chunk.totalChunks}: Sent ${chunk.icons.length} icon(s) through ${backend.label}`)
+    } catch (error) {
+      console.error(`Error delivering chunk ${chunk.chunkNumber}:`, error)
+      result = { ...batchChunk, deliveredAt: Date.now(), error: error instanceof Error ? error.message : String(error) }
+    }
+
+    results.push(result)
+    updateBatchChunk(result.batchId, getChunkProgress(backend, result))
+    callbacks.onResult?.(result)
+
+    // Add a small delay between requests to avoid rate limiting
+    if (i < chunks.length - 1) {
+      await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY))
+    }
+  }
+
+  return results
+}
+
+// Plan a new batch, record it and deliver its chunks. Chunks that still failed are
+// saved so they can be resumed without re-sending the rest.
+export async function submitIcons(
+  profile: DeliveryProfile,
+  backend: DeliveryBackend,
+  icons: IconPayload[],
+  callbacks: DeliveryCallbacks = {}
+): Promise<ChunkDeliveryResult[]> {
+  // All chunks of this submission share one batch ID so they can end up in a single review
+  const chunks = createBatch(backend.planChunks(icons))
+  if (chunks.length === 0) {
+    return []
+  }
+  await saveBatchRecord(profile, chunks)
+
+  const results = await deliverChunks(backend, chunks, callbacks)
+
+  for (const result of results) {
+    if (result.error) {
+      await addFailedChunk(profile, result, result.error)
+    }
+  }
+
+  return results
+}
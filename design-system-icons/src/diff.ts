@@ -0,0 +1,82 @@
+// Line-based unified diffs for showing what a submission would change in the target repository.
+// Icon files are small, so a plain LCS table is fast enough.
+const CONTEXT_LINES = 3
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string }
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n')
+  // A trailing newline doesn't start another line
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  // lengths[i][j] is the length of the longest common subsequence of before[i..] and after[j..]
+  const lengths: number[][] = []
+  for (let i = before.length; i >= 0; i--) {
+    lengths[i] = []
+    for (let j = after.length; j >= 0; j--) {
+      lengths[i][j] = i === before.length || j === after.length ? 0
+        : before[i] === after[j] ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ type: ' ', text: before[i++] })
+      j++
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removed lines come before the lines that replace them
+      lines.push({ type: '-', text: before[i++] })
+    } else {
+      lines.push({ type: '+', text: after[j++] })
+    }
+  }
+  return lines
+}
+
+// Unified diff of a file, or an empty string when nothing changed. `before` is null for new files.
+export function createUnifiedDiff(path: string, before: string | null, after: string): string {
+  const lines = diffLines(before === null ? [] : splitLines(before), splitLines(after))
+  const changed = lines.map((line, index) => line.type !== ' ' ? index : -1).filter(index => index >= 0)
+  if (changed.length === 0) {
+    return ''
+  }
+
+  const output = [before === null ? '--- /dev/null' : `--- a/${path}`, `+++ b/${path}`]
+
+  // Group changes whose context overlaps into hunks
+  let index = 0
+  while (index < changed.length) {
+    const start = Math.max(changed[index] - CONTEXT_LINES, 0)
+    let end = changed[index]
+    while (index + 1 < changed.length && changed[index + 1] - end <= CONTEXT_LINES * 2) {
+      end = changed[++index]
+    }
+    end = Math.min(end + CONTEXT_LINES, lines.length - 1)
+    index++
+
+    // Line numbers of the hunk in the old and new file
+    let oldLine = 1
+    let newLine = 1
+    for (let k = 0; k < start; k++) {
+      if (lines[k].type !== '+') oldLine++
+      if (lines[k].type !== '-') newLine++
+    }
+    const hunk = lines.slice(start, end + 1)
+    const oldCount = hunk.filter(line => line.type !== '+').length
+    const newCount = hunk.filter(line => line.type !== '-').length
+
+    output.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`)
+    output.push(...hunk.map(line => `${line.type}${line.text}`))
+  }
+
+  return output.join('\n')
+}
@@ -0,0 +1,77 @@
+import { createBatch } from './batches'
+import { DeliveryBackend } from './delivery-backend'
+import { createUnifiedDiff } from './diff'
+import { generateIcons, getIconFiles, loadComponentTemplate } from './github-pr'
+import { DeliveryProfile, DryRunChunk, DryRunFile, DryRunResult, IconPayload } from './types'
+
+// Compare a generated file with the target branch. Only GET requests are made.
+async function getDryRunFile(backend: DeliveryBackend, path: string, content: string): Promise<DryRunFile> {
+  if (!backend.readFile) {
+    return { path, content, change: 'unknown' }
+  }
+  const current = await backend.readFile(path)
+  if (current === content) {
+    return { path, content, change: 'unchanged' }
+  }
+  return {
+    path,
+    content,
+    change: current === null ? 'added' : 'modified',
+    diff: createUnifiedDiff(path, current, content)
+  }
+}
+
+// Plan and encode a submission exactly as submitIcons would, without sending or recording it
+export async function createDryRun(profile: DeliveryProfile, backend: DeliveryBackend, icons: IconPayload[]): Promise<DryRunResult> {
+  const chunks = createBatch(backend.planChunks(icons))
+  const result: DryRunResult = {
+    profileName: profile.name,
+    deliveryMode: profile.deliveryMode,
+    batchId: chunks[0]?.batchId || '',
+    manifestHash: chunks[0]?.manifestHash || '',
+    createdAt: Date.now(),
+    chunks: []
+  }
+
+  // Diffs need credentials; without them the files are still listed
+  const configErrors = backend.readFile ? await backend.validate() : []
+  if (configErrors.length > 0) {
+    result.diffError = `Files were not compared with the repository: ${configErrors.join(', ')}`
+  }
+  let canDiff = configErrors.length === 0
+
+  // Components are generated as the delivery would, with the profile's template
+  const template = await loadComponentTemplate(profile, backend.readFile)
+
+  for (const chunk of chunks) {
+    const preview = backend.previewChunk?.(chunk)
+    const dryRunChunk: DryRunChunk = {
+      chunkNumber: chunk.chunkNumber,
+      totalChunks: chunk.totalChunks,
+      request: preview?.request,
+      requestSize: preview?.request.length,
+      icons: preview ? preview.icons : chunk.icons,
+      files: []
+    }
+
+    for (const file of getIconFiles(generateIcons(dryRunChunk.icons, template))) {
+      if (!canDiff) {
+        dryRunChunk.files.push({ ...file, change: 'unknown' })
+        continue
+      }
+      try {
+        dryRunChunk.files.push(await getDryRunFile(backend, file.path, file.content))
+      } catch (error) {
+        // Stop comparing after the first failure rather than repeating it for every file
+        console.error('Error reading file for dry run:', error)
+        result.diffError = `Files were not compared with the repository: ${error instanceof Error ? error.message : String(error)}`
+        canDiff = false
+        dryRunChunk.files.push({ ...file, change: 'unknown' })
+      }
+    }
+
+    result.chunks.push(dryRunChunk)
+  }
+
+  return result
+}
@@ -0,0 +1,66 @@
+import { BatchChunk, DeliveryProfile, FailedChunk, FailedChunkSummary } from './types'
+
+// Chunks that still failed after retries, stored in figma.clientStorage so they
+// can be resent once the cause is fixed, without re-sending the chunks that went through.
+const FAILED_CHUNKS_KEY = 'failed-chunks'
+
+export async function getFailedChunks(): Promise<FailedChunk[]> {
+  const stored = await figma.clientStorage.getAsync(FAILED_CHUNKS_KEY)
+  return Array.isArray(stored) ? stored as FailedChunk[] : []
+}
+
+async function setFailedChunks(chunks: FailedChunk[]): Promise<void> {
+  if (chunks.length === 0) {
+    await figma.clientStorage.deleteAsync(FAILED_CHUNKS_KEY)
+  } else {
+    await figma.clientStorage.setAsync(FAILED_CHUNKS_KEY, chunks)
+  }
+}
+
+// Keep the chunk's batch ID and position so a resend joins the original batch
+export async function addFailedChunk(profile: DeliveryProfile, chunk: BatchChunk, error: string): Promise<void> {
+  const chunks = await getFailedChunks()
+  chunks.push({
+    batchId: chunk.batchId,
+    manifestHash: chunk.manifestHash,
+    chunkNumber: chunk.chunkNumber,
+    totalChunks: chunk.totalChunks,
+    icons: chunk.icons,
+    id: `chunk-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    profile,
+    error,
+    failedAt: Date.now(),
+    attempts: 1
+  })
+  await setFailedChunks(chunks)
+}
+
+// Record another failed attempt to resend a stored chunk
+export async function markFailedChunkRetried(chunkId: string, error: string): Promise<void> {
+  const chunks = await getFailedChunks()
+  await setFailedChunks(chunks.map(chunk =>
+    chunk.id === chunkId
+      ? { ...chunk, error, failedAt: Date.now(), attempts: chunk.attempts + 1 }
+      : chunk
+  ))
+}
+
+export async function removeFailedChunk(chunkId: string): Promise<void> {
+  const chunks = await getFailedChunks()
+  await setFailedChunks(chunks.filter(chunk => chunk.id !== chunkId))
+}
+
+export async function clearFailedChunks(): Promise<void> {
+  await setFailedChunks([])
+}
+
+export function summarizeFailedChunk(chunk: FailedChunk): FailedChunkSummary {
+  return {
+    id: chunk.id,
+    batchId: chunk.batchId,
+    profileName: chunk.profile.name,
+    iconNames: chunk.icons.map(icon => icon.name),
+    error: chunk.error,
+    failedAt: chunk.failedAt
+  }
+}
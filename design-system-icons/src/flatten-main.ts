@@ -1,82 +1,25 @@
 import { once, on, showUI, emit } from '@create-figma-plugin/utilities'
 
 import { FlattenIconsHandler, GetSelectedIconsHandler, GetSelectedIconsResponseHandler, IconData } from './types'
+import { detectIconNodes, getDetectionRules } from './icon-detection'
 
 // Track last processed icons for comparison
 let lastProcessedIcons: IconData[] = []
 
-// Helper function to check if a node contains vector content
-function hasVectorContent(node: SceneNode): boolean {
-  if (node.type === 'VECTOR') {
-    return true
-  }
-  
-  // Check for boolean operations (unions, intersections, etc.)
-  if (node.type === 'BOOLEAN_OPERATION') {
-    return true
-  }
-  
-  if (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') {
-    // Check if frame contains vector nodes
-    if ('children' in node) {
-      return node.children.some(child => hasVectorContent(child))
-    }
-  }
-  
-  return false
-}
-
-// Helper function to check if a node is exactly 24x24px
-function is24x24Frame(node: SceneNode): boolean {
-  return node.width === 24 && node.height === 24
-}
-
-// Helper function to check if a node has reasonable icon dimensions (for individual vectors)
-function hasReasonableIconSize(node: SceneNode): boolean {
-  const minSize = 12
-  const maxSize = 48
-  
-  return node.width >= minSize && node.width <= maxSize && 
-         node.height >= minSize && node.height <= maxSize
-}
-
-// Helper function to get all icon nodes from a selection
-function getIconNodes(nodes: readonly SceneNode[]): SceneNode[] {
-  const iconNodes: SceneNode[] = []
-  
-  for (const node of nodes) {
-    // Priority 1: 24x24px frames with vector content
-    if ((node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') && 
-        is24x24Frame(node) && hasVectorContent(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 2: Individual vectors with reasonable size
-    else if (node.type === 'VECTOR' && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 3: Boolean operations (unions, etc.) with reasonable size
-    else if (node.type === 'BOOLEAN_OPERATION' && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 4: Other frames with vector content (fallback for non-24x24)
-    else if ((node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') && 
-             hasVectorContent(node) && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-  }
-  
-  return iconNodes
+// Flattening works on each drawing, so a component set is listed and flattened variant by variant
+function expandComponentSets(nodes: SceneNode[]): SceneNode[] {
+  return nodes.reduce<SceneNode[]>((expanded, node) => expanded.concat(node.type === 'COMPONENT_SET' ? node.children : [node]), [])
 }
 
 // Function to process selection and send to UI
 async function processSelection() {
   try {
     const selection = figma.currentPage.selection
-    const iconNodes = getIconNodes(selection)
+    const { iconNodes, rejected } = detectIconNodes(selection, await getDetectionRules())
     
     const icons: IconData[] = []
 
-    for (const node of iconNodes) {
+    for (const node of expandComponentSets(iconNodes)) {
       try {
         // Export as SVG
         const svgData = await node.exportAsync({
@@ -194,7 +137,7 @@ async function processSelection() {
     lastProcessedIcons = icons
     
     // Send the icons back to the UI
-    emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons })
+    emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons, rejected })
     
   } catch (error) {
     console.error('Error in processSelection:', error)
@@ -203,19 +146,21 @@ async function processSelection() {
   }
 }
 
-export default function () {
+export default async function () {
   // Process current selection immediately and flatten all icons
   const selection = figma.currentPage.selection
-  const iconNodes = getIconNodes(selection)
+  const { iconNodes, rejected } = detectIconNodes(selection, await getDetectionRules())
   
   if (iconNodes.length === 0) {
-    figma.notify('No icons selected. Please select some icons to flatten.')
+    figma.notify(rejected.length > 0
+      ? `No icons selected. "${rejected[0].name}": ${rejected[0].reason}.`
+      : 'No icons selected. Please select some icons to flatten.')
     figma.closePlugin()
     return
   }
 
   // Flatten all selected icons immediately
-  flattenSelectedIcons(iconNodes)
+  flattenSelectedIcons(expandComponentSets(iconNodes))
 }
 
 // Function to flatten selected icons
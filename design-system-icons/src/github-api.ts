@@ -0,0 +1,88 @@
+import { getGitHubToken } from './credentials'
+import { DeliveryError, getResponseError, getResponseHeader } from './delivery-backend'
+import { DeliveryProfile } from './types'
+
+// Headers sent with every GitHub REST API request
+export function getGitHubHeaders(token: string): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Accept': 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+  }
+}
+
+// Set when a response reports an exhausted rate limit, so the next request waits for the reset
+let rateLimitResetAt = 0
+const MAX_RATE_LIMIT_WAIT = 5 * 60 * 1000
+
+// fetch for GitHub API URLs that waits out an exhausted rate limit instead of sending requests bound to fail
+export async function githubFetch(url: string, init: RequestInit): Promise<Response> {
+  const rateLimitWait = rateLimitResetAt - Date.now()
+  if (rateLimitWait > MAX_RATE_LIMIT_WAIT) {
+    throw new DeliveryError(`GitHub API rate limit exceeded until ${new Date(rateLimitResetAt).toLocaleTimeString()}`)
+  }
+  if (rateLimitWait > 0) {
+    await new Promise(resolve => setTimeout(resolve, rateLimitWait))
+  }
+
+  const response = await fetch(url, init)
+  const remaining = getResponseHeader(response, 'X-RateLimit-Remaining')
+  const reset = getResponseHeader(response, 'X-RateLimit-Reset')
+  if (remaining === '0' && reset !== null) {
+    rateLimitResetAt = Number(reset) * 1000 + 1000
+  }
+  return response
+}
+
+// Helper function to call the GitHub REST API for the profile's repository and parse the JSON response
+export async function githubRequest<T>(profile: DeliveryProfile, path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+  const token = await getGitHubToken()
+  const response = await githubFetch(`https://api.github.com/repos/${profile.owner}/${profile.repo}${path}`, {
+    method: options.method || 'GET',
+    headers: getGitHubHeaders(token),
+    body: options.body ? JSON.stringify(options.body) : undefined
+  })
+
+  if (!response.ok) {
+    throw await getResponseError(response, `GitHub API error for ${options.method || 'GET'} ${path}`)
+  }
+
+  return await response.json() as T
+}
+
+// Helper function for a GET of something that may not exist, such as a branch: null if it doesn't
+export async function githubRequestIfExists<T>(profile: DeliveryProfile, path: string): Promise<T | null> {
+  const token = await getGitHubToken()
+  const response = await githubFetch(`https://api.github.com/repos/${profile.owner}/${profile.repo}${path}`, {
+    headers: getGitHubHeaders(token)
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw await getResponseError(response, `GitHub API error for GET ${path}`)
+  }
+
+  return await response.json() as T
+}
+
+// Helper function to fetch a file's raw content from the profile's repository, or null if it doesn't exist
+export async function githubRequestRaw(profile: DeliveryProfile, path: string): Promise<string | null> {
+  const token = await getGitHubToken()
+  const response = await githubFetch(`https://api.github.com/repos/${profile.owner}/${profile.repo}${path}`, {
+    headers: {
+      ...getGitHubHeaders(token),
+      'Accept': 'application/vnd.github.raw+json'
+    }
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw await getResponseError(response, `GitHub API error for GET ${path}`)
+  }
+
+  return await response.text()
+}
@@ -0,0 +1,175 @@
+import { getBuiltInTemplate, getComponentTemplateId, getTemplateProblems, REPOSITORY_TEMPLATE_ID } from './code-templates'
+import { GITHUB_CONFIG } from './config'
+import { DeliveryError } from './delivery-backend'
+import { githubRequest, githubRequestIfExists } from './github-api'
+import { getIconFileName } from './icon-names'
+import { OUTPUT_FILE_EXTENSIONS } from './output-targets'
+import { DeliveryProfile, IconPayload } from './types'
+import { processSvgToReact } from './svgr-processor'
+
+export interface PullRequestResult {
+  url: string
+  number: number
+  branch: string
+}
+
+export interface IconFile {
+  path: string
+  content: string
+}
+
+// An icon with the code generated for it, so each icon is processed once per delivery
+export interface GeneratedIcon {
+  icon: IconPayload
+  componentName: string
+  files: IconFile[]
+}
+
+// Source of the profile's component template. The repository template is read from the target
+// branch each time, so changing it there needs no plugin release.
+export async function loadComponentTemplate(profile: DeliveryProfile, readFile?: (path: string) => Promise<string | null>): Promise<string> {
+  const templateId = getComponentTemplateId(profile)
+  if (templateId !== REPOSITORY_TEMPLATE_ID) {
+    return getBuiltInTemplate(templateId).source
+  }
+
+  const path = GITHUB_CONFIG.COMPONENT_TEMPLATE_PATH
+  if (!readFile) {
+    throw new DeliveryError(`"${profile.name}" can't read a component template from a repository`)
+  }
+  const source = await readFile(path)
+  if (source === null) {
+    throw new DeliveryError(`No component template at ${path} on ${profile.branch}`)
+  }
+  const problems = getTemplateProblems(source)
+  if (problems.length > 0) {
+    throw new DeliveryError(`Component template ${path}: ${problems.join(', ')}`)
+  }
+  return source
+}
+
+// Generate the files committed for each icon: the code of each requested output target and the raw SVG
+export function generateIcons(icons: IconPayload[], template?: string): GeneratedIcon[] {
+  return icons.map(icon => {
+    const files: IconFile[] = []
+    const fileName = getIconFileName(icon.name)
+    // Regenerate the code so it matches the (possibly edited) icon name and color mode
+    const processedIcon = processSvgToReact(icon.svg, icon.name, { colorMode: icon.colorMode, template, aliases: icon.aliases, variants: icon.variants })
+
+    for (const target of icon.targets || ['react']) {
+      if (target === 'react') {
+        files.push({
+          path: `${GITHUB_CONFIG.ICONS_DIR}/${fileName}.tsx`,
+          content: `${processedIcon.reactCode}\n`
+        })
+      } else if (processedIcon.outputs) {
+        // Generated files already end with a newline
+        files.push({
+          path: `${GITHUB_CONFIG.OUTPUT_DIRS[target]}/${fileName}.${OUTPUT_FILE_EXTENSIONS[target]}`,
+          content: processedIcon.outputs[target]
+        })
+      }
+    }
+    files.push({
+      path: `${GITHUB_CONFIG.SVG_DIR}/${fileName}.svg`,
+      content: icon.svg
+    })
+    return { icon, componentName: processedIcon.componentName, files }
+  })
+}
+
+export function getIconFiles(generatedIcons: GeneratedIcon[]): IconFile[] {
+  return generatedIcons.reduce<IconFile[]>((files, generated) => files.concat(generated.files), [])
+}
+
+export function getPullRequestTitle(icons: IconPayload[]): string {
+  if (icons.length === 1) {
+    return `Add ${icons[0].name} icon`
+  }
+  const names = icons.slice(0, 3).map(icon => icon.name).join(', ')
+  return `Add ${icons.length} icons (${names}${icons.length > 3 ? ', …' : ''})`
+}
+
+export function getPullRequestBody(generatedIcons: GeneratedIcon[]): string {
+  const rows = generatedIcons.map(({ icon, componentName }) => {
+    const aliases = icon.aliases.length > 0 ? icon.aliases.join(', ') : '—'
+    const change = icon.update ? 'Updated' : 'Added'
+    return `| \`${getIconFileName(icon.name)}\` | \`${componentName}\` | ${change} | ${aliases} |`
+  })
+
+  return [
+    `Adds ${generatedIcons.length} icon${generatedIcons.length !== 1 ? 's' : ''} to the design system.`,
+    '',
+    '| File | Component | Change | Aliases |',
+    '| --- | --- | --- | --- |',
+    ...rows,
+    '',
+    '_Opened by the Design System Icons Figma plugin._'
+  ].join('\n')
+}
+
+// Create a branch, commit the icon files through the Git Data API and open a pull request. This
+// runs again when a delivery is retried or resumed, so a branch or pull request left by an
+// earlier attempt of the same batch is reused rather than created again.
+export async function createIconsPullRequest(profile: DeliveryProfile, icons: IconPayload[], branch: string, template?: string): Promise<PullRequestResult> {
+  const generatedIcons = generateIcons(icons, template)
+
+  // Resolve the commit and tree the new branch will be based on
+  const baseRef = await githubRequest<{ object: { sha: string } }>(profile, `/git/ref/heads/${profile.branch}`)
+  const baseCommit = await githubRequest<{ tree: { sha: string } }>(profile, `/git/commits/${baseRef.object.sha}`)
+
+  // Create a tree with all icon files on top of the base tree
+  const tree = await githubRequest<{ sha: string }>(profile, '/git/trees', {
+    method: 'POST',
+    body: {
+      base_tree: baseCommit.tree.sha,
+      tree: getIconFiles(generatedIcons).map(file => ({ ...file, mode: '100644', type: 'blob' }))
+    }
+  })
+
+  const commit = await githubRequest<{ sha: string }>(profile, '/git/commits', {
+    method: 'POST',
+    body: {
+      message: getPullRequestTitle(icons),
+      tree: tree.sha,
+      parents: [baseRef.object.sha]
+    }
+  })
+
+  // The branch belongs to the batch, so an earlier attempt's commit is replaced
+  const existingRef = await githubRequestIfExists(profile, `/git/ref/heads/${branch}`)
+  if (existingRef) {
+    await githubRequest(profile, `/git/refs/heads/${branch}`, {
+      method: 'PATCH',
+      body: { sha: commit.sha, force: true }
+    })
+  } else {
+    await githubRequest(profile, '/git/refs', {
+      method: 'POST',
+      body: {
+        ref: `refs/heads/${branch}`,
+        sha: commit.sha
+      }
+    })
+  }
+
+  const openPullRequests = await githubRequest<{ html_url: string; number: number }[]>(
+    profile,
+    `/pulls?head=${encodeURIComponent(`${profile.owner}:${branch}`)}&base=${encodeURIComponent(profile.branch)}&state=open`
+  )
+  const pullRequest = openPullRequests[0] || await githubRequest<{ html_url: string; number: number }>(profile, '/pulls', {
+    method: 'POST',
+    body: {
+      title: getPullRequestTitle(icons),
+      body: getPullRequestBody(generatedIcons),
+      head: branch,
+      base: profile.branch
+    }
+  })
+
+  return {
+    url: pullRequest.html_url,
+    number: pullRequest.number,
+    branch
+  }
+}
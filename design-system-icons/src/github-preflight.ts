@@ -0,0 +1,119 @@
+import { getGitHubToken } from './credentials'
+import { getResponseHeader } from './delivery-backend'
+import { getGitHubHeaders } from './github-api'
+import { DeliveryProfile, PreflightIssue, PreflightResult } from './types'
+
+// Classic token scopes needed for each delivery mode. Fine-grained tokens don't
+// report scopes, so for those we rely on the repository permissions instead.
+function getRequiredScopes(profile: DeliveryProfile): string[] {
+  return profile.deliveryMode === 'workflow' ? ['repo', 'workflow'] : ['repo']
+}
+
+async function githubGet(path: string, token: string): Promise<Response> {
+  return await fetch(`https://api.github.com${path}`, {
+    headers: getGitHubHeaders(token)
+  })
+}
+
+// Check the token, repository, branch and workflow of a profile before anything is submitted
+export async function checkGitHubAccess(profile: DeliveryProfile): Promise<PreflightResult> {
+  const issues: PreflightIssue[] = []
+  const repoPath = `${profile.owner}/${profile.repo}`
+
+  const token = await getGitHubToken()
+  if (!token) {
+    issues.push({
+      code: 'missing_token',
+      message: 'No GitHub token is saved.',
+      remediation: 'Open Settings and save a personal access token from github.com/settings/tokens.'
+    })
+    return { ok: false, issues }
+  }
+
+  try {
+    // 1. The token must be valid
+    const userResponse = await githubGet('/user', token)
+    if (userResponse.status === 401) {
+      issues.push({
+        code: 'invalid_token',
+        message: 'GitHub rejected the saved token.',
+        remediation: 'The token may be mistyped, expired or revoked. Create a new one and replace it in Settings.'
+      })
+      return { ok: false, issues }
+    }
+    const user = userResponse.ok ? await userResponse.json() as { login: string } : undefined
+
+    // 2. Classic tokens must carry the required scopes
+    const scopesHeader = getResponseHeader(userResponse, 'X-OAuth-Scopes')
+    if (scopesHeader !== null) {
+      const scopes = scopesHeader.split(',').map(scope => scope.trim()).filter(Boolean)
+      const missingScopes = getRequiredScopes(profile).filter(scope =>
+        !scopes.includes(scope) && !(scope === 'repo' && scopes.includes('public_repo'))
+      )
+      if (missingScopes.length > 0) {
+        issues.push({
+          code: 'missing_scopes',
+          message: `The token is missing the ${missingScopes.map(scope => `"${scope}"`).join(' and ')} scope${missingScopes.length !== 1 ? 's' : ''}.`,
+          remediation: `Edit the token at github.com/settings/tokens and enable ${missingScopes.join(', ')}, or create a new one and replace it in Settings.`
+        })
+      }
+    }
+
+    // 3. The token must be able to see and push to the repository
+    const repoResponse = await githubGet(`/repos/${repoPath}`, token)
+    if (!repoResponse.ok) {
+      issues.push({
+        code: 'repo_not_found',
+        message: `The token can't access ${repoPath}.`,
+        remediation: `Check that your account is a member of ${profile.owner} and that the token is authorized for the organization (Configure SSO on the token page) or, for fine-grained tokens, includes ${repoPath}.`
+      })
+      return { ok: false, login: user?.login, issues }
+    }
+    const repo = await repoResponse.json() as { permissions?: { push?: boolean } }
+    if (repo.permissions && !repo.permissions.push) {
+      issues.push({
+        code: 'no_push_access',
+        message: `Your account has read-only access to ${repoPath}.`,
+        remediation: `Ask a maintainer of ${repoPath} for write access, or grant the fine-grained token "Contents: Read and write".`
+      })
+    }
+
+    // 4. The target branch must exist
+    const branchResponse = await githubGet(`/repos/${repoPath}/branches/${encodeURIComponent(profile.branch)}`, token)
+    if (!branchResponse.ok) {
+      issues.push({
+        code: 'branch_not_found',
+        message: `Branch "${profile.branch}" doesn't exist in ${repoPath}.`,
+        remediation: `Update the branch of the "${profile.name}" delivery profile to an existing branch.`
+      })
+    } else if (profile.deliveryMode === 'workflow') {
+      // 5. The workflow file must exist on that branch
+      const workflowResponse = await githubGet(
+        `/repos/${repoPath}/contents/.github/workflows/${encodeURIComponent(profile.workflowFile)}?ref=${encodeURIComponent(profile.branch)}`,
+        token
+      )
+      if (!workflowResponse.ok) {
+        issues.push({
+          code: 'workflow_not_found',
+          message: `Workflow "${profile.workflowFile}" was not found on "${profile.branch}".`,
+          remediation: `Check the workflow file of the "${profile.name}" delivery profile, or make sure the workflow has been merged to that branch.`
+        })
+      }
+    }
+
+    return { ok: issues.length === 0, login: user?.login, issues }
+  } catch (error) {
+    console.error('Error checking GitHub access:', error)
+    issues.push({
+      code: 'network_error',
+      message: 'Could not reach the GitHub API.',
+      remediation: 'Check your internet connection and try again.'
+    })
+    return { ok: false, issues }
+  }
+}
+
+// Summarize preflight issues for plain-text surfaces such as figma.notify
+export function formatPreflightIssues(issues: PreflightIssue[]): string {
+  return issues.map(issue => `${issue.message} ${issue.remediation}`).join('\n')
+}
@@ -0,0 +1,116 @@
+// Hash helpers that work in the plugin's main thread, which has no crypto.subtle
+
+// Encode a string as UTF-8 bytes
+export function utf8Encode(text: string): number[] {
+  const bytes: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    let codePoint = text.charCodeAt(i)
+
+    // Combine surrogate pairs into a single code point
+    if (codePoint >= 0xd800 && codePoint <= 0xdbff && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1)
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        codePoint = 0x10000 + ((codePoint - 0xd800) << 10) + (next - 0xdc00)
+        i++
+      }
+    }
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint)
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f))
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f))
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      )
+    }
+  }
+  return bytes
+}
+
+// SHA-1 of a byte array, as a lowercase hex string
+function sha1Bytes(bytes: number[]): string {
+  const message = bytes.slice()
+  const bitLength = bytes.length * 8
+
+  // Pad to a multiple of 512 bits, ending with the 64-bit message length
+  message.push(0x80)
+  while (message.length % 64 !== 56) {
+    message.push(0)
+  }
+  const high = Math.floor(bitLength / 0x100000000)
+  const low = bitLength >>> 0
+  message.push((high >>> 24) & 0xff, (high >>> 16) & 0xff, (high >>> 8) & 0xff, high & 0xff)
+  message.push((low >>> 24) & 0xff, (low >>> 16) & 0xff, (low >>> 8) & 0xff, low & 0xff)
+
+  let h0 = 0x67452301
+  let h1 = 0xefcdab89
+  let h2 = 0x98badcfe
+  let h3 = 0x10325476
+  let h4 = 0xc3d2e1f0
+  const w = new Array<number>(80)
+
+  for (let offset = 0; offset < message.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4
+      w[i] = (message[j] << 24) | (message[j + 1] << 16) | (message[j + 2] << 8) | message[j + 3]
+    }
+    for (let i = 16; i < 80; i++) {
+      const value = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16]
+      w[i] = (value << 1) | (value >>> 31)
+    }
+
+    let a = h0
+    let b = h1
+    let c = h2
+    let d = h3
+    let e = h4
+
+    for (let i = 0; i < 80; i++) {
+      let f: number
+      let k: number
+      if (i < 20) {
+        f = (b & c) | (~b & d)
+        k = 0x5a827999
+      } else if (i < 40) {
+        f = b ^ c ^ d
+        k = 0x6ed9eba1
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d)
+        k = 0x8f1bbcdc
+      } else {
+        f = b ^ c ^ d
+        k = 0xca62c1d6
+      }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0
+      e = d
+      d = c
+      c = (b << 30) | (b >>> 2)
+      b = a
+      a = temp
+    }
+
+    h0 = (h0 + a) | 0
+    h1 = (h1 + b) | 0
+    h2 = (h2 + c) | 0
+    h3 = (h3 + d) | 0
+    h4 = (h4 + e) | 0
+  }
+
+  return [h0, h1, h2, h3, h4].map(value => (value >>> 0).toString(16).padStart(8, '0')).join('')
+}
+
+export function sha1(text: string): string {
+  return sha1Bytes(utf8Encode(text))
+}
+
+// The SHA git assigns to a file with this content, so files can be compared with a tree listing
+export function gitBlobSha(text: string): string {
+  const content = utf8Encode(text)
+  return sha1Bytes([...utf8Encode(`blob ${content.length}\0`), ...content])
+}
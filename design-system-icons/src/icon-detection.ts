@@ -0,0 +1,116 @@
+import { DetectionRules, IconNodeType, RejectedNode } from './types'
+
+// Which selected nodes are picked up as icons, following rules that are stored in
+// figma.clientStorage and edited in Settings. Frames, components and instances are icon canvases
+// and must have one of the allowed sizes, or by default any size within the vector range;
+// vectors, boolean operations and groups are bare geometry and only need to be within that
+// range. A component set is one icon, and every variant in it must have an allowed size; a
+// selected variant stands for its whole set.
+const DETECTION_RULES_KEY = 'icon-detection-rules'
+
+export const DEFAULT_DETECTION_RULES: DetectionRules = {
+  frameSizes: [16, 20, 24, 32],
+  tolerance: 0,
+  minVectorSize: 12,
+  maxVectorSize: 48,
+  framesInVectorRange: true,
+  nodeTypes: ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'VECTOR', 'BOOLEAN_OPERATION'],
+  namePrefix: '',
+  namePattern: ''
+}
+
+const CANVAS_TYPES: IconNodeType[] = ['FRAME', 'COMPONENT', 'INSTANCE']
+
+// Layers that draw something an icon can be exported from
+const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'LINE', 'ELLIPSE', 'RECTANGLE', 'POLYGON', 'STAR']
+
+export async function getDetectionRules(): Promise<DetectionRules> {
+  const stored = await figma.clientStorage.getAsync(DETECTION_RULES_KEY)
+  return { ...DEFAULT_DETECTION_RULES, ...(stored && typeof stored === 'object' ? stored as Partial<DetectionRules> : {}) }
+}
+
+export async function saveDetectionRules(rules: DetectionRules): Promise<void> {
+  await figma.clientStorage.setAsync(DETECTION_RULES_KEY, rules)
+}
+
+// Layers inside a node looked at while deciding, for callers that pace their work (icon-scan.ts)
+export interface DetectionWork {
+  layers: number
+}
+
+function hasVectorContent(node: SceneNode, work: DetectionWork): boolean {
+  if (VECTOR_TYPES.includes(node.type)) {
+    return true
+  }
+  return 'children' in node && node.children.some(child => {
+    work.layers++
+    return hasVectorContent(child, work)
+  })
+}
+
+function formatSize(node: SceneNode): string {
+  return `${Math.round(node.width * 10) / 10}×${Math.round(node.height * 10) / 10}`
+}
+
+// Why a node isn't an icon under the rules, or null if it is one
+export function getRejectionReason(node: SceneNode, rules: DetectionRules, work: DetectionWork = { layers: 0 }): string | null {
+  if (!(rules.nodeTypes as string[]).includes(node.type)) {
+    return `${node.type.charAt(0) + node.type.slice(1).toLowerCase().replace(/_/g, ' ')} layers aren't detected as icons`
+  }
+  if (rules.namePrefix && !node.name.startsWith(rules.namePrefix)) {
+    return `The name doesn't start with "${rules.namePrefix}"`
+  }
+  if (rules.namePattern) {
+    let pattern: RegExp
+    try {
+      pattern = new RegExp(rules.namePattern)
+    } catch (error) {
+      return `The name pattern /${rules.namePattern}/ isn't a valid regular expression`
+    }
+    if (!pattern.test(node.name)) {
+      return `The name doesn't match /${rules.namePattern}/`
+    }
+  }
+
+  // Sizes are checked first: they are cheap, while looking for vectors walks the whole subtree
+  const isInVectorRange = (layer: SceneNode) =>
+    Math.max(layer.width, layer.height) <= rules.maxVectorSize && Math.min(layer.width, layer.height) >= rules.minVectorSize
+  const hasFrameSize = (frame: SceneNode) => rules.frameSizes.some(size =>
+    Math.abs(frame.width - size) <= rules.tolerance && Math.abs(frame.height - size) <= rules.tolerance) ||
+    (rules.framesInVectorRange && isInVectorRange(frame))
+  const allowedSizes = `the allowed frame sizes: ${rules.frameSizes.map(size => `${size}×${size}`).join(', ')}${rules.tolerance > 0 ? ` (±${rules.tolerance}px)` : ''}` +
+    (rules.framesInVectorRange ? `, nor within the ${rules.minVectorSize}–${rules.maxVectorSize}px range` : '')
+  if (node.type === 'COMPONENT_SET') {
+    const variant = node.children.find(child => !hasFrameSize(child))
+    if (variant) {
+      return `Variant "${variant.name}" is ${formatSize(variant)}, not one of ${allowedSizes}`
+    }
+  } else if (CANVAS_TYPES.includes(node.type as IconNodeType)) {
+    if (!hasFrameSize(node)) {
+      return `${formatSize(node)} isn't one of ${allowedSizes}`
+    }
+  } else if (!isInVectorRange(node)) {
+    return `${formatSize(node)} is outside the ${rules.minVectorSize}–${rules.maxVectorSize}px range for vectors`
+  }
+
+  if (!hasVectorContent(node, work)) {
+    return 'It contains no vectors or shapes'
+  }
+  return null
+}
+
+// The icons among the selected nodes, and why the other nodes were left out
+export function detectIconNodes(nodes: readonly SceneNode[], rules: DetectionRules): { iconNodes: SceneNode[]; rejected: RejectedNode[] } {
+  const iconNodes: SceneNode[] = []
+  const rejected: RejectedNode[] = []
+  const componentSets = nodes.map(node => node.type === 'COMPONENT' && node.parent && node.parent.type === 'COMPONENT_SET' ? node.parent : node)
+  for (const node of componentSets.filter((node, index) => componentSets.indexOf(node) === index)) {
+    const reason = getRejectionReason(node, rules)
+    if (reason === null) {
+      iconNodes.push(node)
+    } else {
+      rejected.push({ id: node.id, name: node.name, reason })
+    }
+  }
+  return { iconNodes, rejected }
+}
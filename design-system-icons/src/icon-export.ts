@@ -0,0 +1,47 @@
+import { getCanvasOptions, normalizeSvgCanvas } from './svg-canvas'
+import { optimizeSvg } from './svg-optimizer'
+import { outlineStrokes } from './svg-strokes'
+import { CanvasNormalization, IconVariant, SvgOptimizationStats } from './types'
+
+// SVG export of icon nodes on the main thread. Each SVG is fitted onto the icon canvas, its
+// strokes are outlined, and it is optimized before any code is generated from it.
+export interface ExportedSvg {
+  svg: string
+  canvas?: CanvasNormalization
+  optimization: SvgOptimizationStats
+}
+
+export async function exportIconSvg(node: SceneNode, canvasSize?: number): Promise<ExportedSvg> {
+  const svgData = await node.exportAsync({
+    format: 'SVG',
+    svgIdAttribute: false
+  })
+  const { svg, canvas } = normalizeSvgCanvas(String.fromCharCode.apply(null, Array.from(svgData)), getCanvasOptions(node, canvasSize))
+  const { svg: optimizedSvg, stats: optimization } = optimizeSvg(outlineStrokes(svg))
+  return { svg: optimizedSvg, canvas, optimization }
+}
+
+// A numeric size property, such as size=16: the variant is drawn for that size, so it stays on
+// a canvas of that size instead of being scaled to the default one
+function getVariantSize(properties: { [property: string]: string }): number | undefined {
+  const size = Object.keys(properties).find(property => property.toLowerCase() === 'size')
+  return size !== undefined && /^\d+(\.\d+)?$/.test(properties[size]) ? Number(properties[size]) : undefined
+}
+
+// Every variant of a component set, the default one first, and the default variant's export
+export async function exportIconVariants(node: ComponentSetNode): Promise<{ variants: IconVariant[]; exported: ExportedSvg }> {
+  const components = node.children.filter((child): child is ComponentNode => child.type === 'COMPONENT')
+  const ordered = [node.defaultVariant, ...components.filter(component => component !== node.defaultVariant)]
+  const variants: IconVariant[] = []
+  let exported: ExportedSvg | null = null
+  for (const component of ordered) {
+    const properties = component.variantProperties || {}
+    const variantExport = await exportIconSvg(component, getVariantSize(properties))
+    exported = exported || variantExport
+    variants.push({ properties, svg: variantExport.svg })
+  }
+  if (!exported) {
+    throw new Error(`Component set "${node.name}" has no variants`)
+  }
+  return { variants, exported }
+}
@@ -0,0 +1,141 @@
+import { GITHUB_CONFIG } from './config'
+import { githubRequest, githubRequestRaw } from './github-api'
+import { gitBlobSha, sha1 } from './hash'
+import { getComponentName } from './icon-names'
+import { DeliveryProfile, IconConflict } from './types'
+
+// Icons that already exist in the target repository. Built from the optional
+// manifest (ICONS_DIR/icons.json) when present, otherwise from directory listings.
+interface IconIndexEntry {
+  name: string
+  componentName: string
+  path: string
+  svgHash?: string // SHA-1 of the normalized SVG (manifest only)
+  svgBlobSha?: string // Git blob SHA of the committed SVG file
+}
+
+interface IconIndex {
+  entries: IconIndexEntry[]
+}
+
+interface ContentsEntry {
+  name: string
+  path: string
+  sha: string
+  type: string
+}
+
+// Manifest format: [{ "name": "arrow-right", "svgHash": "<sha1 of normalizeSvg(svg)>" }]
+const MANIFEST_FILE = 'icons.json'
+const CACHE_TTL = 5 * 60 * 1000 // Re-fetch the index at most every 5 minutes
+
+let cachedIndex: { profileId: string; fetchedAt: number; index: IconIndex } | null = null
+
+// Normalize SVG markup so that re-exports of the same artwork hash identically
+export function normalizeSvg(svg: string): string {
+  return svg
+    .replace(/<\?xml[^>]*\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/>\s+</g, '><')
+    .replace(/\s+/g, ' ')
+    .replace(/-?\d*\.\d+/g, number => String(Math.round(parseFloat(number) * 100) / 100))
+    .replace(/#[0-9a-fA-F]{3,8}\b/g, color => color.toLowerCase())
+    .trim()
+}
+
+export function getSvgHash(svg: string): string {
+  return sha1(normalizeSvg(svg))
+}
+
+async function listDirectory(profile: DeliveryProfile, directory: string): Promise<ContentsEntry[]> {
+  try {
+    const entries = await githubRequest<ContentsEntry[]>(profile, `/contents/${directory}?ref=${encodeURIComponent(profile.branch)}`)
+    return Array.isArray(entries) ? entries : []
+  } catch (error) {
+    // A missing directory just means there are no icons yet
+    console.warn(`Could not list ${directory}:`, error)
+    return []
+  }
+}
+
+async function fetchIconIndex(profile: DeliveryProfile): Promise<IconIndex> {
+  const manifest = await githubRequestRaw(profile, `/contents/${GITHUB_CONFIG.ICONS_DIR}/${MANIFEST_FILE}?ref=${encodeURIComponent(profile.branch)}`)
+  if (manifest !== null) {
+    const icons = JSON.parse(manifest) as { name: string; svgHash?: string }[]
+    return {
+      entries: icons.map(icon => ({
+        name: icon.name,
+        componentName: getComponentName(icon.name),
+        path: `${GITHUB_CONFIG.ICONS_DIR}/${icon.name}.tsx`,
+        svgHash: icon.svgHash
+      }))
+    }
+  }
+
+  // No manifest: derive names from the component files and match SVGs by blob SHA
+  const [componentFiles, svgFiles] = await Promise.all([
+    listDirectory(profile, GITHUB_CONFIG.ICONS_DIR),
+    listDirectory(profile, GITHUB_CONFIG.SVG_DIR)
+  ])
+  const svgShas: { [name: string]: string } = {}
+  for (const file of svgFiles) {
+    if (file.type === 'file' && file.name.endsWith('.svg')) {
+      svgShas[file.name.replace(/\.svg$/, '')] = file.sha
+    }
+  }
+
+  return {
+    entries: componentFiles
+      .filter(file => file.type === 'file' && file.name.endsWith('.tsx') && file.name !== 'index.tsx')
+      .map(file => {
+        const name = file.name.replace(/\.tsx$/, '')
+        return {
+          name,
+          componentName: getComponentName(name),
+          path: file.path,
+          svgBlobSha: svgShas[name]
+        }
+      })
+  }
+}
+
+async function getIconIndex(profile: DeliveryProfile): Promise<IconIndex> {
+  if (cachedIndex && cachedIndex.profileId === profile.id && Date.now() - cachedIndex.fetchedAt < CACHE_TTL) {
+    return cachedIndex.index
+  }
+  const index = await fetchIconIndex(profile)
+  cachedIndex = { profileId: profile.id, fetchedAt: Date.now(), index }
+  return index
+}
+
+// Compare icons with the target repository by component name and by SVG content
+export async function findIconConflicts(
+  profile: DeliveryProfile,
+  icons: { id: string; name: string; svg: string }[]
+): Promise<{ [iconId: string]: IconConflict }> {
+  const index = await getIconIndex(profile)
+  const conflicts: { [iconId: string]: IconConflict } = {}
+
+  for (const icon of icons) {
+    const componentName = getComponentName(icon.name).toLowerCase()
+    const svgHash = getSvgHash(icon.svg)
+    const blobSha = gitBlobSha(icon.svg)
+
+    const nameMatch = index.entries.find(entry => entry.componentName.toLowerCase() === componentName)
+    const svgMatch = index.entries.find(entry =>
+      (entry.svgHash !== undefined && entry.svgHash === svgHash) ||
+      (entry.svgBlobSha !== undefined && entry.svgBlobSha === blobSha)
+    )
+
+    const match = nameMatch || svgMatch
+    if (match) {
+      conflicts[icon.id] = {
+        kind: nameMatch && svgMatch ? 'both' : nameMatch ? 'name' : 'svg',
+        existingName: match.name,
+        existingPath: match.path
+      }
+    }
+  }
+
+  return conflicts
+}
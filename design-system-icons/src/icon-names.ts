@@ -0,0 +1,96 @@
+// File and component names of an icon, derived from its Figma layer name. Layer names are often
+// paths ("Navigation/Arrow Right", "24/close") or mix separators and cases ("arrow_right 2",
+// "arrowRight"); only the last part of a path names the icon, and its words become
+// arrow-right.tsx and ArrowRightIcon.
+export interface IconNames {
+  fileName: string // kebab-case, without an extension
+  componentName: string // PascalCase, ending in Icon
+  notes: string[] // Changes beyond case and separators, to show next to the name
+}
+
+// File names that would replace a module of the icons directory (the barrel and the IconProps
+// types) or that Windows can't create
+const RESERVED_FILE_NAMES = [
+  'index', 'types',
+  'con', 'prn', 'aux', 'nul',
+  ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map(n => `com${n}`),
+  ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map(n => `lpt${n}`)
+]
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine']
+
+// The part of a layer path that names the icon. Size folders such as "24" or "24px" are skipped,
+// so "close/24" is named close as well.
+function getNameSegment(name: string): string {
+  const segments = name.split('/').map(segment => segment.trim()).filter(Boolean)
+  const named = segments.filter(segment => !/^\d+(px)?$/i.test(segment))
+  return named[named.length - 1] || segments[segments.length - 1] || ''
+}
+
+// Lowercase words of a name, split at separators and case changes: "XMLFile_2" is xml, file, 2
+function getNameWords(name: string): string[] {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase())
+}
+
+export function getIconNames(name: string): IconNames {
+  const notes: string[] = []
+  const segment = getNameSegment(name)
+  if (segment && segment !== name.trim()) {
+    notes.push(`Named after "${segment}", the last part of the layer path`)
+  }
+  const words = getNameWords(segment)
+  if (words.length === 0) {
+    notes.push('The name has no letters or digits')
+    return { fileName: 'icon', componentName: 'Icon', notes }
+  }
+
+  let fileName = words.join('-')
+  if (RESERVED_FILE_NAMES.includes(fileName)) {
+    notes.push(`"${fileName}" is reserved, so the file is ${fileName}-icon`)
+    fileName = `${fileName}-icon`
+  }
+
+  // Identifiers can't start with a digit, so leading digits are spelled out: 3d-rotate is ThreeDRotateIcon
+  const componentWords = words.length > 1 && words[words.length - 1] === 'icon' ? words.slice(0, -1) : [...words]
+  const leadingDigits = /^\d+/.exec(componentWords[0])
+  if (leadingDigits) {
+    const rest = componentWords[0].slice(leadingDigits[0].length)
+    componentWords.splice(0, 1, ...leadingDigits[0].split('').map(digit => DIGIT_WORDS[Number(digit)]), ...(rest ? [rest] : []))
+    notes.push('Leading digits are spelled out in the component name')
+  }
+  const componentName = `${componentWords.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('')}Icon`
+
+  return { fileName, componentName, notes }
+}
+
+export function getIconFileName(name: string): string {
+  return getIconNames(name).fileName
+}
+
+export function getComponentName(name: string): string {
+  return getIconNames(name).componentName
+}
+
+// Icons of one batch that would be written to the same file or export the same component, by
+// icon ID. Names are compared case-insensitively, as macOS and Windows file systems do.
+export function findNameCollisions(icons: { id: string; name: string }[]): { [iconId: string]: string[] } {
+  const names = icons.map(icon => getIconNames(icon.name))
+  const collisions: { [iconId: string]: string[] } = {}
+  icons.forEach((icon, index) => {
+    const others = icons.filter((other, otherIndex) => otherIndex !== index && (
+      names[otherIndex].fileName === names[index].fileName ||
+      names[otherIndex].componentName.toLowerCase() === names[index].componentName.toLowerCase()
+    ))
+    if (others.length > 0) {
+      collisions[icon.id] = others.map(other => other.name)
+    }
+  })
+  return collisions
+}
@@ -0,0 +1,116 @@
+import { getRejectionReason } from './icon-detection'
+import { DetectionRules, IconNodeType, ScanPage, ScanProgress, ScannedIcon } from './types'
+
+// Finding icons across pages instead of in the selection, for libraries too large to select by
+// hand. The pages or sections are walked with the detection rules: a layer that is an icon is
+// listed and not searched further, while sections, frames and groups that aren't icons are
+// searched. The walk pauses every few hundred layers, so Figma and the plugin UI stay responsive,
+// and reports the icons found since the last pause.
+
+// Layers that are searched for icons when they aren't icons themselves
+const CONTAINER_TYPES = ['SECTION', 'FRAME', 'GROUP']
+
+// Layers walked between pauses, including those looked into for vector content
+const SCAN_CHUNK_SIZE = 300
+
+// Incremented by each scan and cancellation, so a running scan notices it was cancelled
+let currentScan = 0
+
+export function getScanPages(): ScanPage[] {
+  return figma.root.children.map(page => ({
+    id: page.id,
+    name: page.name,
+    sections: page.children
+      .filter(child => child.type === 'SECTION')
+      .map(section => ({ id: section.id, name: section.name }))
+  }))
+}
+
+// The pages to walk, each with the sections to walk on it, or all of it when sectionIds is left out
+function getScanScope(scopeIds: string[]): { page: PageNode; sectionIds?: string[] }[] {
+  const isWholePage = (page: PageNode) => scopeIds.length === 0 || scopeIds.includes(page.id)
+  return figma.root.children
+    .filter(page => isWholePage(page) || page.children.some(child => scopeIds.includes(child.id)))
+    .map(page => isWholePage(page) ? { page } : { page, sectionIds: scopeIds })
+}
+
+export function cancelScan() {
+  currentScan++
+}
+
+// Scans the given pages and sections, or the whole file when there are none. Progress is reported
+// after each chunk of layers and once more when the scan is done or cancelled.
+export async function scanForIcons(scopeIds: string[], rules: DetectionRules, onProgress: (progress: ScanProgress) => void): Promise<void> {
+  const scan = ++currentScan
+  let icons: ScannedIcon[] = []
+  let scannedNodes = 0
+  let work = { layers: 0 } // Since the last pause
+
+  for (const { page, sectionIds } of getScanScope(scopeIds)) {
+    await page.loadAsync()
+    const stack = page.children
+      .filter(child => !sectionIds || sectionIds.includes(child.id))
+      .reverse()
+      .map(node => ({ node, path: [] as string[] }))
+
+    for (let entry = stack.pop(); entry; entry = stack.pop()) {
+      const { node, path } = entry
+      scannedNodes++
+      work.layers++
+      if (getRejectionReason(node, rules, work) === null) {
+        icons.push({
+          id: node.id,
+          name: node.name,
+          type: node.type as IconNodeType,
+          pageId: page.id,
+          pageName: page.name,
+          path,
+          width: node.width,
+          height: node.height
+        })
+      } else if (CONTAINER_TYPES.includes(node.type) && 'children' in node) {
+        stack.push(...node.children.slice().reverse().map(child => ({ node: child, path: [...path, node.name] })))
+      }
+
+      if (work.layers >= SCAN_CHUNK_SIZE) {
+        onProgress({ icons, scannedNodes, pageName: page.name, done: false })
+        icons = []
+        work = { layers: 0 }
+        await new Promise(resolve => setTimeout(resolve, 0))
+        if (scan !== currentScan) {
+          onProgress({ icons: [], scannedNodes, done: true, cancelled: true })
+          return
+        }
+      }
+    }
+  }
+  onProgress({ icons, scannedNodes, done: true })
+}
+
+function getNodePage(node: BaseNode): PageNode | null {
+  let parent = node.parent
+  while (parent && parent.type !== 'PAGE') {
+    parent = parent.parent
+  }
+  return parent
+}
+
+// The scanned icons that still exist; layers may have been deleted since the scan
+export function getScannedNodes(iconIds: string[]): SceneNode[] {
+  return iconIds
+    .map(id => figma.getNodeById(id))
+    .filter((node): node is SceneNode => node !== null && node.type !== 'DOCUMENT' && node.type !== 'PAGE')
+}
+
+// Selects the icons on the first icon's page, switching to it, and returns how many were selected
+export async function selectScannedNodes(nodes: SceneNode[]): Promise<{ page: PageNode; count: number } | null> {
+  const page = nodes.length > 0 ? getNodePage(nodes[0]) : null
+  if (!page) {
+    return null
+  }
+  const onPage = nodes.filter(node => getNodePage(node) === page)
+  await figma.setCurrentPageAsync(page)
+  page.selection = onPage
+  figma.viewport.scrollAndZoomIntoView(onPage)
+  return { page, count: onPage.length }
+}
@@ -0,0 +1,88 @@
+import { IconVariant } from './types'
+
+// Component sets become one component whose props pick the variant. Each variant property with
+// more than one value becomes a prop named after it, e.g. state=default|hover becomes
+// state?: "default" | "hover". `style` would replace React's style prop, so it becomes `variant`.
+// A size property with numeric values isn't a prop of its own: the size prop draws the smallest
+// size variant that is at least as large, or the largest one.
+export interface VariantProp {
+  property: string // As named in Figma
+  prop: string // The component prop, or 'size' for size variants
+  values: string[]
+  defaultValue: string // The default variant's value
+  isSize: boolean
+}
+
+// Props the components already have, which variant props can't take over
+const RESERVED_PROPS = ['size', 'style', 'className', 'ref', 'key', 'children', 'color', 'secondaryColor', 'props', 'id']
+
+// The variable holding the size variant to draw
+export const DRAWN_SIZE_VARIABLE = 'drawnSize'
+
+function toPropName(property: string): string {
+  const words = property.split(/[^A-Za-z0-9]+/).filter(Boolean)
+  const name = words
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+  return /^[A-Za-z_$]/.test(name) ? name : `variant${name.charAt(0).toUpperCase()}${name.slice(1)}`
+}
+
+export function getVariantProps(variants: IconVariant[]): VariantProp[] {
+  const properties = variants.length > 0 ? Object.keys(variants[0].properties) : []
+  const props: VariantProp[] = []
+  for (const property of properties) {
+    const values = variants
+      .map(variant => variant.properties[property])
+      .filter((value, index, all) => value !== undefined && all.indexOf(value) === index)
+    if (values.length < 2) {
+      continue // The same in every variant
+    }
+    const isSize = property.toLowerCase() === 'size' && values.every(value => /^\d+(\.\d+)?$/.test(value))
+    let prop = isSize ? 'size' : toPropName(property)
+    if (!isSize && RESERVED_PROPS.includes(prop)) {
+      prop = prop === 'style' && !properties.some(other => toPropName(other) === 'variant') ? 'variant' : `${prop}Variant`
+    }
+    props.push({ property, prop, values, defaultValue: variants[0].properties[property], isSize })
+  }
+  return props
+}
+
+// e.g. size=24, style=filled
+export function getVariantLabel(variant: IconVariant): string {
+  return Object.entries(variant.properties).map(([property, value]) => `${property}=${value}`).join(', ')
+}
+
+// The JSX condition under which a variant is drawn, e.g. variant === "filled" && drawnSize === 16
+export function getVariantCondition(variant: IconVariant, props: VariantProp[]): string {
+  return props
+    .map(prop => prop.isSize
+      ? `${DRAWN_SIZE_VARIABLE} === ${Number(variant.properties[prop.property])}`
+      : `${prop.prop} === ${JSON.stringify(variant.properties[prop.property])}`)
+    .join(' && ')
+}
+
+// Defaults of the variant props, for the destructured props
+export function getVariantPropDefaults(props: VariantProp[]): string[] {
+  return props.filter(prop => !prop.isSize).map(prop => `${prop.prop} = ${JSON.stringify(prop.defaultValue)}`)
+}
+
+// The variant props' type, to add to IconProps, e.g. ` & { variant?: "outline" | "filled" }`
+export function getVariantPropsType(props: VariantProp[]): string {
+  const fields = props
+    .filter(prop => !prop.isSize)
+    .map(prop => `${prop.prop}?: ${prop.values.map(value => JSON.stringify(value)).join(' | ')}`)
+  return fields.length > 0 ? ` & { ${fields.join('; ')} }` : ''
+}
+
+// Statement choosing the size variant to draw, or an empty string without size variants
+export function getSizeVariantSetup(props: VariantProp[]): string {
+  const sizeProp = props.find(prop => prop.isSize)
+  if (!sizeProp) {
+    return ''
+  }
+  const sizes = sizeProp.values.map(Number).sort((a, b) => a - b)
+  return [
+    '    // The size variant drawn at each size: the smallest that is at least as large',
+    `    const ${DRAWN_SIZE_VARIABLE} = typeof size === "number" ? ([${sizes.join(', ')}].find(variantSize => size <= variantSize) ?? ${sizes[sizes.length - 1]}) : ${Number(sizeProp.defaultValue)};`
+  ].join('\n')
+}
@@ -1,8 +1,22 @@
 import { once, on, showUI, emit } from '@create-figma-plugin/utilities'
 
-import { AddIconsHandler, GetSelectedIconsHandler, GetSelectedIconsResponseHandler, IconData, UpdateIconNameHandler, UpdateIconDescriptionHandler, IconUpdatedHandler, FlattenIconsHandler, ShowSuccessHandler, ShowErrorHandler, CloseConfirmationHandler } from './types'
-import { processSvgToReact, getComponentName, flattenSvgPaths } from './svgr-processor'
-import { GITHUB_CONFIG, validateGitHubConfig } from './config'
+import { AddIconsHandler, GetSelectedIconsHandler, GetSelectedIconsResponseHandler, IconData, UpdateIconNameHandler, UpdateIconDescriptionHandler, IconUpdatedHandler, FlattenIconsHandler, ShowSuccessHandler, ShowErrorHandler, CloseConfirmationHandler, WorkflowRunUpdateHandler, GetGitHubSettingsHandler, GitHubSettingsHandler, SaveGitHubTokenHandler, ClearGitHubTokenHandler, CheckGitHubAccessHandler, GitHubAccessResultHandler, DeliveryProfile, GetDeliveryProfilesHandler, DeliveryProfilesHandler, SaveDeliveryProfileHandler, DeleteDeliveryProfileHandler, SetActiveProfileHandler, CheckIconConflictsHandler, IconConflictsHandler, GetFailedChunksHandler, FailedChunksHandler, ResumeFailedChunksHandler, DiscardFailedChunksHandler, ChunkRunProgress, GetBatchRecordsHandler, BatchRecordsHandler, BatchChunk, PreflightResult, SaveProfileSecretHandler, PreviewSubmissionHandler, DryRunResultHandler, ComponentTemplateHandler, GetDetectionRulesHandler, DetectionRulesHandler, SaveDetectionRulesHandler, RejectedNode, GetScanPagesHandler, ScanPagesHandler, ScanIconsHandler, CancelScanHandler, ScanProgressHandler, SelectScannedIconsHandler, LoadScannedIconsHandler } from './types'
+import { processSvgToReact } from './svgr-processor'
+import { clearGitHubToken, getGitHubToken, getProfileSecret, getTokenHint, saveGitHubToken, saveProfileSecret } from './credentials'
+import { ChunkDeliveryResult, DeliveryBackend } from './delivery-backend'
+import { createDeliveryBackend, deliverChunks, getChunkProgress, isGitHubMode, submitIcons } from './delivery'
+import { DEFAULT_TEMPLATE_ID, getBuiltInTemplate } from './code-templates'
+import { createDryRun } from './dry-run'
+import { loadComponentTemplate } from './github-pr'
+import { exportIconSvg, exportIconVariants } from './icon-export'
+import { detectIconNodes, getDetectionRules, saveDetectionRules } from './icon-detection'
+import { findIconConflicts } from './icon-index'
+import { cancelScan, getScanPages, getScannedNodes, scanForIcons, selectScannedNodes } from './icon-scan'
+import { getComponentName } from './icon-names'
+import { getIconPayload } from './payload'
+import { getBatchRecords, updateBatchChunk } from './batches'
+import { clearFailedChunks, getFailedChunks, markFailedChunkRetried, removeFailedChunk, summarizeFailedChunk } from './failed-chunks'
+import { deleteProfile, getActiveProfile, getActiveProfileId, getProfiles, getWorkflowPageUrl, saveProfile, setActiveProfile } from './profiles'
 
 // Function to process SVG selection from Figma and output React component code
 export function ReactIconRenderer(svgContent: string, iconName: string): string {
@@ -15,250 +29,175 @@ export function ReactIconRenderer(svgContent: string, iconName: string): string
   }
 }
 
-// Helper function to check if a node contains vector content
-function hasVectorContent(node: SceneNode): boolean {
-  if (node.type === 'VECTOR') {
-    return true
-  }
-  
-  // Check for boolean operations (unions, intersections, etc.)
-  if (node.type === 'BOOLEAN_OPERATION') {
-    return true
-  }
-  
-  if (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') {
-    // Check if frame contains vector nodes
-    if ('children' in node) {
-      return node.children.some(child => hasVectorContent(child))
-    }
+// Track last processed icons for comparison
+let lastProcessedIcons: IconData[] = []
+
+// The active profile's component template for previews; undefined uses the built-in one
+let componentTemplate: string | undefined
+
+// Load the active profile's component template and send it to the UI, which regenerates its previews.
+// A template that can't be read is reported, and previews keep the built-in template.
+async function refreshComponentTemplate() {
+  const profile = await getActiveProfile()
+  try {
+    componentTemplate = await loadComponentTemplate(profile, createDeliveryBackend(profile).readFile)
+    emit<ComponentTemplateHandler>('COMPONENT_TEMPLATE', { source: componentTemplate })
+  } catch (error) {
+    console.error('Error loading component template:', error)
+    componentTemplate = undefined
+    emit<ComponentTemplateHandler>('COMPONENT_TEMPLATE', {
+      source: getBuiltInTemplate(DEFAULT_TEMPLATE_ID).source,
+      error: error instanceof Error ? error.message : String(error)
+    })
   }
-  
-  return false
 }
 
-// Helper function to check if a node is exactly 24x24px
-function is24x24Frame(node: SceneNode): boolean {
-  return node.width === 24 && node.height === 24
+// Show a chunk's progress in the confirmation modal and keep it in the batch record
+function reportChunkProgress(batchId: string, progress: ChunkRunProgress) {
+  emit<WorkflowRunUpdateHandler>('WORKFLOW_RUN_UPDATE', progress)
+  updateBatchChunk(batchId, progress)
 }
 
-// Helper function to check if a node has reasonable icon dimensions (for individual vectors)
-function hasReasonableIconSize(node: SceneNode): boolean {
-  const minSize = 12
-  const maxSize = 48
-  
-  return node.width >= minSize && node.width <= maxSize && 
-         node.height >= minSize && node.height <= maxSize
-}
+// Emit the confirmation for the delivered chunks of a batch and follow their progress
+async function reportChunkResults(profile: DeliveryProfile, backend: DeliveryBackend, batchId: string, results: ChunkDeliveryResult[]) {
+  const delivered = results.filter(result => !result.error)
+  const failed = results.filter(result => result.error)
+  const successCount = delivered.reduce((count, result) => count + result.icons.length, 0)
+  const errorCount = failed.reduce((count, result) => count + result.icons.length, 0)
 
-// Helper function to get all icon nodes from a selection
-function getIconNodes(nodes: readonly SceneNode[]): SceneNode[] {
-  const iconNodes: SceneNode[] = []
-  
-  for (const node of nodes) {
-    // Priority 1: 24x24px frames with vector content
-    if ((node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') && 
-        is24x24Frame(node) && hasVectorContent(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 2: Individual vectors with reasonable size
-    else if (node.type === 'VECTOR' && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 3: Boolean operations (unions, etc.) with reasonable size
-    else if (node.type === 'BOOLEAN_OPERATION' && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
-    }
-    // Priority 4: Other frames with vector content (fallback for non-24x24)
-    else if ((node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE') && 
-             hasVectorContent(node) && hasReasonableIconSize(node)) {
-      iconNodes.push(node)
+  await emitFailedChunks()
+
+  if (successCount > 0) {
+    emit<ShowSuccessHandler>('SHOW_SUCCESS', {
+      iconCount: successCount,
+      failedIconCount: errorCount,
+      batchId,
+      deliveryMode: profile.deliveryMode,
+      // Fallback link until the individual runs have been found
+      workflowUrl: profile.deliveryMode === 'workflow' ? getWorkflowPageUrl(profile) : undefined,
+      pullRequestUrl: delivered.find(result => result.url)?.url
+    })
+
+    // Follow asynchronous work (such as workflow runs) so the confirmation modal can show its progress
+    if (backend.trackChunks) {
+      await backend.trackChunks(delivered, progress => reportChunkProgress(batchId, progress))
     }
+  } else {
+    emit<ShowErrorHandler>('SHOW_ERROR', {
+      title: 'Failed to Add Icons',
+      message: `Failed to add any icons to design system. ${errorCount} icons failed and were saved so you can resume them.`,
+      details: failed[0]?.error || `Please check the "${profile.name}" delivery profile and try again.`
+    })
   }
-  
-  return iconNodes
 }
 
-// Track last processed icons for comparison
-let lastProcessedIcons: IconData[] = []
+// Report each chunk in the confirmation modal as soon as it was delivered or finally failed
+function handleChunkResult(backend: DeliveryBackend, result: ChunkDeliveryResult) {
+  emit<WorkflowRunUpdateHandler>('WORKFLOW_RUN_UPDATE', getChunkProgress(backend, result))
+}
 
-// Function to process icons in chunks to avoid GitHub API limits
-async function processIconsInChunks(icons: IconData[]) {
-  // Dynamic chunking based on actual payload size
-  const MAX_PAYLOAD_SIZE = 55000 // Stay well under 64KB limit with some buffer
-  const chunks: IconData[][] = []
-  
-  let currentChunk: IconData[] = []
-  let currentChunkSize = 0
-  
-  for (const icon of icons) {
-    // Estimate size for this icon (name + SVG + metadata + JSON overhead)
-    const iconPayload = {
-      name: icon.name,
-      svg: icon.svg,
-      aliases: icon.aliases || []
-    }
-    const estimatedSize = JSON.stringify(iconPayload).length
-    
-    // If adding this icon would exceed the limit, start a new chunk
-    if (currentChunkSize + estimatedSize > MAX_PAYLOAD_SIZE && currentChunk.length > 0) {
-      chunks.push([...currentChunk])
-      currentChunk = [icon]
-      currentChunkSize = estimatedSize
-    } else {
-      currentChunk.push(icon)
-      currentChunkSize += estimatedSize
-    }
-  }
-  
-  // Add the last chunk if it has icons
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk)
+function notifyChunkRetry(chunk: BatchChunk, delay: number, reason: string) {
+  figma.notify(`Chunk ${chunk.chunkNumber}/${chunk.totalChunks}: ${reason}, retrying in ${Math.ceil(delay / 1000)}s`)
+}
+
+// Send the icons through the profile's delivery backend, in as many chunks as it needs
+async function processIcons(profile: DeliveryProfile, backend: DeliveryBackend, icons: IconData[]) {
+  const results = await submitIcons(profile, backend, icons.map(getIconPayload), {
+    onResult: result => handleChunkResult(backend, result),
+    onRetry: notifyChunkRetry
+  })
+  if (results.length === 0) {
+    emit<ShowErrorHandler>('SHOW_ERROR', {
+      title: 'No Icons to Add',
+      message: 'Select at least one flattened icon to add to the design system.'
+    })
+    return
   }
 
-  let successCount = 0
-  let errorCount = 0
-  const workflowUrls: string[] = []
+  await reportChunkResults(profile, backend, results[0].batchId, results)
+}
 
-  // Process each chunk
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i]
-    const chunkNumber = i + 1
-    const totalChunks = chunks.length
+// Show why a backend's checks failed instead of sending anything
+function emitPreflightError(backend: DeliveryBackend, preflight: PreflightResult, message: string) {
+  emit<ShowErrorHandler>('SHOW_ERROR', {
+    title: 'Access Problem',
+    message: `${message} (${backend.label}) because ${preflight.issues.length === 1 ? 'a check' : `${preflight.issues.length} checks`} failed.`,
+    issues: preflight.issues
+  })
+}
 
-    try {
-      // Create icon payload for this chunk
-      const iconPayload = chunk.map(icon => ({
-        name: icon.name,
-        svg: icon.svg,
-        aliases: icon.aliases || []
-      }))
-      
-      // Create JSON string and base64 encode it
-      const jsonString = JSON.stringify(iconPayload)
-      
-      // Check if payload is still too large (shouldn't happen with dynamic chunking, but safety check)
-      if (jsonString.length > 60000) {
-        console.error(`Chunk ${chunkNumber} is still too large (${jsonString.length} bytes)`)
-        errorCount += chunk.length
-        continue
-      }
-      
-      // Log chunk size for monitoring
-      console.log(`Chunk ${chunkNumber}/${totalChunks}: ${chunk.length} icons, ${jsonString.length} bytes`)
-      
-      let base64Payload
-      try {
-        // Try btoa first (if available)
-        if (typeof btoa !== 'undefined') {
-          base64Payload = btoa(jsonString)
-        } else {
-          throw new Error('btoa not available')
-        }
-      } catch (error) {
-        // Manual base64 encoding fallback
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
-        let result = ''
-        let j = 0
-        
-        while (j < jsonString.length) {
-          const a = jsonString.charCodeAt(j++)
-          const b = j < jsonString.length ? jsonString.charCodeAt(j++) : 0
-          const c = j < jsonString.length ? jsonString.charCodeAt(j++) : 0
-          
-          const bitmap = (a << 16) | (b << 8) | c
-          
-          result += chars.charAt((bitmap >> 18) & 63)
-          result += chars.charAt((bitmap >> 12) & 63)
-          result += j - 2 < jsonString.length ? chars.charAt((bitmap >> 6) & 63) : '='
-          result += j - 1 < jsonString.length ? chars.charAt(bitmap & 63) : '='
-        }
-        
-        base64Payload = result
-      }
-      
-      // Trigger GitHub Actions workflow for this chunk
-      const response = await fetch(
-        `https://api.github.com/repos/${GITHUB_CONFIG.OWNER}/${GITHUB_CONFIG.REPO}/actions/workflows/${GITHUB_CONFIG.WORKFLOW_FILE}/dispatches`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${GITHUB_CONFIG.PAT}`,
-            'Accept': 'application/vnd.github+json',
-            'X-GitHub-Api-Version': '2022-11-28',
-          },
-          body: JSON.stringify({
-            ref: GITHUB_CONFIG.BRANCH,
-            inputs: {
-              icons: base64Payload,
-              chunkInfo: `${chunkNumber}/${totalChunks}` // Add chunk info for tracking
-            }
-          })
-        }
-      )
+// Resend the chunks that failed in earlier submissions. Chunks keep their original batch ID,
+// chunk number and manifest hash so they join the branch of their batch; one batch is
+// resent at a time, starting with the oldest.
+async function resumeFailedChunks() {
+  const failedChunks = await getFailedChunks()
+  if (failedChunks.length === 0) {
+    await emitFailedChunks()
+    return
+  }
+  const { batchId, profile } = failedChunks[0]
+  const batchChunks = failedChunks.filter(chunk => chunk.batchId === batchId)
+  const backend = createDeliveryBackend(profile)
+
+  // The cause of the failure may not be fixed yet
+  const preflight = await backend.preflight()
+  if (!preflight.ok) {
+    emitPreflightError(backend, preflight, 'The failed chunks were not resent')
+    return
+  }
 
-      if (response.ok) {
-        // Get the workflow run URL from the response headers
-        const workflowRunUrl = response.headers?.get('Location') || 
-          `https://github.com/${GITHUB_CONFIG.OWNER}/${GITHUB_CONFIG.REPO}/actions/workflows/design-system-add-icons.yml`
-        
-        workflowUrls.push(workflowRunUrl)
-        successCount += chunk.length
-        
-        // Show progress for this chunk
-        console.log(`Chunk ${chunkNumber}/${totalChunks}: Added ${chunk.length} icon(s) to design system`)
-      } else {
-        const errorText = await response.text()
-        console.error(`GitHub API error for chunk ${chunkNumber}:`, response.status, errorText)
-        errorCount += chunk.length
-      }
-      
-      // Add a small delay between requests to avoid rate limiting
-      if (i < chunks.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000)) // 1 second delay
-      }
-      
-    } catch (error) {
-      console.error(`Error processing chunk ${chunkNumber}:`, error)
-      errorCount += chunk.length
+  const results = await deliverChunks(backend, batchChunks, {
+    onResult: result => handleChunkResult(backend, result),
+    onRetry: notifyChunkRetry
+  })
+  for (let i = 0; i < results.length; i++) {
+    const error = results[i].error
+    if (error) {
+      await markFailedChunkRetried(batchChunks[i].id, error)
+    } else {
+      await removeFailedChunk(batchChunks[i].id)
     }
   }
 
-  // Show final results
-  if (successCount > 0) {
-    const workflowUrl = workflowUrls[0] // Show the first workflow URL
-    emit<ShowSuccessHandler>('SHOW_SUCCESS', { 
-      iconCount: successCount,
-      workflowUrl: workflowUrl
-    })
-  } else {
-    emit<ShowErrorHandler>('SHOW_ERROR', {
-      title: 'Failed to Add Icons',
-      message: `Failed to add any icons to design system. ${errorCount} icons failed.`,
-      details: 'Please check your GitHub configuration and try again.'
-    })
-  }
+  await reportChunkResults(profile, backend, batchId, results)
+}
+
+// Send the locally recorded submissions to the settings screen
+async function emitBatchRecords() {
+  emit<BatchRecordsHandler>('BATCH_RECORDS', { records: await getBatchRecords() })
+}
+
+// Send the stored failed chunks (without their SVGs) to the UI
+async function emitFailedChunks() {
+  const chunks = await getFailedChunks()
+  emit<FailedChunksHandler>('FAILED_CHUNKS', { chunks: chunks.map(summarizeFailedChunk) })
 }
 
 // Function to process selection and send to UI
 async function processSelection() {
+  try {
+    const { iconNodes, rejected } = detectIconNodes(figma.currentPage.selection, await getDetectionRules())
+    await processIconNodes(iconNodes, rejected)
+  } catch (error) {
+    console.error('Error in processSelection:', error)
+    emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons: [] })
+  }
+}
+
+// Export and process icon nodes, from the selection or a scan, and send them to the UI
+async function processIconNodes(iconNodes: SceneNode[], rejected: RejectedNode[]) {
   const startTime = Date.now()
   
   try {
-    const selection = figma.currentPage.selection
-    const iconNodes = getIconNodes(selection)
-    
     const icons: IconData[] = []
 
     for (const node of iconNodes) {
       try {
-        // Export as SVG
-        const svgData = await node.exportAsync({
-          format: 'SVG',
-          svgIdAttribute: false
-        })
-        
-        // Convert Uint8Array to string
-        const svgString = String.fromCharCode.apply(null, Array.from(svgData))
+        // Export as SVG, fitted onto the icon canvas and optimized; a component set exports each variant
+        const { variants, exported } = node.type === 'COMPONENT_SET'
+          ? await exportIconVariants(node)
+          : { variants: undefined, exported: await exportIconSvg(node) }
+        const { svg: svgString, canvas, optimization } = exported
       
       // Check if the node needs flattening (more sophisticated logic)
       let needsFlattening = false
@@ -270,20 +209,11 @@ async function processSelection() {
           child.type === 'VECTOR' || child.type === 'BOOLEAN_OPERATION' || child.type === 'LINE'
         )
         
-        // If there are multiple vector elements, it likely needs flattening
+        // If there are multiple vector elements, it likely needs flattening. Strokes are outlined
+        // when the SVG is exported, so a single stroked vector doesn't.
         if (vectorChildren.length > 1) {
           needsFlattening = true
           flatteningReason = `Multiple vector elements (${vectorChildren.length})`
-        } else if (vectorChildren.length === 1) {
-          // Check if the single vector element has strokes that need to be outlined
-          const singleVector = vectorChildren[0]
-          if (singleVector.type === 'VECTOR' && (singleVector as VectorNode).strokes && (singleVector as VectorNode).strokes.length > 0) {
-            needsFlattening = true
-            flatteningReason = 'Single vector with strokes'
-          } else if (singleVector.type === 'LINE' && (singleVector as LineNode).strokes && (singleVector as LineNode).strokes.length > 0) {
-            needsFlattening = true
-            flatteningReason = 'Single line with strokes'
-          }
         }
         
         // Also check if any child has nested children (groups within groups)
@@ -296,45 +226,27 @@ async function processSelection() {
         }
       } else if (node.type === 'VECTOR') {
         // For individual vectors, they are usually already properly flattened
-        // Only check if they have strokes that need outlining
-        const vector = node as VectorNode
-        if (vector.strokes && vector.strokes.length > 0) {
-          needsFlattening = true
-          flatteningReason = 'Vector with strokes'
-        }
         // Check if it has children (unusual but possible)
         if ('children' in node && (node as any).children && (node as any).children.length > 0) {
           needsFlattening = true
-          flatteningReason = flatteningReason ? `${flatteningReason}, has children` : 'Vector with children'
+          flatteningReason = 'Vector with children'
         }
-        // If it's a single vector with no strokes and no children, it's likely already flattened
+        // If it's a single vector with no children, it's likely already flattened
       } else if (node.type === 'BOOLEAN_OPERATION') {
-        // Boolean operations are usually already flattened, but check for strokes
-        const booleanOp = node as BooleanOperationNode
-        if (booleanOp.strokes && booleanOp.strokes.length > 0) {
-          needsFlattening = true
-          flatteningReason = 'Boolean operation with strokes'
-        }
+        // Boolean operations are usually already flattened
         // Check if it has children
         if ('children' in node && (node as any).children && (node as any).children.length > 0) {
           needsFlattening = true
-          flatteningReason = flatteningReason ? `${flatteningReason}, has children` : 'Boolean operation with children'
-        }
-        // If it's a single boolean operation with no strokes and no children, it's likely already flattened
-      } else if (node.type === 'LINE') {
-        // Lines with strokes need to be outlined
-        const line = node as LineNode
-        if (line.strokes && line.strokes.length > 0) {
-          needsFlattening = true
-          flatteningReason = 'Line with strokes'
+          flatteningReason = 'Boolean operation with children'
         }
-        // If it's a single line with no strokes, it's likely already flattened
+        // If it's a single boolean operation with no children, it's likely already flattened
       }
+      // Lines are a stroke, which is outlined when the SVG is exported
 
       // Process through SVGR simulation
       let processedIcon;
       try {
-        processedIcon = processSvgToReact(svgString, node.name)
+        processedIcon = processSvgToReact(svgString, node.name, { template: componentTemplate, variants })
         // Override isSinglePath if the node needs flattening
         const isSingleNode = node.type === 'VECTOR' || node.type === 'BOOLEAN_OPERATION' || node.type === 'LINE'
         
@@ -358,14 +270,17 @@ async function processSelection() {
       
       // Get description if the node is a Component
       let description = ''
-      if (node.type === 'COMPONENT') {
-        description = (node as ComponentNode).description || ''
+      if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+        description = node.description || ''
       }
 
       icons.push({
         id: node.id,
         name: node.name,
         svg: svgString,
+        optimization,
+        canvas,
+        variants,
         width: node.width,
         height: node.height,
         processedIcon,
@@ -393,10 +308,10 @@ async function processSelection() {
     }
     
     // Send the icons back to the UI
-    emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons })
+    emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons, rejected })
     
   } catch (error) {
-    console.error('Error in processSelection:', error)
+    console.error('Error in processIconNodes:', error)
     // Send empty array to UI on error to prevent UI from getting stuck
     emit<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', { icons: [] })
   }
@@ -448,20 +363,249 @@ export default function () {
   })
 
   // Handle adding icons to design system
-  once<AddIconsHandler>('ADD_ICONS', async function (icons: IconData[]) {
-    // Validate GitHub configuration
-    const configValidation = validateGitHubConfig()
-    if (!configValidation.isValid) {
+  on<AddIconsHandler>('ADD_ICONS', async function (icons: IconData[]) {
+    // Submit to the delivery profile selected in the UI
+    const profile = await getActiveProfile()
+
+    const backend = createDeliveryBackend(profile)
+
+    // Validate the profile's configuration
+    const configErrors = await backend.validate()
+    if (configErrors.length > 0) {
       emit<ShowErrorHandler>('SHOW_ERROR', {
         title: 'Configuration Error',
-        message: `Please check your GitHub configuration: ${configValidation.errors.join(', ')}`,
-        details: 'Update the values in src/config.ts and rebuild the plugin.'
+        message: `Please check your delivery configuration: ${configErrors.join(', ')}`,
+        details: isGitHubMode(profile.deliveryMode)
+          ? `Add your GitHub token in Settings, or check the "${profile.name}" delivery profile.`
+          : `Check the "${profile.name}" delivery profile in Settings.`
       })
       return
     }
 
-    // Process icons in chunks to avoid GitHub API limits
-    await processIconsInChunks(icons)
+    // Check the credentials and target before sending anything
+    const preflight = await backend.preflight()
+    if (!preflight.ok) {
+      emitPreflightError(backend, preflight, 'The icons were not sent')
+      return
+    }
+
+    await processIcons(profile, backend, icons)
+  })
+
+  // Handle a dry run: show what ADD_ICONS would send to the active profile, without sending it
+  on<PreviewSubmissionHandler>('PREVIEW_SUBMISSION', async function (icons: IconData[]) {
+    const profile = await getActiveProfile()
+    try {
+      emit<DryRunResultHandler>('DRY_RUN_RESULT', await createDryRun(profile, createDeliveryBackend(profile), icons.map(getIconPayload)))
+    } catch (error) {
+      console.error('Error preparing dry run:', error)
+      emit<ShowErrorHandler>('SHOW_ERROR', {
+        title: 'Dry Run Failed',
+        message: `Could not prepare the submission to "${profile.name}".`,
+        details: error instanceof Error ? error.message : String(error)
+      })
+    }
+  })
+
+  // Failed chunks from earlier submissions, which can be resent or discarded
+  on<GetFailedChunksHandler>('GET_FAILED_CHUNKS', async function () {
+    await emitFailedChunks()
+  })
+
+  on<ResumeFailedChunksHandler>('RESUME_FAILED_CHUNKS', async function () {
+    await resumeFailedChunks()
+  })
+
+  on<DiscardFailedChunksHandler>('DISCARD_FAILED_CHUNKS', async function () {
+    await clearFailedChunks()
+    await emitFailedChunks()
+  })
+
+  on<GetBatchRecordsHandler>('GET_BATCH_RECORDS', async function () {
+    await emitBatchRecords()
+  })
+
+  // Send the current credential status (never the token itself) to the settings screen
+  const emitGitHubSettings = async () => {
+    const token = await getGitHubToken()
+    // GitLab tokens and webhook secrets are per profile
+    const profileSecretHints: { [profileId: string]: string } = {}
+    for (const profile of await getProfiles()) {
+      const hint = getTokenHint(await getProfileSecret(profile.id))
+      if (hint) {
+        profileSecretHints[profile.id] = hint
+      }
+    }
+    emit<GitHubSettingsHandler>('GITHUB_SETTINGS', {
+      hasToken: token !== '',
+      tokenHint: getTokenHint(token),
+      profileSecretHints
+    })
+  }
+
+  // Run the active profile's checks for the settings screen
+  const emitAccessResult = async () => {
+    const profile = await getActiveProfile()
+    emit<GitHubAccessResultHandler>('GITHUB_ACCESS_RESULT', await createDeliveryBackend(profile).preflight())
+  }
+
+  on<GetGitHubSettingsHandler>('GET_GITHUB_SETTINGS', async function () {
+    await emitGitHubSettings()
+  })
+
+  // Handle saving or rotating the user's GitHub token
+  on<SaveGitHubTokenHandler>('SAVE_GITHUB_TOKEN', async function (data) {
+    try {
+      await saveGitHubToken(data.token)
+      figma.notify('GitHub token saved')
+    } catch (error) {
+      console.error('Error saving GitHub token:', error)
+      figma.notify('Failed to save GitHub token')
+    }
+    await emitGitHubSettings()
+    // Verify the new token right away so the settings screen can show any problems
+    await emitAccessResult()
+  })
+
+  // Handle checking the saved credentials against the active profile's target
+  on<CheckGitHubAccessHandler>('CHECK_GITHUB_ACCESS', async function () {
+    await emitAccessResult()
+  })
+
+  // Handle saving or clearing the token or secret of a GitLab or webhook profile
+  on<SaveProfileSecretHandler>('SAVE_PROFILE_SECRET', async function (data) {
+    try {
+      await saveProfileSecret(data.profileId, data.secret)
+      figma.notify(data.secret.trim() ? 'Profile secret saved' : 'Profile secret removed')
+    } catch (error) {
+      console.error('Error saving profile secret:', error)
+      figma.notify('Failed to save profile secret')
+    }
+    await emitGitHubSettings()
+    if (data.profileId === await getActiveProfileId()) {
+      await emitAccessResult()
+    }
+  })
+
+  // Handle clearing the user's GitHub token
+  on<ClearGitHubTokenHandler>('CLEAR_GITHUB_TOKEN', async function () {
+    try {
+      await clearGitHubToken()
+      figma.notify('GitHub token removed')
+    } catch (error) {
+      console.error('Error clearing GitHub token:', error)
+      figma.notify('Failed to remove GitHub token')
+    }
+    await emitGitHubSettings()
+  })
+
+  // Send the delivery profiles and the active profile to the UI
+  const emitDeliveryProfiles = async () => {
+    emit<DeliveryProfilesHandler>('DELIVERY_PROFILES', {
+      profiles: await getProfiles(),
+      activeProfileId: await getActiveProfileId()
+    })
+    // The active profile, or its template setting, may have changed
+    await refreshComponentTemplate()
+  }
+
+  on<GetDeliveryProfilesHandler>('GET_DELIVERY_PROFILES', async function () {
+    await emitDeliveryProfiles()
+  })
+
+  // Handle creating or updating a delivery profile
+  on<SaveDeliveryProfileHandler>('SAVE_DELIVERY_PROFILE', async function (profile) {
+    try {
+      await saveProfile(profile)
+    } catch (error) {
+      console.error('Error saving delivery profile:', error)
+      figma.notify(error instanceof Error ? error.message : 'Failed to save delivery profile')
+    }
+    await emitDeliveryProfiles()
+  })
+
+  // Handle deleting a delivery profile
+  on<DeleteDeliveryProfileHandler>('DELETE_DELIVERY_PROFILE', async function (data) {
+    try {
+      await deleteProfile(data.profileId)
+      await saveProfileSecret(data.profileId, '')
+    } catch (error) {
+      console.error('Error deleting delivery profile:', error)
+      figma.notify('Failed to delete delivery profile')
+    }
+    await emitDeliveryProfiles()
+  })
+
+  // Handle switching the profile used for submissions
+  on<SetActiveProfileHandler>('SET_ACTIVE_PROFILE', async function (data) {
+    await setActiveProfile(data.profileId)
+    await emitDeliveryProfiles()
+  })
+
+  on<GetDetectionRulesHandler>('GET_DETECTION_RULES', async function () {
+    emit<DetectionRulesHandler>('DETECTION_RULES', await getDetectionRules())
+  })
+
+  // Handle changes to the icon detection rules, and pick up the selection again with them
+  on<SaveDetectionRulesHandler>('SAVE_DETECTION_RULES', async function (rules) {
+    await saveDetectionRules(rules)
+    emit<DetectionRulesHandler>('DETECTION_RULES', rules)
+    await processSelection()
+  })
+
+  // Handle scanning pages and sections for icons, and picking up the icons found
+  on<GetScanPagesHandler>('GET_SCAN_PAGES', async function () {
+    emit<ScanPagesHandler>('SCAN_PAGES', { pages: getScanPages() })
+  })
+
+  on<ScanIconsHandler>('SCAN_ICONS', async function (data) {
+    try {
+      await scanForIcons(data.scopeIds, await getDetectionRules(), progress => emit<ScanProgressHandler>('SCAN_PROGRESS', progress))
+    } catch (error) {
+      console.error('Error scanning for icons:', error)
+      figma.notify('Scanning for icons failed')
+      emit<ScanProgressHandler>('SCAN_PROGRESS', { icons: [], scannedNodes: 0, done: true, cancelled: true })
+    }
+  })
+
+  on<CancelScanHandler>('CANCEL_SCAN', function () {
+    cancelScan()
+  })
+
+  on<SelectScannedIconsHandler>('SELECT_SCANNED_ICONS', async function (data) {
+    const nodes = getScannedNodes(data.iconIds)
+    const selected = await selectScannedNodes(nodes)
+    if (!selected) {
+      figma.notify('The icons no longer exist')
+    } else if (selected.count < data.iconIds.length) {
+      figma.notify(`Selected ${selected.count} of ${data.iconIds.length} icons, those on "${selected.page.name}"`)
+    }
+  })
+
+  // Scanned icons replace the selected ones until the selection changes
+  on<LoadScannedIconsHandler>('LOAD_SCANNED_ICONS', async function (data) {
+    await processIconNodes(getScannedNodes(data.iconIds), [])
+  })
+
+  // Handle checking the selected icons against the icons already in the target repository
+  on<CheckIconConflictsHandler>('CHECK_ICON_CONFLICTS', async function (data) {
+    // Only GitHub repositories can be compared against, and only with a token
+    const profile = await getActiveProfile()
+    if (data.icons.length === 0 || !isGitHubMode(profile.deliveryMode) || await getGitHubToken() === '') {
+      emit<IconConflictsHandler>('ICON_CONFLICTS', { conflicts: {} })
+      return
+    }
+
+    try {
+      const conflicts = await findIconConflicts(profile, data.icons)
+      emit<IconConflictsHandler>('ICON_CONFLICTS', { conflicts })
+    } catch (error) {
+      console.error('Error checking for existing icons:', error)
+      emit<IconConflictsHandler>('ICON_CONFLICTS', {
+        conflicts: {},
+        error: 'Could not check the design system for existing icons.'
+      })
+    }
   })
 
   // Handle updating icon name
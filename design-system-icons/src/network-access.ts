@@ -0,0 +1,31 @@
+// Hosts the plugin may reach: the same list as networkAccess.allowedDomains in package.json.
+// Figma blocks requests to any other host, so GitLab and webhook URLs entered on a profile are
+// checked against it. Reaching another host takes an entry in both places and a rebuild.
+export const ALLOWED_DOMAINS = [
+  'https://api.github.com',
+  'https://github.com',
+  'https://gitlab.com'
+]
+
+function isAllowedOrigin(origin: string): boolean {
+  return ALLOWED_DOMAINS.some(domain => {
+    // Figma's wildcards, e.g. https://*.example.com, match any subdomain
+    const wildcard = /^(https?:\/\/)\*\.(.+)$/.exec(domain)
+    return wildcard
+      ? origin.startsWith(wildcard[1]) && origin.endsWith(`.${wildcard[2]}`)
+      : origin === domain
+  })
+}
+
+// Why the plugin can't send requests to a URL, or null if it can
+export function getEndpointUrlProblem(url: string): string | null {
+  const match = /^(https:\/\/[^/?#:]+)(:\d+)?([/?#]|$)/i.exec(url.trim())
+  if (!match) {
+    return 'The URL must start with https://'
+  }
+  const origin = match[1].toLowerCase()
+  if (match[2] || !isAllowedOrigin(origin)) {
+    return `Figma blocks requests to ${origin}${match[2] || ''}: add it to networkAccess.allowedDomains in package.json and to ALLOWED_DOMAINS in src/network-access.ts, then rebuild the plugin`
+  }
+  return null
+}
@@ -0,0 +1,131 @@
+import { OutputTarget } from './types'
+
+// How the icon's elements are written: React JSX, static SVG markup (previews and .svg files),
+// Vue and Svelte templates, or react-native-svg components
+export type RenderSyntax = 'jsx' | 'markup' | 'vue' | 'svelte' | 'react-native'
+
+// What the non-React targets are generated from; the React component goes through the code templates instead
+export interface TargetSource {
+  componentName: string
+  viewBox: string
+  usesIds: boolean // Whether the elements reference each other, so IDs must be unique per instance
+  secondaryColor?: string // Default of the secondaryColor prop, for duotone icons
+  elementNames: string[]
+  // The elements in a syntax, one per line at the indentation; static markup prefixes IDs with idPrefix
+  renderChildren(syntax: RenderSyntax, indent: string, idPrefix?: string): string
+}
+
+export const OUTPUT_FILE_EXTENSIONS: Record<OutputTarget, string> = {
+  react: 'tsx',
+  vue: 'vue',
+  svelte: 'svelte',
+  'react-native': 'tsx',
+  svg: 'svg'
+}
+
+// react-native-svg has a component per element, e.g. <Path> or <ClipPath>
+export function getReactNativeComponentName(name: string): string {
+  return name === 'tspan' ? 'TSpan' : name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+const USE_ID_COMMENT = '// useId() may contain characters that break url(#…) references'
+
+// Vue 3.5+ single-file component; class and other attributes fall through to the <svg>
+export function renderVueComponent(source: TargetSource): string {
+  const props = ['size?: number | string']
+  const defaults = ['size: 24']
+  if (source.secondaryColor) {
+    props.push('secondaryColor?: string')
+    defaults.push(`secondaryColor: ${JSON.stringify(source.secondaryColor)}`)
+  }
+
+  return [
+    '<script setup lang="ts">',
+    ...(source.usesIds ? ['import { useId } from "vue";', ''] : []),
+    `withDefaults(defineProps<{ ${props.join('; ')} }>(), { ${defaults.join(', ')} });`,
+    ...(source.usesIds ? ['', USE_ID_COMMENT, 'const id = useId().replace(/[^\\w-]/g, "");'] : []),
+    '</script>',
+    '',
+    '<template>',
+    '  <svg',
+    '    :width="size"',
+    '    :height="size"',
+    `    viewBox="${source.viewBox}"`,
+    '    fill="currentColor"',
+    '    xmlns="http://www.w3.org/2000/svg"',
+    '    aria-hidden="true"',
+    '  >',
+    `    ${source.renderChildren('vue', '    ')}`,
+    '  </svg>',
+    '</template>',
+    ''
+  ].join('\n')
+}
+
+// Svelte component; other attributes are passed on to the <svg>. IDs come from a per-module
+// counter, as Svelte 4 has no useId.
+export function renderSvelteComponent(source: TargetSource): string {
+  return [
+    ...(source.usesIds ? ['<script context="module" lang="ts">', '  let instances = 0;', '</script>', ''] : []),
+    '<script lang="ts">',
+    '  export let size: number | string = 24;',
+    ...(source.secondaryColor ? [`  export let secondaryColor = ${JSON.stringify(source.secondaryColor)};`] : []),
+    ...(source.usesIds ? [`  const id = \`${source.componentName}-\${instances++}\`;`] : []),
+    '</script>',
+    '',
+    '<svg',
+    '  width={size}',
+    '  height={size}',
+    `  viewBox="${source.viewBox}"`,
+    '  fill="currentColor"',
+    '  xmlns="http://www.w3.org/2000/svg"',
+    '  aria-hidden="true"',
+    '  {...$$restProps}',
+    '>',
+    `  ${source.renderChildren('svelte', '  ')}`,
+    '</svg>',
+    ''
+  ].join('\n')
+}
+
+// react-native-svg component. The color prop sets currentColor, and IDs are scoped to each <Svg>.
+export function renderReactNativeComponent(source: TargetSource): string {
+  const components = source.elementNames
+    .filter(name => name !== 'svg')
+    .map(getReactNativeComponentName)
+    .sort()
+  const props = `{ size = 24, ${source.secondaryColor ? `secondaryColor = ${JSON.stringify(source.secondaryColor)}, ` : ''}...props }`
+  const propsType = `SvgProps & { size?: number | string${source.secondaryColor ? '; secondaryColor?: string' : ''} }`
+
+  return [
+    'import React from "react";',
+    `import Svg${components.length > 0 ? `, { ${components.join(', ')} }` : ''} from "react-native-svg";`,
+    'import type { SvgProps } from "react-native-svg";',
+    '',
+    '// Auto-generated icon component',
+    `export function ${source.componentName}(${props}: ${propsType}) {`,
+    '  return (',
+    '    <Svg',
+    '      width={size}',
+    '      height={size}',
+    `      viewBox="${source.viewBox}"`,
+    '      fill="currentColor"',
+    '      {...props}',
+    '    >',
+    `      ${source.renderChildren('react-native', '      ', '')}`,
+    '    </Svg>',
+    '  );',
+    '}',
+    ''
+  ].join('\n')
+}
+
+// Standalone SVG, colored like the components (currentColor, or the duotone defaults)
+export function renderSvgFile(source: TargetSource): string {
+  return [
+    `<svg width="24" height="24" viewBox="${source.viewBox}" fill="currentColor" xmlns="http://www.w3.org/2000/svg">`,
+    `  ${source.renderChildren('markup', '  ', '')}`,
+    '</svg>',
+    ''
+  ].join('\n')
+}
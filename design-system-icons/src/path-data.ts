@@ -0,0 +1,284 @@
+// Parsing and serializing SVG path data. Parsed paths are normalized to absolute
+// M, L, C and Z segments: H and V become lines, quadratic curves and arcs become cubics,
+// so geometry code only has to handle lines and cubic Béziers. Code that rewrites path
+// data without changing it (the optimizer) works on the absolute commands instead.
+export interface Point {
+  x: number
+  y: number
+}
+
+export type PathSegment =
+  | { type: 'M'; to: Point }
+  | { type: 'L'; to: Point }
+  | { type: 'C'; c1: Point; c2: Point; to: Point }
+  | { type: 'Z' }
+
+// An absolute path command, before quadratic curves and arcs are converted to cubics
+export type PathCommand =
+  | PathSegment
+  | { type: 'Q'; control: Point; to: Point }
+  | { type: 'A'; rx: number; ry: number; rotation: number; largeArc: boolean; sweep: boolean; to: Point }
+
+const COMMAND_ARGUMENTS: { [command: string]: number } = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0
+}
+
+// Split path data into commands and numbers. Arc flags may be written without separators ("a1 1 0 013 4").
+function tokenize(d: string): (string | number)[] {
+  const tokens: (string | number)[] = []
+  const pattern = /([MmLlHhVvCcSsQqTtAaZz])|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/g
+  let command = ''
+  let argumentIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(d)) !== null) {
+    if (match[1]) {
+      command = match[1].toUpperCase()
+      argumentIndex = 0
+      tokens.push(match[1])
+      continue
+    }
+    // Arc flags (4th and 5th arguments) are single digits
+    const isFlag = command === 'A' && (argumentIndex % 7 === 3 || argumentIndex % 7 === 4)
+    if (isFlag && match[2].length > 1 && /^[01]/.test(match[2])) {
+      tokens.push(Number(match[2][0]))
+      pattern.lastIndex = match.index + 1
+    } else {
+      tokens.push(Number(match[2]))
+    }
+    argumentIndex++
+  }
+  return tokens
+}
+
+// Cubic Béziers approximating an elliptical arc, following the SVG implementation notes (F.6.5)
+function arcToCubics(from: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, to: Point): PathSegment[] {
+  if (rx === 0 || ry === 0) {
+    return [{ type: 'L', to }]
+  }
+  if (from.x === to.x && from.y === to.y) {
+    return []
+  }
+  rx = Math.abs(rx)
+  ry = Math.abs(ry)
+  const phi = rotation * Math.PI / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+
+  // Scale up radii that are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1
+  const coefficient = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cx1 = coefficient * rx * y1 / ry
+  const cy1 = -coefficient * ry * x1 / rx
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+  const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry)
+  let sweepAngle = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry)
+  if (!sweep && sweepAngle > 0) {
+    sweepAngle -= 2 * Math.PI
+  } else if (sweep && sweepAngle < 0) {
+    sweepAngle += 2 * Math.PI
+  }
+
+  // At most a quarter turn per cubic keeps the approximation error tiny
+  const count = Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9)
+  const step = sweepAngle / count
+  const k = 4 / 3 * Math.tan(step / 4)
+  const pointAt = (theta: number, offset: number): Point => {
+    // Point on the ellipse, moved along the tangent by `offset` (in parameter units)
+    const px = rx * (Math.cos(theta) - offset * Math.sin(theta))
+    const py = ry * (Math.sin(theta) + offset * Math.cos(theta))
+    return { x: cos * px - sin * py + cx, y: sin * px + cos * py + cy }
+  }
+
+  const segments: PathSegment[] = []
+  for (let i = 0; i < count; i++) {
+    const theta1 = startAngle + i * step
+    const theta2 = theta1 + step
+    segments.push({
+      type: 'C',
+      c1: pointAt(theta1, k),
+      c2: pointAt(theta2, -k),
+      to: i === count - 1 ? to : pointAt(theta2, 0)
+    })
+  }
+  return segments
+}
+
+// Parse path data into absolute commands. H and V become lines and the smooth S and T
+// commands get their reflected control points, but quadratic curves and arcs are kept.
+export function parsePathCommands(d: string): PathCommand[] {
+  const tokens = tokenize(d)
+  const commands: PathCommand[] = []
+  let current: Point = { x: 0, y: 0 }
+  let subpathStart: Point = { x: 0, y: 0 }
+  // Reflection points for the smooth S and T commands
+  let lastCubicControl: Point | null = null
+  let lastQuadraticControl: Point | null = null
+
+  let index = 0
+  let command = ''
+  while (index < tokens.length) {
+    const token = tokens[index]
+    if (typeof token === 'string') {
+      if (command === '' && token !== 'M' && token !== 'm') {
+        break // Path data must begin with a moveto
+      }
+      command = token
+      index++
+    } else if (command === '' || command === 'Z' || command === 'z') {
+      break // Numbers must follow a command that takes arguments
+    } else if (command === 'M') {
+      command = 'L' // Extra pairs after a moveto are implicit linetos
+    } else if (command === 'm') {
+      command = 'l'
+    }
+
+    const type = command.toUpperCase()
+    const relative = command !== type
+    const argumentCount = COMMAND_ARGUMENTS[type]
+    if (argumentCount === undefined) {
+      break
+    }
+    const args = tokens.slice(index, index + argumentCount) as number[]
+    if (args.length < argumentCount || args.some(arg => typeof arg !== 'number')) {
+      break // Stop at the first malformed command, as browsers do
+    }
+    index += argumentCount
+
+    const ox = relative ? current.x : 0
+    const oy = relative ? current.y : 0
+    let cubicControl: Point | null = null
+    let quadraticControl: Point | null = null
+
+    switch (type) {
+      case 'M':
+        current = { x: ox + args[0], y: oy + args[1] }
+        subpathStart = current
+        commands.push({ type: 'M', to: current })
+        break
+      case 'L':
+        current = { x: ox + args[0], y: oy + args[1] }
+        commands.push({ type: 'L', to: current })
+        break
+      case 'H':
+        current = { x: ox + args[0], y: current.y }
+        commands.push({ type: 'L', to: current })
+        break
+      case 'V':
+        current = { x: current.x, y: oy + args[0] }
+        commands.push({ type: 'L', to: current })
+        break
+      case 'C':
+      case 'S': {
+        const c1: Point = type === 'C'
+          ? { x: ox + args[0], y: oy + args[1] }
+          : lastCubicControl
+            ? { x: 2 * current.x - lastCubicControl.x, y: 2 * current.y - lastCubicControl.y }
+            : current
+        const rest = type === 'C' ? args.slice(2) : args
+        const c2 = { x: ox + rest[0], y: oy + rest[1] }
+        current = { x: ox + rest[2], y: oy + rest[3] }
+        commands.push({ type: 'C', c1, c2, to: current })
+        cubicControl = c2
+        break
+      }
+      case 'Q':
+      case 'T': {
+        const control: Point = type === 'Q'
+          ? { x: ox + args[0], y: oy + args[1] }
+          : lastQuadraticControl
+            ? { x: 2 * current.x - lastQuadraticControl.x, y: 2 * current.y - lastQuadraticControl.y }
+            : current
+        current = type === 'Q' ? { x: ox + args[2], y: oy + args[3] } : { x: ox + args[0], y: oy + args[1] }
+        commands.push({ type: 'Q', control, to: current })
+        quadraticControl = control
+        break
+      }
+      case 'A':
+        current = { x: ox + args[5], y: oy + args[6] }
+        commands.push({ type: 'A', rx: args[0], ry: args[1], rotation: args[2], largeArc: args[3] !== 0, sweep: args[4] !== 0, to: current })
+        break
+      case 'Z':
+        commands.push({ type: 'Z' })
+        current = subpathStart
+        break
+    }
+
+    lastCubicControl = cubicControl
+    lastQuadraticControl = quadraticControl
+  }
+
+  return commands
+}
+
+// Convert absolute commands into M, L, C and Z segments
+export function normalizePathCommands(commands: PathCommand[]): PathSegment[] {
+  const segments: PathSegment[] = []
+  let current: Point = { x: 0, y: 0 }
+  let subpathStart: Point = { x: 0, y: 0 }
+  for (const command of commands) {
+    switch (command.type) {
+      case 'Q':
+        // Degree elevation of the quadratic curve
+        segments.push({
+          type: 'C',
+          c1: { x: current.x + 2 / 3 * (command.control.x - current.x), y: current.y + 2 / 3 * (command.control.y - current.y) },
+          c2: { x: command.to.x + 2 / 3 * (command.control.x - command.to.x), y: command.to.y + 2 / 3 * (command.control.y - command.to.y) },
+          to: command.to
+        })
+        break
+      case 'A':
+        segments.push(...arcToCubics(current, command.rx, command.ry, command.rotation, command.largeArc, command.sweep, command.to))
+        break
+      default:
+        segments.push(command)
+    }
+    if (command.type === 'M') {
+      subpathStart = command.to
+    }
+    current = command.type === 'Z' ? subpathStart : command.to
+  }
+  return segments
+}
+
+// Parse path data into absolute M, L, C and Z segments
+export function parsePathData(d: string): PathSegment[] {
+  return normalizePathCommands(parsePathCommands(d))
+}
+
+// Format a number with at most `precision` decimals and no trailing zeros
+export function formatNumber(value: number, precision: number): string {
+  const rounded = Number(value.toFixed(precision))
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+// Serialize segments as absolute path data
+export function serializePathData(segments: PathSegment[], precision = 3): string {
+  const point = (p: Point) => `${formatNumber(p.x, precision)} ${formatNumber(p.y, precision)}`
+  return segments.map(segment => {
+    switch (segment.type) {
+      case 'M':
+        return `M${point(segment.to)}`
+      case 'L':
+        return `L${point(segment.to)}`
+      case 'C':
+        return `C${point(segment.c1)} ${point(segment.c2)} ${point(segment.to)}`
+      case 'Z':
+        return 'Z'
+    }
+  }).join('')
+}
@@ -0,0 +1,394 @@
+import { PathSegment, Point } from './path-data'
+
+// Converts stroked path geometry into filled outline geometry, like Figma's outlineStroke().
+// Each subpath becomes one closed contour (open subpaths: both sides joined by caps) or two
+// (closed subpaths: outer and inner side). Contours are not unioned, so the result must be
+// filled with the nonzero rule, which covers overlaps the same way the stroke did.
+export type LineCap = 'butt' | 'round' | 'square'
+export type LineJoin = 'miter' | 'round' | 'bevel'
+
+export interface StrokeStyle {
+  width: number
+  lineCap: LineCap
+  lineJoin: LineJoin
+  miterLimit: number
+}
+
+// A line or cubic piece of a subpath
+type Piece =
+  | { type: 'L'; from: Point; to: Point }
+  | { type: 'C'; from: Point; c1: Point; c2: Point; to: Point }
+
+interface Subpath {
+  pieces: Piece[]
+  start: Point
+  closed: boolean
+}
+
+const EPSILON = 1e-9
+const OFFSET_TOLERANCE = 0.01 // Maximum deviation of offset curves, in user units (1/2400 of a 24px icon)
+const MAX_SUBDIVISIONS = 6
+
+function add(a: Point, b: Point): Point { return { x: a.x + b.x, y: a.y + b.y } }
+function subtract(a: Point, b: Point): Point { return { x: a.x - b.x, y: a.y - b.y } }
+function scale(a: Point, factor: number): Point { return { x: a.x * factor, y: a.y * factor } }
+function dot(a: Point, b: Point): number { return a.x * b.x + a.y * b.y }
+function cross(a: Point, b: Point): number { return a.x * b.y - a.y * b.x }
+function length(a: Point): number { return Math.hypot(a.x, a.y) }
+function distance(a: Point, b: Point): number { return length(subtract(a, b)) }
+function lerp(a: Point, b: Point, t: number): Point { return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t } }
+
+function normalize(a: Point): Point {
+  const size = length(a)
+  return size < EPSILON ? { x: 0, y: 0 } : scale(a, 1 / size)
+}
+
+// Unit normal to the left of a direction
+function leftNormal(direction: Point): Point {
+  return { x: direction.y, y: -direction.x }
+}
+
+function isSamePoint(a: Point, b: Point): boolean {
+  return distance(a, b) < 1e-7
+}
+
+function startTangent(piece: Piece): Point {
+  if (piece.type === 'L') {
+    return normalize(subtract(piece.to, piece.from))
+  }
+  // Control points may coincide with the end points
+  for (const point of [piece.c1, piece.c2, piece.to]) {
+    if (!isSamePoint(point, piece.from)) {
+      return normalize(subtract(point, piece.from))
+    }
+  }
+  return { x: 0, y: 0 }
+}
+
+function endTangent(piece: Piece): Point {
+  if (piece.type === 'L') {
+    return normalize(subtract(piece.to, piece.from))
+  }
+  for (const point of [piece.c2, piece.c1, piece.from]) {
+    if (!isSamePoint(point, piece.to)) {
+      return normalize(subtract(piece.to, point))
+    }
+  }
+  return { x: 0, y: 0 }
+}
+
+function reversePiece(piece: Piece): Piece {
+  return piece.type === 'L'
+    ? { type: 'L', from: piece.to, to: piece.from }
+    : { type: 'C', from: piece.to, c1: piece.c2, c2: piece.c1, to: piece.from }
+}
+
+function isDegenerate(piece: Piece): boolean {
+  return piece.type === 'L'
+    ? isSamePoint(piece.from, piece.to)
+    : isSamePoint(piece.from, piece.to) && isSamePoint(piece.from, piece.c1) && isSamePoint(piece.from, piece.c2)
+}
+
+// Split normalized segments into subpaths of non-degenerate pieces
+function getSubpaths(segments: PathSegment[]): Subpath[] {
+  const subpaths: Subpath[] = []
+  let current: Subpath | null = null
+  let point: Point = { x: 0, y: 0 }
+
+  for (const segment of segments) {
+    if (segment.type === 'M') {
+      current = { pieces: [], start: segment.to, closed: false }
+      subpaths.push(current)
+      point = segment.to
+      continue
+    }
+    if (current === null) {
+      // Drawing after Z starts a new subpath at the same point
+      current = { pieces: [], start: point, closed: false }
+      subpaths.push(current)
+    }
+    if (segment.type === 'Z') {
+      if (!isSamePoint(point, current.start)) {
+        current.pieces.push({ type: 'L', from: point, to: current.start })
+      }
+      current.closed = true
+      point = current.start
+      current = null
+      continue
+    }
+    const piece: Piece = segment.type === 'L'
+      ? { type: 'L', from: point, to: segment.to }
+      : { type: 'C', from: point, c1: segment.c1, c2: segment.c2, to: segment.to }
+    if (!isDegenerate(piece)) {
+      current.pieces.push(piece)
+    }
+    point = segment.to
+  }
+  return subpaths
+}
+
+function cubicPoint(piece: Extract<Piece, { type: 'C' }>, t: number): Point {
+  const mt = 1 - t
+  return {
+    x: mt * mt * mt * piece.from.x + 3 * mt * mt * t * piece.c1.x + 3 * mt * t * t * piece.c2.x + t * t * t * piece.to.x,
+    y: mt * mt * mt * piece.from.y + 3 * mt * mt * t * piece.c1.y + 3 * mt * t * t * piece.c2.y + t * t * t * piece.to.y
+  }
+}
+
+function cubicDerivative(piece: Extract<Piece, { type: 'C' }>, t: number): Point {
+  const mt = 1 - t
+  const d1 = subtract(piece.c1, piece.from)
+  const d2 = subtract(piece.c2, piece.c1)
+  const d3 = subtract(piece.to, piece.c2)
+  return {
+    x: 3 * (mt * mt * d1.x + 2 * mt * t * d2.x + t * t * d3.x),
+    y: 3 * (mt * mt * d1.y + 2 * mt * t * d2.y + t * t * d3.y)
+  }
+}
+
+function splitCubic(piece: Extract<Piece, { type: 'C' }>, t: number): [Extract<Piece, { type: 'C' }>, Extract<Piece, { type: 'C' }>] {
+  const p01 = lerp(piece.from, piece.c1, t)
+  const p12 = lerp(piece.c1, piece.c2, t)
+  const p23 = lerp(piece.c2, piece.to, t)
+  const p012 = lerp(p01, p12, t)
+  const p123 = lerp(p12, p23, t)
+  const middle = lerp(p012, p123, t)
+  return [
+    { type: 'C', from: piece.from, c1: p01, c2: p012, to: middle },
+    { type: 'C', from: middle, c1: p123, c2: p23, to: piece.to }
+  ]
+}
+
+// Intersection of the lines through a (direction u) and b (direction v), if they aren't parallel
+function intersectLines(a: Point, u: Point, b: Point, v: Point): Point | null {
+  const denominator = cross(u, v)
+  if (Math.abs(denominator) < 1e-9) {
+    return null
+  }
+  return add(a, scale(u, cross(subtract(b, a), v) / denominator))
+}
+
+// Approximate the offset of a cubic by offsetting its control polygon (Tiller–Hanson)
+function offsetCubicOnce(piece: Extract<Piece, { type: 'C' }>, offset: number): Extract<Piece, { type: 'C' }> {
+  const t0 = startTangent(piece)
+  const t3 = endTangent(piece)
+  const from = add(piece.from, scale(leftNormal(t0), offset))
+  const to = add(piece.to, scale(leftNormal(t3), offset))
+
+  // The middle edge of the control polygon, offset by the same distance
+  const middleDirection = normalize(subtract(piece.c2, piece.c1))
+  if (length(middleDirection) > 0) {
+    const middle = add(piece.c1, scale(leftNormal(middleDirection), offset))
+    const c1 = intersectLines(from, t0, middle, middleDirection)
+    const c2 = intersectLines(to, t3, middle, middleDirection)
+    if (c1 && c2) {
+      return { type: 'C', from, c1, c2, to }
+    }
+  }
+  // Parallel or degenerate control edges: move the control points along with their end points
+  return {
+    type: 'C',
+    from,
+    c1: add(piece.c1, subtract(from, piece.from)),
+    c2: add(piece.c2, subtract(to, piece.to)),
+    to
+  }
+}
+
+// Offset a cubic, subdividing it until the approximation is within tolerance
+function offsetCubic(piece: Extract<Piece, { type: 'C' }>, offset: number, depth = 0): Piece[] {
+  const approximation = offsetCubicOnce(piece, offset)
+  if (depth >= MAX_SUBDIVISIONS) {
+    return [approximation]
+  }
+
+  let isAccurate = true
+  for (const t of [0.25, 0.5, 0.75]) {
+    const derivative = cubicDerivative(piece, t)
+    if (length(derivative) < EPSILON) {
+      isAccurate = false // Cusp; subdivide around it
+      break
+    }
+    const expected = add(cubicPoint(piece, t), scale(leftNormal(normalize(derivative)), offset))
+    if (distance(expected, cubicPoint(approximation, t)) > OFFSET_TOLERANCE) {
+      isAccurate = false
+      break
+    }
+  }
+  if (isAccurate) {
+    return [approximation]
+  }
+
+  const [first, second] = splitCubic(piece, 0.5)
+  return [...offsetCubic(first, offset, depth + 1), ...offsetCubic(second, offset, depth + 1)]
+}
+
+// Cubic arc around a center from one point to another, turning by `angle` radians (positive = clockwise on screen)
+function arcPieces(center: Point, from: Point, angle: number): Piece[] {
+  const radius = distance(from, center)
+  const count = Math.max(1, Math.ceil(Math.abs(angle) / (Math.PI / 2) - 1e-9))
+  const step = angle / count
+  const k = 4 / 3 * Math.tan(step / 4)
+  const startAngle = Math.atan2(from.y - center.y, from.x - center.x)
+
+  const pieces: Piece[] = []
+  let previous = from
+  for (let i = 1; i <= count; i++) {
+    const theta = startAngle + i * step
+    const to = { x: center.x + radius * Math.cos(theta), y: center.y + radius * Math.sin(theta) }
+    const previousTangent = { x: -(previous.y - center.y), y: previous.x - center.x }
+    const tangent = { x: -(to.y - center.y), y: to.x - center.x }
+    pieces.push({
+      type: 'C',
+      from: previous,
+      c1: add(previous, scale(previousTangent, k)),
+      c2: subtract(to, scale(tangent, k)),
+      to
+    })
+    previous = to
+  }
+  return pieces
+}
+
+// Connect the left offsets of two pieces meeting at `vertex`
+function joinPieces(vertex: Point, incoming: Point, outgoing: Point, halfWidth: number, style: StrokeStyle): Piece[] {
+  const from = add(vertex, scale(leftNormal(incoming), halfWidth))
+  const to = add(vertex, scale(leftNormal(outgoing), halfWidth))
+  if (isSamePoint(from, to)) {
+    return []
+  }
+
+  // Turning towards the left puts the left side on the inside of the corner. Going through
+  // the vertex keeps the inner side inside the stroke, so it needs no join geometry.
+  const turn = cross(incoming, outgoing)
+  if (turn < 0 || (Math.abs(turn) < EPSILON && dot(incoming, outgoing) > 0)) {
+    return [{ type: 'L', from, to: vertex }, { type: 'L', from: vertex, to }]
+  }
+
+  if (style.lineJoin === 'round') {
+    const angle = Math.atan2(cross(leftNormal(incoming), leftNormal(outgoing)), dot(leftNormal(incoming), leftNormal(outgoing)))
+    return arcPieces(vertex, from, angle)
+  }
+  if (style.lineJoin === 'miter') {
+    const bisector = normalize(add(leftNormal(incoming), leftNormal(outgoing)))
+    const cosine = dot(bisector, leftNormal(incoming))
+    // The miter length relative to the stroke width is 1 / sin(θ/2), which equals 1 / cosine here
+    if (cosine > EPSILON && 1 / cosine <= style.miterLimit) {
+      const tip = add(vertex, scale(bisector, halfWidth / cosine))
+      return [{ type: 'L', from, to: tip }, { type: 'L', from: tip, to }]
+    }
+  }
+  return [{ type: 'L', from, to }]
+}
+
+// The left offset of a chain of pieces, with joins between them
+function offsetChain(pieces: Piece[], halfWidth: number, style: StrokeStyle, closed: boolean): Piece[] {
+  const result: Piece[] = []
+  for (let i = 0; i < pieces.length; i++) {
+    const piece = pieces[i]
+    if (piece.type === 'L') {
+      const normal = scale(leftNormal(startTangent(piece)), halfWidth)
+      result.push({ type: 'L', from: add(piece.from, normal), to: add(piece.to, normal) })
+    } else {
+      result.push(...offsetCubic(piece, halfWidth))
+    }
+
+    const next = i + 1 < pieces.length ? pieces[i + 1] : closed ? pieces[0] : null
+    if (next) {
+      result.push(...joinPieces(piece.to, endTangent(piece), startTangent(next), halfWidth, style))
+    }
+  }
+  return result
+}
+
+// The end of a stroke, from the left side at `point` (heading in `direction`) around to the right side
+function capPieces(point: Point, direction: Point, halfWidth: number, style: StrokeStyle): Piece[] {
+  const left = add(point, scale(leftNormal(direction), halfWidth))
+  const right = subtract(point, scale(leftNormal(direction), halfWidth))
+  if (style.lineCap === 'round') {
+    return arcPieces(point, left, Math.PI)
+  }
+  if (style.lineCap === 'square') {
+    const extension = scale(direction, halfWidth)
+    return [
+      { type: 'L', from: left, to: add(left, extension) },
+      { type: 'L', from: add(left, extension), to: add(right, extension) },
+      { type: 'L', from: add(right, extension), to: right }
+    ]
+  }
+  return [{ type: 'L', from: left, to: right }]
+}
+
+// Zero-length subpaths still draw a dot with round caps and a square with square caps
+function dotPieces(point: Point, halfWidth: number, style: StrokeStyle): Piece[][] {
+  if (style.lineCap === 'round') {
+    return [arcPieces(point, { x: point.x + halfWidth, y: point.y }, 2 * Math.PI)]
+  }
+  if (style.lineCap === 'square') {
+    const corners = [
+      { x: point.x - halfWidth, y: point.y - halfWidth },
+      { x: point.x + halfWidth, y: point.y - halfWidth },
+      { x: point.x + halfWidth, y: point.y + halfWidth },
+      { x: point.x - halfWidth, y: point.y + halfWidth }
+    ]
+    return [corners.map((corner, i) => ({ type: 'L' as const, from: corner, to: corners[(i + 1) % 4] }))]
+  }
+  return []
+}
+
+function contourToSegments(contour: Piece[]): PathSegment[] {
+  if (contour.length === 0) {
+    return []
+  }
+  const segments: PathSegment[] = [{ type: 'M', to: contour[0].from }]
+  let point = contour[0].from
+  for (const piece of contour) {
+    if (!isSamePoint(point, piece.from)) {
+      segments.push({ type: 'L', to: piece.from })
+    }
+    if (piece.type === 'L') {
+      if (!isSamePoint(piece.from, piece.to)) {
+        segments.push({ type: 'L', to: piece.to })
+      }
+    } else {
+      segments.push({ type: 'C', c1: piece.c1, c2: piece.c2, to: piece.to })
+    }
+    point = piece.to
+  }
+  segments.push({ type: 'Z' })
+  return segments
+}
+
+// Outline geometry of a stroke along the given path segments
+export function strokePath(segments: PathSegment[], style: StrokeStyle): PathSegment[] {
+  const halfWidth = style.width / 2
+  if (!(halfWidth > 0)) {
+    return []
+  }
+
+  const contours: Piece[][] = []
+  for (const subpath of getSubpaths(segments)) {
+    const { pieces } = subpath
+    if (pieces.length === 0) {
+      contours.push(...dotPieces(subpath.start, halfWidth, style))
+      continue
+    }
+    const reversed = pieces.slice().reverse().map(reversePiece)
+
+    if (subpath.closed) {
+      // The left side and the right side (walked backwards) are separate contours
+      contours.push(offsetChain(pieces, halfWidth, style, true))
+      contours.push(offsetChain(reversed, halfWidth, style, true))
+    } else {
+      const last = pieces[pieces.length - 1]
+      contours.push([
+        ...offsetChain(pieces, halfWidth, style, false),
+        ...capPieces(last.to, endTangent(last), halfWidth, style),
+        ...offsetChain(reversed, halfWidth, style, false),
+        ...capPieces(pieces[0].from, scale(startTangent(pieces[0]), -1), halfWidth, style)
+      ])
+    }
+  }
+
+  return contours.reduce<PathSegment[]>((result, contour) => result.concat(contourToSegments(contour)), [])
+}
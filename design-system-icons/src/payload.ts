@@ -0,0 +1,164 @@
+import { gzipSync, gunzipSync, strFromU8, strToU8, unzlibSync, zlibSync } from 'fflate'
+
+import { IconData, IconPayload, PayloadEncoding } from './types'
+
+// Encoding of the `icons` workflow input. The JSON is UTF-8 encoded, optionally
+// compressed, base64'd and prefixed with a version marker so the workflow knows how to decode it:
+//   icons-v2:gzip:<base64>     gunzip, then parse JSON
+//   icons-v2:deflate:<base64>  zlib inflate, then parse JSON
+//   icons-v2:none:<base64>     parse JSON
+// Inputs without a marker are the original format: base64 of the JSON. The 'legacy' encoding
+// still writes it, for workflows that don't know the marker.
+export const PAYLOAD_VERSION = 'icons-v2'
+
+// Encoded size per chunk; stays well under GitHub's 64KB workflow input limit with some buffer
+export const MAX_PAYLOAD_SIZE = 55000
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+// Base64 of raw bytes; btoa isn't available in the plugin's main thread and only accepts Latin-1
+export function base64Encode(bytes: Uint8Array): string {
+  let result = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i]
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0
+    const bitmap = (a << 16) | (b << 8) | c
+
+    result += BASE64_CHARS.charAt((bitmap >> 18) & 63)
+    result += BASE64_CHARS.charAt((bitmap >> 12) & 63)
+    result += i + 1 < bytes.length ? BASE64_CHARS.charAt((bitmap >> 6) & 63) : '='
+    result += i + 2 < bytes.length ? BASE64_CHARS.charAt(bitmap & 63) : '='
+  }
+  return result
+}
+
+export function base64Decode(text: string): Uint8Array {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '')
+  const bytes = new Uint8Array(Math.floor(clean.length * 3 / 4))
+  let byteIndex = 0
+  for (let i = 0; i < clean.length; i += 4) {
+    const bitmap = (BASE64_CHARS.indexOf(clean[i]) << 18) |
+      (BASE64_CHARS.indexOf(clean[i + 1]) << 12) |
+      ((i + 2 < clean.length ? BASE64_CHARS.indexOf(clean[i + 2]) : 0) << 6) |
+      (i + 3 < clean.length ? BASE64_CHARS.indexOf(clean[i + 3]) : 0)
+
+    bytes[byteIndex++] = (bitmap >> 16) & 255
+    if (i + 2 < clean.length) bytes[byteIndex++] = (bitmap >> 8) & 255
+    if (i + 3 < clean.length) bytes[byteIndex++] = bitmap & 255
+  }
+  return bytes.slice(0, byteIndex)
+}
+
+function compress(bytes: Uint8Array, encoding: PayloadEncoding): Uint8Array {
+  switch (encoding) {
+    case 'gzip':
+      // Fixed mtime so identical chunks encode identically
+      return gzipSync(bytes, { level: 9, mtime: 0 })
+    case 'deflate':
+      return zlibSync(bytes, { level: 9 })
+    case 'none':
+    case 'legacy':
+      return bytes
+  }
+}
+
+function decompress(bytes: Uint8Array, encoding: PayloadEncoding): Uint8Array {
+  switch (encoding) {
+    case 'gzip':
+      return gunzipSync(bytes)
+    case 'deflate':
+      return unzlibSync(bytes)
+    case 'none':
+    case 'legacy':
+      return bytes
+  }
+}
+
+// Encode a chunk of icons for the `icons` workflow input
+export function encodePayload(icons: IconPayload[], encoding: PayloadEncoding): string {
+  const bytes = compress(strToU8(JSON.stringify(icons)), encoding)
+  if (encoding === 'legacy') {
+    return base64Encode(bytes)
+  }
+  return `${PAYLOAD_VERSION}:${encoding}:${base64Encode(bytes)}`
+}
+
+// Decode an `icons` workflow input, in either the versioned or the original format
+export function decodePayload(input: string): IconPayload[] {
+  const match = input.match(/^icons-v2:(gzip|deflate|none):(.*)$/)
+  if (!match) {
+    return JSON.parse(strFromU8(base64Decode(input))) as IconPayload[]
+  }
+  const bytes = decompress(base64Decode(match[2]), match[1] as PayloadEncoding)
+  return JSON.parse(strFromU8(bytes)) as IconPayload[]
+}
+
+export function getIconPayload(icon: IconData): IconPayload {
+  return {
+    name: icon.name,
+    svg: icon.svg,
+    aliases: icon.aliases || [],
+    // Intentional replacement of an icon that already exists in the design system
+    ...(icon.conflictResolution === 'update' ? { update: true } : {}),
+    ...(icon.colorMode && icon.colorMode !== 'monochrome' ? { colorMode: icon.colorMode } : {}),
+    ...(icon.targets && (icon.targets.length !== 1 || icon.targets[0] !== 'react') ? { targets: icon.targets } : {}),
+    ...(icon.variants && icon.variants.length > 1 ? { variants: icon.variants } : {})
+  }
+}
+
+// Base64 size of some bytes, plus a little for compression block overhead
+function getBase64Size(byteSize: number): number {
+  return Math.ceil(byteSize / 3) * 4 + 16
+}
+
+// The end of the chunk that starts at `start`: as many icons as fit into maxSize once encoded,
+// but at least one
+function findChunkEnd(icons: IconPayload[], start: number, encoding: PayloadEncoding, maxSize: number): number {
+  const fits = (end: number) => encodePayload(icons.slice(start, end), encoding).length <= maxSize
+
+  // Upper estimate of the chunk's encoded size. Adding an icon grows the compressed output by
+  // at most the icon's own uncompressed size, so the icons that fit by the estimate need no
+  // compression to check.
+  let estimatedSize = (encoding === 'legacy' ? 0 : PAYLOAD_VERSION.length + encoding.length + 2) +
+    getBase64Size(strToU8(JSON.stringify(icons[start])).length + 1)
+  let end = start + 1
+  while (end < icons.length) {
+    const iconSize = getBase64Size(strToU8(JSON.stringify(icons[end])).length + 1)
+    if (estimatedSize + iconSize > maxSize) {
+      break
+    }
+    estimatedSize += iconSize
+    end++
+  }
+
+  // Compression usually fits more. Grow the chunk in doubling steps while it still fits, then
+  // binary search the last step, so each chunk is only compressed a logarithmic number of times.
+  let step = 1
+  while (end + step <= icons.length && fits(end + step)) {
+    end += step
+    step *= 2
+  }
+  let tooLarge = Math.min(end + step, icons.length + 1)
+  while (tooLarge - end > 1) {
+    const middle = Math.floor((end + tooLarge) / 2)
+    if (fits(middle)) {
+      end = middle
+    } else {
+      tooLarge = middle
+    }
+  }
+  return end
+}
+
+// Dynamic chunking based on the size of the encoded (compressed) payload
+export function planChunks(icons: IconPayload[], encoding: PayloadEncoding, maxSize = MAX_PAYLOAD_SIZE): IconPayload[][] {
+  const chunks: IconPayload[][] = []
+  let start = 0
+  while (start < icons.length) {
+    const end = findChunkEnd(icons, start, encoding, maxSize)
+    chunks.push(icons.slice(start, end))
+    start = end
+  }
+  return chunks
+}
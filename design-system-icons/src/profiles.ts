@@ -0,0 +1,80 @@
+import { GITHUB_CONFIG } from './config'
+import { DeliveryProfile, PayloadEncoding } from './types'
+
+// Named delivery profiles (repo, branch, workflow), stored in figma.clientStorage
+// so forks and staging branches can be targeted without editing config.ts.
+const PROFILES_KEY = 'delivery-profiles'
+const ACTIVE_PROFILE_KEY = 'active-delivery-profile'
+
+export const DEFAULT_PROFILE_ID = 'production'
+
+// The built-in profile comes from config.ts and is always available
+export function getDefaultProfile(): DeliveryProfile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Production',
+    owner: GITHUB_CONFIG.OWNER,
+    repo: GITHUB_CONFIG.REPO,
+    branch: GITHUB_CONFIG.BRANCH,
+    workflowFile: GITHUB_CONFIG.WORKFLOW_FILE,
+    deliveryMode: GITHUB_CONFIG.DELIVERY_MODE,
+    payloadEncoding: GITHUB_CONFIG.PAYLOAD_ENCODING
+  }
+}
+
+export async function getProfiles(): Promise<DeliveryProfile[]> {
+  const stored = await figma.clientStorage.getAsync(PROFILES_KEY)
+  const customProfiles = Array.isArray(stored) ? stored as DeliveryProfile[] : []
+  return [getDefaultProfile(), ...customProfiles.filter(profile => profile.id !== DEFAULT_PROFILE_ID)]
+}
+
+// Create or update a profile; the built-in profile can't be changed at runtime
+export async function saveProfile(profile: DeliveryProfile): Promise<void> {
+  if (profile.id === DEFAULT_PROFILE_ID) {
+    throw new Error('The Production profile is defined in src/config.ts')
+  }
+  const profiles = (await getProfiles()).filter(existing => existing.id !== DEFAULT_PROFILE_ID)
+  const index = profiles.findIndex(existing => existing.id === profile.id)
+  if (index >= 0) {
+    profiles[index] = profile
+  } else {
+    profiles.push(profile)
+  }
+  await figma.clientStorage.setAsync(PROFILES_KEY, profiles)
+}
+
+export async function deleteProfile(profileId: string): Promise<void> {
+  const profiles = (await getProfiles()).filter(profile =>
+    profile.id !== DEFAULT_PROFILE_ID && profile.id !== profileId
+  )
+  await figma.clientStorage.setAsync(PROFILES_KEY, profiles)
+
+  // Fall back to the built-in profile if the active one was deleted
+  if (await getActiveProfileId() === profileId) {
+    await setActiveProfile(DEFAULT_PROFILE_ID)
+  }
+}
+
+export async function getActiveProfileId(): Promise<string> {
+  const profileId = await figma.clientStorage.getAsync(ACTIVE_PROFILE_KEY)
+  return typeof profileId === 'string' ? profileId : DEFAULT_PROFILE_ID
+}
+
+export async function setActiveProfile(profileId: string): Promise<void> {
+  await figma.clientStorage.setAsync(ACTIVE_PROFILE_KEY, profileId)
+}
+
+export async function getActiveProfile(): Promise<DeliveryProfile> {
+  const profiles = await getProfiles()
+  const activeProfileId = await getActiveProfileId()
+  return profiles.find(profile => profile.id === activeProfileId) || profiles[0]
+}
+
+export function getPayloadEncoding(profile: DeliveryProfile): PayloadEncoding {
+  return profile.payloadEncoding || GITHUB_CONFIG.PAYLOAD_ENCODING
+}
+
+// Link to the workflow's run list, used until the individual runs are found
+export function getWorkflowPageUrl(profile: DeliveryProfile): string {
+  return `https://github.com/${profile.owner}/${profile.repo}/actions/workflows/${profile.workflowFile}`
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+
+import { normalizeSvgCanvas } from './svg-canvas'
+import { getAttribute, parseSvg, SvgElement } from './svg-tree'
+
+// A 16px icon as Figma exports it, with its gradient in user space coordinates
+const GRADIENT_ICON_SVG = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">' +
+  '<path d="M2 2H14V14H2Z" fill="url(#paint0_linear_1_2)"/>' +
+  '<defs><linearGradient id="paint0_linear_1_2" x1="2" y1="2" x2="14" y2="14" gradientUnits="userSpaceOnUse">' +
+  '<stop stop-color="#FF0000"/><stop offset="1" stop-color="#0000FF"/></linearGradient></defs>' +
+  '</svg>'
+
+function getElements(svg: string): SvgElement[] {
+  return parseSvg(svg)!.children.filter((child): child is SvgElement => typeof child !== 'string')
+}
+
+// Where a point of the element's user space lands on the canvas
+function toCanvas(element: SvgElement, x: number, y: number): [number, number] {
+  const [a, b, c, d, e, f] = /matrix\(([^)]*)\)/.exec(getAttribute(element, 'transform') || 'matrix(1 0 0 1 0 0)')![1].split(/[\s,]+/).map(Number)
+  return [a * x + c * y + e, b * x + d * y + f]
+}
+
+describe('normalizeSvgCanvas', () => {
+  it('scales a 16px icon onto the 24px canvas with its gradient', () => {
+    const { svg, canvas } = normalizeSvgCanvas(GRADIENT_ICON_SVG, { size: 24, padding: 0 })
+    const [shape, defs] = getElements(svg)
+    const gradient = defs.children[0] as SvgElement
+
+    expect(getAttribute(parseSvg(svg)!, 'viewBox')).toBe('0 0 24 24')
+    expect(canvas!.normalized).toEqual({ x: 0, y: 0, width: 24, height: 24 })
+    expect(getAttribute(shape, 'fill')).toBe('url(#paint0_linear_1_2)')
+    // The shape and its gradient end up in the same place: 3..21 on the canvas
+    expect(toCanvas(shape, 2, 2)).toEqual([3, 3])
+    expect(toCanvas(shape, 14, 14)).toEqual([21, 21])
+    expect(getAttribute(shape, 'd')).toBe('M2 2H14V14H2Z')
+    expect([getAttribute(gradient, 'x1'), getAttribute(gradient, 'y1'), getAttribute(gradient, 'x2'), getAttribute(gradient, 'y2')]).toEqual(['2', '2', '14', '14'])
+  })
+
+  it('keeps a 24px icon as it is', () => {
+    const svg = GRADIENT_ICON_SVG.replace(/16/g, '24')
+    expect(normalizeSvgCanvas(svg, { size: 24, padding: 0 })).toEqual({ svg })
+  })
+})
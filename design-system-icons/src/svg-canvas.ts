@@ -0,0 +1,78 @@
+import { SVG_CONFIG } from './config'
+import { formatNumber } from './path-data'
+import { bakeTransforms } from './svg-transforms'
+import { getAttribute, parseSvg, serializeSvg, SvgElement } from './svg-tree'
+import { CanvasBounds, CanvasNormalization } from './types'
+
+// Normalization of exported SVGs onto the icon canvas. Figma exports a node's own bounds as the
+// viewBox, so a 20×18 vector comes out with viewBox="0 0 20 18" while the components always
+// render it at 24×24. The exported box is scaled uniformly to fit the canvas minus the padding,
+// centered, and the transform is baked into the coordinates, stroke widths included. Shapes
+// with clip paths, masks, filters or gradients keep it as their own transform instead, so what
+// they reference is scaled with them (svg-transforms.ts).
+export interface CanvasOptions {
+  size: number // Width and height of the canvas
+  padding: number // Minimum space around the geometry, in canvas units
+}
+
+export interface CanvasNormalizationResult {
+  svg: string
+  canvas?: CanvasNormalization // Left out when the SVG already was on the canvas
+}
+
+// Frames and components are the designer's canvas, so their own padding is kept and scaled with
+// them; bare vectors and boolean operations are their geometry's bounds, so they get SVG_CONFIG's padding
+export function getCanvasOptions(node: { type: string }, size = SVG_CONFIG.CANVAS_SIZE): CanvasOptions {
+  const isFramed = node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE'
+  return { size, padding: isFramed ? 0 : SVG_CONFIG.CANVAS_PADDING }
+}
+
+// The viewBox of the <svg>, or its width and height when it has none
+function getViewBox(root: SvgElement): CanvasBounds | null {
+  const viewBox = getAttribute(root, 'viewBox')
+  if (viewBox !== null) {
+    const values = viewBox.trim().split(/[\s,]+/).map(Number)
+    if (values.length === 4 && values.every(isFinite) && values[2] > 0 && values[3] > 0) {
+      return { x: values[0], y: values[1], width: values[2], height: values[3] }
+    }
+    return null
+  }
+  const width = parseFloat(getAttribute(root, 'width') || '')
+  const height = parseFloat(getAttribute(root, 'height') || '')
+  return width > 0 && height > 0 ? { x: 0, y: 0, width, height } : null
+}
+
+export function normalizeSvgCanvas(svg: string, options: CanvasOptions): CanvasNormalizationResult {
+  const root = parseSvg(svg)
+  const original = root && getViewBox(root)
+  if (!root || !original) {
+    console.warn('Could not read the SVG\'s viewBox; keeping it on its own canvas')
+    return { svg }
+  }
+  const { size, padding } = options
+  if (original.x === 0 && original.y === 0 && original.width === size && original.height === size) {
+    return { svg }
+  }
+
+  const available = Math.max(size - 2 * padding, 1)
+  const scale = Math.min(available / original.width, available / original.height)
+  const normalized: CanvasBounds = {
+    x: (size - original.width * scale) / 2,
+    y: (size - original.height * scale) / 2,
+    width: original.width * scale,
+    height: original.height * scale
+  }
+  const matrix = [scale, 0, 0, scale, normalized.x - original.x * scale, normalized.y - original.y * scale]
+    .map(value => formatNumber(value, 6))
+
+  const attributes = root.attributes.filter(([name]) => !['viewBox', 'width', 'height'].includes(name))
+  const canvas: SvgElement = {
+    name: 'svg',
+    attributes: [['width', String(size)], ['height', String(size)], ['viewBox', `0 0 ${size} ${size}`], ...attributes],
+    children: [{ name: 'g', attributes: [['transform', `matrix(${matrix.join(' ')})`]], children: root.children }]
+  }
+  return {
+    svg: bakeTransforms(serializeSvg(canvas)),
+    canvas: { size, original, normalized }
+  }
+}
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { optimizeSvg } from './svg-optimizer'
+import { processSvgToReact } from './svgr-processor'
+
+// The dashed stroke can't be outlined, so the path stays stroked and unfilled
+const DASHED_SVG = '<svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">' +
+  '<path d="M4 12H20" stroke="#000000" stroke-width="2" stroke-dasharray="2 2" fill="none"/>' +
+  '</svg>'
+
+beforeEach(() => {
+  // Stroked shapes are reported as not flattened
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('optimizeSvg', () => {
+  it('drops attributes that repeat what a group passes on', () => {
+    const { svg } = optimizeSvg('<svg viewBox="0 0 24 24"><g fill="none" stroke="#000"><path d="M4 12H20" fill="none" stroke="#000"/><path d="M4 4H20"/></g></svg>')
+
+    expect(svg).toBe('<svg viewBox="0 0 24 24"><g fill="none" stroke="#000"><path d="M4 12h16"/><path d="M4 4h16"/></g></svg>')
+  })
+
+  it('keeps the fills that repeat the root <svg>, which the generated components replace', () => {
+    const { svg } = optimizeSvg(DASHED_SVG)
+    const { reactCode, outputs } = processSvgToReact(svg, 'dashed-line')
+
+    expect(svg).toContain('fill="none"/>')
+    expect(reactCode).toContain('fill="none"')
+    expect(reactCode).toContain('strokeDasharray="2 2"')
+    expect(outputs!.vue).toContain('fill="none"')
+    expect(outputs!.svg).toContain('fill="none"')
+  })
+
+  it('keeps black fills under a root <svg> without a fill, which would otherwise become currentColor', () => {
+    const { svg } = optimizeSvg('<svg width="24" height="24" viewBox="0 0 24 24"><path d="M2 2H22V22Z" fill="black"/><path d="M2 2H4V4Z" fill="#F00"/></svg>')
+    const { reactCode } = processSvgToReact(svg, 'black-square', { colorMode: 'original' })
+
+    expect(reactCode).toContain('fill="black"')
+  })
+})
@@ -0,0 +1,442 @@
+import { SVG_CONFIG } from './config'
+import { utf8Encode } from './hash'
+import { formatNumber, normalizePathCommands, parsePathCommands, PathCommand, PathSegment, Point } from './path-data'
+import { getAttribute, parseSvg, serializeSvg, SvgElement, SvgNode } from './svg-tree'
+import { SvgOptimizationStats } from './types'
+
+// An SVGO-like pass over exported SVG markup, run before code generation. It works on the
+// markup itself because the main thread has no DOMParser. It does the following:
+//   - rounds coordinates to `precision` decimals (in viewBox units)
+//   - writes path data with relative, shorthand and implicit commands where they are shorter
+//   - merges sibling paths with identical attributes whose bounds don't overlap
+//   - drops empty paths, shapes, groups and defs
+//   - drops attributes that repeat the default or inherited value
+// Every rewritten path is parsed again and compared with the original: if any point moved by
+// more than half a unit of the last kept decimal, the original path data is kept. Because a
+// curve stays within the hull of its control points, no part of the outline moves further.
+export interface SvgOptimizationOptions {
+  precision: number
+}
+
+export interface SvgOptimizationResult {
+  svg: string
+  stats: SvgOptimizationStats
+}
+
+interface OptimizationContext {
+  precision: number
+  inherited: { [property: string]: string | null } // Inheritable properties set by ancestors; null when it can't be known
+  isLossless: boolean // Coordinates are transformed or relative to a bounding box, so rounding isn't safe
+  hasStyles: boolean // CSS may set properties, so attribute values can't be compared
+}
+
+// Initial values of inherited properties; an attribute repeating the inherited value is redundant
+const INHERITED_DEFAULTS: { [property: string]: string[] } = {
+  'fill': ['black', '#000', '#000000'],
+  'fill-opacity': ['1'],
+  'fill-rule': ['nonzero'],
+  'clip-rule': ['nonzero'],
+  'stroke': ['none'],
+  'stroke-width': ['1'],
+  'stroke-opacity': ['1'],
+  'stroke-linecap': ['butt'],
+  'stroke-linejoin': ['miter'],
+  'stroke-miterlimit': ['4'],
+  'stroke-dasharray': ['none'],
+  'stroke-dashoffset': ['0'],
+  'visibility': ['visible']
+}
+
+const NON_INHERITED_DEFAULTS: { [property: string]: string[] } = {
+  'opacity': ['1']
+}
+
+const GEOMETRY_ATTRIBUTES: { [element: string]: string[] } = {
+  rect: ['x', 'y', 'width', 'height', 'rx', 'ry'],
+  circle: ['cx', 'cy', 'r'],
+  ellipse: ['cx', 'cy', 'rx', 'ry'],
+  line: ['x1', 'y1', 'x2', 'y2']
+}
+
+// Position attributes that default to 0
+const ZERO_DEFAULTS: { [element: string]: string[] } = {
+  rect: ['x', 'y'],
+  circle: ['cx', 'cy'],
+  ellipse: ['cx', 'cy'],
+  line: ['x1', 'y1', 'x2', 'y2']
+}
+
+// Elements whose content is scaled by their own coordinate system
+const SCALED_ELEMENTS = ['svg', 'symbol', 'marker', 'pattern']
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/
+
+function hasStylesheet(node: SvgNode): boolean {
+  return typeof node !== 'string' && (node.name === 'style' || node.children.some(hasStylesheet))
+}
+
+// Numbers without a leading zero ("-.5")
+function formatCompactNumber(value: number, precision: number): string {
+  return formatNumber(value, precision).replace(/^(-?)0\./, '$1.')
+}
+
+function roundValue(value: number, precision: number): number {
+  return Number(value.toFixed(precision))
+}
+
+function roundPoint(point: Point, precision: number): Point {
+  return { x: roundValue(point.x, precision), y: roundValue(point.y, precision) }
+}
+
+function roundCommands(commands: PathCommand[], precision: number): PathCommand[] {
+  return commands.map((command): PathCommand => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { type: command.type, to: roundPoint(command.to, precision) }
+      case 'C':
+        return { type: 'C', c1: roundPoint(command.c1, precision), c2: roundPoint(command.c2, precision), to: roundPoint(command.to, precision) }
+      case 'Q':
+        return { type: 'Q', control: roundPoint(command.control, precision), to: roundPoint(command.to, precision) }
+      case 'A':
+        return {
+          ...command,
+          rx: roundValue(command.rx, precision),
+          ry: roundValue(command.ry, precision),
+          rotation: roundValue(command.rotation, precision),
+          to: roundPoint(command.to, precision)
+        }
+      case 'Z':
+        return command
+    }
+  })
+}
+
+function isSameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-9
+}
+
+function isSamePoint(a: Point, b: Point): boolean {
+  return isSameValue(a.x, b.x) && isSameValue(a.y, b.y)
+}
+
+// Write numbers with the fewest separators: none before a sign, or before a
+// leading dot when the previous number already has one
+function appendNumbers(output: string[], numbers: string[], lastNumber: string): string {
+  for (const number of numbers) {
+    const needsSeparator = lastNumber !== '' && !number.startsWith('-') && !(number.startsWith('.') && lastNumber.includes('.'))
+    output.push(needsSeparator ? ` ${number}` : number)
+    lastNumber = number
+  }
+  return lastNumber
+}
+
+function getCandidateLength(letter: string, numbers: string[]): number {
+  const output: string[] = []
+  appendNumbers(output, numbers, '')
+  return letter.length + output.join('').length
+}
+
+// Shortest path data for the commands, with coordinates rounded to `precision` decimals
+export function stringifyPathCommands(commands: PathCommand[], precision: number): string {
+  const rounded = roundCommands(commands, precision)
+  const format = (value: number) => formatCompactNumber(value, precision)
+  const output: string[] = []
+  let lastLetter = ''
+  let lastNumber = ''
+  let current: Point = { x: 0, y: 0 }
+  let subpathStart: Point = { x: 0, y: 0 }
+  let previous: PathCommand | null = null
+
+  for (const command of rounded) {
+    if (command.type === 'Z') {
+      output.push('z')
+      lastLetter = 'z'
+      lastNumber = ''
+      current = subpathStart
+      previous = command
+      continue
+    }
+
+    // Absolute and relative forms of the command: [letter, numbers]
+    const point = (p: Point, relative: boolean) => relative ? [format(p.x - current.x), format(p.y - current.y)] : [format(p.x), format(p.y)]
+    let forms: [string, string[]][]
+    switch (command.type) {
+      case 'M':
+        forms = [['M', point(command.to, false)], ['m', point(command.to, true)]]
+        break
+      case 'L':
+        if (isSameValue(command.to.y, current.y)) {
+          forms = [['H', [format(command.to.x)]], ['h', [format(command.to.x - current.x)]]]
+        } else if (isSameValue(command.to.x, current.x)) {
+          forms = [['V', [format(command.to.y)]], ['v', [format(command.to.y - current.y)]]]
+        } else {
+          forms = [['L', point(command.to, false)], ['l', point(command.to, true)]]
+        }
+        break
+      case 'C': {
+        // The first control point can be implied when it reflects the previous curve's second one
+        const reflection = previous && previous.type === 'C'
+          ? { x: 2 * current.x - previous.c2.x, y: 2 * current.y - previous.c2.y }
+          : current
+        forms = isSamePoint(command.c1, reflection)
+          ? [['S', [...point(command.c2, false), ...point(command.to, false)]], ['s', [...point(command.c2, true), ...point(command.to, true)]]]
+          : [
+              ['C', [...point(command.c1, false), ...point(command.c2, false), ...point(command.to, false)]],
+              ['c', [...point(command.c1, true), ...point(command.c2, true), ...point(command.to, true)]]
+            ]
+        break
+      }
+      case 'Q': {
+        const reflection = previous && previous.type === 'Q'
+          ? { x: 2 * current.x - previous.control.x, y: 2 * current.y - previous.control.y }
+          : current
+        forms = isSamePoint(command.control, reflection)
+          ? [['T', point(command.to, false)], ['t', point(command.to, true)]]
+          : [
+              ['Q', [...point(command.control, false), ...point(command.to, false)]],
+              ['q', [...point(command.control, true), ...point(command.to, true)]]
+            ]
+        break
+      }
+      case 'A': {
+        const shape = [format(command.rx), format(command.ry), format(command.rotation), command.largeArc ? '1' : '0', command.sweep ? '1' : '0']
+        forms = [['A', [...shape, ...point(command.to, false)]], ['a', [...shape, ...point(command.to, true)]]]
+        break
+      }
+    }
+
+    // Prefer the relative form on ties, except for movetos, like SVGO
+    const relativeLength = getCandidateLength(...forms[1])
+    const absoluteLength = getCandidateLength(...forms[0])
+    const isRelative = command.type === 'M' ? relativeLength < absoluteLength : relativeLength <= absoluteLength
+    const [letter, numbers] = isRelative ? forms[1] : forms[0]
+
+    // Repeated commands, and linetos after a moveto, can leave out their letter
+    const isImplicit = (letter === lastLetter && letter.toUpperCase() !== 'M') ||
+      (lastLetter === 'M' && letter === 'L') || (lastLetter === 'm' && letter === 'l')
+    if (!isImplicit) {
+      output.push(letter)
+      lastNumber = ''
+    }
+    lastNumber = appendNumbers(output, numbers, lastNumber)
+    lastLetter = letter
+
+    if (command.type === 'M') {
+      subpathStart = command.to
+    }
+    current = command.to
+    previous = command
+  }
+
+  return output.join('')
+}
+
+// Whether every point of the optimized path is within `tolerance` of the original
+function isWithinTolerance(original: PathSegment[], optimized: PathSegment[], tolerance: number): boolean {
+  if (original.length !== optimized.length) {
+    return false
+  }
+  const isClose = (a: Point, b: Point) => Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance
+  return original.every((segment, index) => {
+    const other = optimized[index]
+    if (segment.type !== other.type) {
+      return false
+    }
+    if (segment.type === 'Z' || other.type === 'Z') {
+      return true
+    }
+    if (segment.type === 'C' && other.type === 'C' && !(isClose(segment.c1, other.c1) && isClose(segment.c2, other.c2))) {
+      return false
+    }
+    return isClose(segment.to, other.to)
+  })
+}
+
+// Optimized path data, or null if it doesn't stay close enough to the original
+function optimizePathCommands(commands: PathCommand[], precision: number): string | null {
+  const d = stringifyPathCommands(commands, precision)
+  const tolerance = 0.5 * Math.pow(10, -precision) + 1e-7
+  return isWithinTolerance(normalizePathCommands(commands), normalizePathCommands(parsePathCommands(d)), tolerance) ? d : null
+}
+
+function getBounds(commands: PathCommand[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  for (const segment of normalizePathCommands(commands)) {
+    // Control points bound the curve
+    const points = segment.type === 'C' ? [segment.c1, segment.c2, segment.to] : segment.type === 'Z' ? [] : [segment.to]
+    for (const point of points) {
+      bounds.minX = Math.min(bounds.minX, point.x)
+      bounds.minY = Math.min(bounds.minY, point.y)
+      bounds.maxX = Math.max(bounds.maxX, point.x)
+      bounds.maxY = Math.max(bounds.maxY, point.y)
+    }
+  }
+  return bounds
+}
+
+function boundsOverlap(a: PathCommand[], b: PathCommand[]): boolean {
+  const first = getBounds(a)
+  const second = getBounds(b)
+  return first.minX <= second.maxX && second.minX <= first.maxX && first.minY <= second.maxY && second.minY <= first.maxY
+}
+
+// Paths can be merged when drawing them together paints exactly what drawing them one by one
+// did: same attributes, only filled with a plain color, and no overlap where fill rules or
+// opacity could make a difference
+function canMergePaths(first: SvgElement, second: SvgElement, context: OptimizationContext): boolean {
+  if (context.hasStyles || context.isLossless) {
+    return false
+  }
+  const others = (element: SvgElement) => element.attributes.filter(([name]) => name !== 'd')
+  const firstAttributes = others(first)
+  const secondAttributes = others(second)
+  if (firstAttributes.length !== secondAttributes.length ||
+    !firstAttributes.every(([name, value]) => getAttribute(second, name) === value)) {
+    return false
+  }
+  // Gradients, clip paths, masks and filters depend on the bounding box of the element
+  if (firstAttributes.some(([name, value]) => value.includes('url(') || ['id', 'class', 'style', 'filter', 'mask', 'clip-path', 'transform'].includes(name) || name.startsWith('marker'))) {
+    return false
+  }
+  const stroke = getAttribute(first, 'stroke') ?? context.inherited['stroke'] ?? 'none'
+  const fill = getAttribute(first, 'fill') ?? context.inherited['fill'] ?? ''
+  return stroke === 'none' && !fill.includes('url(') && first.children.length === 0 && second.children.length === 0
+}
+
+function isDefaultAttribute(element: SvgElement, name: string, value: string, context: OptimizationContext): boolean {
+  if (name in INHERITED_DEFAULTS) {
+    if (context.hasStyles) {
+      return false
+    }
+    const inherited = context.inherited[name]
+    if (inherited === null) {
+      return false
+    }
+    return inherited !== undefined ? inherited === value : INHERITED_DEFAULTS[name].includes(value)
+  }
+  if (name in NON_INHERITED_DEFAULTS) {
+    return NON_INHERITED_DEFAULTS[name].includes(value)
+  }
+  return (ZERO_DEFAULTS[element.name] || []).includes(name) && NUMBER_PATTERN.test(value) && Number(value) === 0
+}
+
+// Shapes that render nothing
+function isEmptyElement(element: SvgElement): boolean {
+  const length = (name: string) => {
+    const value = getAttribute(element, name)
+    return value !== null && NUMBER_PATTERN.test(value) ? Number(value) : null
+  }
+  switch (element.name) {
+    case 'path':
+      return !parsePathCommands(getAttribute(element, 'd') || '').some(command => command.type !== 'M')
+    case 'rect':
+      return length('width') === 0 || length('height') === 0
+    case 'circle':
+      return length('r') === 0 || getAttribute(element, 'r') === null
+    case 'ellipse':
+      return length('rx') === 0 || length('ry') === 0
+    case 'polygon':
+    case 'polyline':
+      return !/\d/.test(getAttribute(element, 'points') || '')
+    case 'g':
+    case 'defs':
+      return element.children.length === 0
+    default:
+      return false
+  }
+}
+
+function optimizeElement(element: SvgElement, context: OptimizationContext, isRoot: boolean): SvgElement | null {
+  const isLossless = context.isLossless ||
+    element.attributes.some(([name, value]) => name === 'transform' || (name.endsWith('Units') && name !== 'markerUnits' && value === 'objectBoundingBox')) ||
+    (!isRoot && SCALED_ELEMENTS.includes(element.name))
+  const precision = context.precision
+  const geometry = GEOMETRY_ATTRIBUTES[element.name] || []
+
+  const attributes: [string, string][] = []
+  for (const [name, value] of element.attributes) {
+    let optimized = value
+    if (!isLossless && geometry.includes(name) && NUMBER_PATTERN.test(value.trim())) {
+      optimized = formatCompactNumber(Number(value), precision)
+    } else if (!isLossless && name === 'points' && (element.name === 'polygon' || element.name === 'polyline')) {
+      const numbers = (value.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) || []).map(number => formatCompactNumber(Number(number), precision))
+      const output: string[] = []
+      appendNumbers(output, numbers, '')
+      optimized = output.join('')
+    } else if (!isLossless && name === 'd' && element.name === 'path') {
+      optimized = optimizePathCommands(parsePathCommands(value), precision) ?? value
+    }
+    if (!isDefaultAttribute(element, name, optimized.trim(), context)) {
+      attributes.push([name, optimized])
+    }
+  }
+
+  // Properties this element passes on to its children. The generated components replace the
+  // root <svg> and its attributes with their own, which sets fill="currentColor", so the root
+  // passes nothing on, and a fill on its children is never redundant.
+  const inherited: OptimizationContext['inherited'] = isRoot ? { fill: null } : { ...context.inherited }
+  for (const [name, value] of isRoot ? [] : element.attributes) {
+    if (name in INHERITED_DEFAULTS) {
+      inherited[name] = value.trim()
+    }
+  }
+  const childContext: OptimizationContext = {
+    precision,
+    inherited,
+    isLossless,
+    hasStyles: context.hasStyles || getAttribute(element, 'style') !== null
+  }
+
+  const children: SvgNode[] = []
+  for (const child of element.children) {
+    if (typeof child === 'string') {
+      children.push(child)
+      continue
+    }
+    const optimized = optimizeElement(child, childContext, false)
+    if (!optimized) {
+      continue
+    }
+
+    const previous = children[children.length - 1]
+    if (optimized.name === 'path' && previous && typeof previous !== 'string' && previous.name === 'path' &&
+      canMergePaths(previous, optimized, childContext)) {
+      const previousCommands = parsePathCommands(getAttribute(previous, 'd') || '')
+      const commands = parsePathCommands(getAttribute(optimized, 'd') || '')
+      const merged = boundsOverlap(previousCommands, commands) ? null : optimizePathCommands([...previousCommands, ...commands], precision)
+      if (merged !== null) {
+        previous.attributes = previous.attributes.map(([name, value]): [string, string] => [name, name === 'd' ? merged : value])
+        continue
+      }
+    }
+    children.push(optimized)
+  }
+
+  const result: SvgElement = { name: element.name, attributes, children }
+  return !isRoot && isEmptyElement(result) ? null : result
+}
+
+export function optimizeSvg(svg: string, options: SvgOptimizationOptions = { precision: SVG_CONFIG.PRECISION }): SvgOptimizationResult {
+  const originalBytes = utf8Encode(svg).length
+  const unchanged = { svg, stats: { originalBytes, optimizedBytes: originalBytes, precision: options.precision } }
+
+  const root = parseSvg(svg)
+  if (!root) {
+    console.warn('Could not parse SVG for optimization; keeping it as exported')
+    return unchanged
+  }
+
+  const optimized = optimizeElement(root, {
+    precision: options.precision,
+    inherited: {},
+    isLossless: false,
+    hasStyles: hasStylesheet(root)
+  }, true)
+  const optimizedSvg = optimized ? serializeSvg(optimized) : svg
+  const optimizedBytes = utf8Encode(optimizedSvg).length
+  if (optimizedBytes >= originalBytes) {
+    return unchanged
+  }
+  return { svg: optimizedSvg, stats: { originalBytes, optimizedBytes, precision: options.precision } }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+
+import { parsePathData, PathSegment, Point } from './path-data'
+import { getShapePathData, ShapeElement } from './svg-shapes'
+import { outlineStrokes } from './svg-strokes'
+import { getAttribute, parseSvg, SvgElement } from './svg-tree'
+
+// One of each basic shape, with the bounds of the area it covers
+const FIXTURES: { markup: string; bounds: Bounds }[] = [
+  { markup: '<rect x="2" y="3" width="10" height="8"/>', bounds: { minX: 2, minY: 3, maxX: 12, maxY: 11 } },
+  { markup: '<rect x="2" y="3" width="10" height="8" rx="3" ry="2"/>', bounds: { minX: 2, minY: 3, maxX: 12, maxY: 11 } },
+  { markup: '<circle cx="12" cy="12" r="5"/>', bounds: { minX: 7, minY: 7, maxX: 17, maxY: 17 } },
+  { markup: '<ellipse cx="12" cy="10" rx="8" ry="4"/>', bounds: { minX: 4, minY: 6, maxX: 20, maxY: 14 } },
+  { markup: '<line x1="4" y1="20" x2="20" y2="4"/>', bounds: { minX: 4, minY: 4, maxX: 20, maxY: 20 } },
+  { markup: '<polyline points="3 18 9 6 15 14 21 2"/>', bounds: { minX: 3, minY: 2, maxX: 21, maxY: 18 } },
+  { markup: '<polygon points="12,2 22,20 2,20"/>', bounds: { minX: 2, minY: 2, maxX: 22, maxY: 20 } }
+]
+
+interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+function parseShape(markup: string): SvgElement {
+  return parseSvg(`<svg>${markup}</svg>`)!.children[0] as SvgElement
+}
+
+function asShapeElement(element: SvgElement): ShapeElement {
+  return { tagName: element.name, getAttribute: name => getAttribute(element, name) }
+}
+
+function getPathData(markup: string): string {
+  const pathData = getShapePathData(asShapeElement(parseShape(markup)))
+  expect(pathData).not.toBeNull()
+  return pathData!
+}
+
+function cubicPoint(from: Point, c1: Point, c2: Point, to: Point, t: number): Point {
+  const u = 1 - t
+  return {
+    x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * to.x,
+    y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * to.y
+  }
+}
+
+// Points along the outline: every vertex, and curves sampled finely
+function samplePoints(segments: PathSegment[]): Point[] {
+  const points: Point[] = []
+  let current: Point = { x: 0, y: 0 }
+  for (const segment of segments) {
+    if (segment.type === 'C') {
+      for (let step = 1; step <= 32; step++) {
+        points.push(cubicPoint(current, segment.c1, segment.c2, segment.to, step / 32))
+      }
+    } else if (segment.type !== 'Z') {
+      points.push(segment.to)
+    }
+    current = segment.type === 'Z' ? current : segment.to
+  }
+  return points
+}
+
+function getBounds(points: Point[]): Bounds {
+  return {
+    minX: Math.min(...points.map(point => point.x)),
+    minY: Math.min(...points.map(point => point.y)),
+    maxX: Math.max(...points.map(point => point.x)),
+    maxY: Math.max(...points.map(point => point.y))
+  }
+}
+
+function expectBounds(actual: Bounds, expected: Bounds) {
+  expect(actual.minX).toBeCloseTo(expected.minX, 2)
+  expect(actual.minY).toBeCloseTo(expected.minY, 2)
+  expect(actual.maxX).toBeCloseTo(expected.maxX, 2)
+  expect(actual.maxY).toBeCloseTo(expected.maxY, 2)
+}
+
+describe('getShapePathData', () => {
+  it.each(FIXTURES)('covers the whole of $markup', ({ markup, bounds }) => {
+    expectBounds(getBounds(samplePoints(parsePathData(getPathData(markup)))), bounds)
+  })
+
+  it('draws a rect without radii as its four corners', () => {
+    expect(getPathData('<rect x="2" y="3" width="10" height="8"/>')).toBe('M2 3H12V11H2Z')
+  })
+
+  it('rounds the corners of a rect with the radii on each axis', () => {
+    const points = samplePoints(parsePathData(getPathData('<rect x="2" y="3" width="10" height="8" rx="3" ry="2"/>')))
+    // The top left corner follows an ellipse around (5, 5) and never reaches the corner point
+    const corner = points.filter(point => point.x < 5 && point.y < 5)
+    expect(corner.length).toBeGreaterThan(0)
+    for (const point of corner) {
+      expect(((point.x - 5) / 3) ** 2 + ((point.y - 5) / 2) ** 2).toBeCloseTo(1, 2)
+    }
+    expect(points).not.toContainEqual({ x: 2, y: 3 })
+  })
+
+  it('takes a missing rect radius from the other one and clamps both to half the side', () => {
+    expect(getPathData('<rect width="10" height="4" rx="2"/>')).toBe(getPathData('<rect width="10" height="4" rx="2" ry="2"/>'))
+    expect(getPathData('<rect width="10" height="4" ry="6"/>')).toBe(getPathData('<rect width="10" height="4" rx="5" ry="2"/>'))
+  })
+
+  it('keeps every point of a circle and an ellipse on the curve', () => {
+    for (const point of samplePoints(parsePathData(getPathData('<circle cx="12" cy="12" r="5"/>')))) {
+      expect(Math.hypot(point.x - 12, point.y - 12)).toBeCloseTo(5, 2)
+    }
+    for (const point of samplePoints(parsePathData(getPathData('<ellipse cx="12" cy="10" rx="8" ry="4"/>')))) {
+      expect(((point.x - 12) / 8) ** 2 + ((point.y - 10) / 4) ** 2).toBeCloseTo(1, 2)
+    }
+  })
+
+  it('keeps every point of a polyline open and closes a polygon', () => {
+    expect(getPathData('<line x1="4" y1="20" x2="20" y2="4"/>')).toBe('M4 20L20 4')
+    expect(getPathData('<polyline points="3 18 9 6 15 14 21 2"/>')).toBe('M3 18L9 6L15 14L21 2')
+    expect(getPathData('<polygon points="12,2 22,20 2,20"/>')).toBe('M12 2L22 20L2 20Z')
+    // An odd trailing coordinate has no pair
+    expect(getPathData('<polyline points="3 18 9 6 15"/>')).toBe('M3 18L9 6')
+  })
+
+  it('returns null for shapes that render nothing', () => {
+    for (const markup of ['<rect width="0" height="8"/>', '<circle r="0"/>', '<ellipse rx="4"/>', '<polygon points=""/>', '<g/>']) {
+      expect(getShapePathData(asShapeElement(parseShape(markup)))).toBeNull()
+    }
+  })
+})
+
+describe('outlined shapes', () => {
+  it.each(FIXTURES)('outline the stroke of $markup around the whole shape', ({ markup, bounds }) => {
+    const svg = outlineStrokes(`<svg viewBox="0 0 24 24" fill="none" stroke="#000" stroke-width="2" stroke-linecap="square">${markup}</svg>`)
+    const outlines = parseSvg(svg)!.children as SvgElement[]
+
+    expect(outlines).toHaveLength(1)
+    expect(outlines[0].name).toBe('path')
+    expect(getAttribute(outlines[0], 'fill')).toBe('#000')
+    expect(getAttribute(outlines[0], 'stroke')).toBe('none')
+    // Square caps and miter joins reach at least half the stroke width past every side
+    const outlineBounds = getBounds(samplePoints(parsePathData(getAttribute(outlines[0], 'd')!)))
+    expect(outlineBounds.minX).toBeLessThanOrEqual(bounds.minX - 1 + 0.01)
+    expect(outlineBounds.minY).toBeLessThanOrEqual(bounds.minY - 1 + 0.01)
+    expect(outlineBounds.maxX).toBeGreaterThanOrEqual(bounds.maxX + 1 - 0.01)
+    expect(outlineBounds.maxY).toBeGreaterThanOrEqual(bounds.maxY + 1 - 0.01)
+  })
+
+  it.each(FIXTURES.filter(({ markup }) => !markup.startsWith('<line')))('keep the fill of $markup under its stroke outline', ({ markup }) => {
+    const svg = outlineStrokes(`<svg viewBox="0 0 24 24" stroke="#000" stroke-width="2">${markup}</svg>`)
+    const [shape, outline] = parseSvg(svg)!.children as SvgElement[]
+
+    expect(shape.name).toBe(parseShape(markup).name)
+    expect(getAttribute(shape, 'stroke')).toBe('none')
+    expect(outline.name).toBe('path')
+  })
+})
@@ -0,0 +1,100 @@
+// Path data equivalent to each basic SVG shape, following the SVG 2 shape definitions
+// (start points and directions included, so dashes and markers would line up the same way)
+export const SHAPE_TAGS = ['path', 'line', 'circle', 'ellipse', 'rect', 'polygon', 'polyline']
+
+// What shape conversion needs from an element; DOM elements and parsed markup (svg-tree.ts) both fit
+export interface ShapeElement {
+  tagName: string
+  getAttribute(name: string): string | null
+}
+
+function getLength(element: ShapeElement, name: string): number {
+  const value = parseFloat(element.getAttribute(name) || '0')
+  return isNaN(value) ? 0 : value
+}
+
+// Pairs of coordinates from a `points` attribute; an odd trailing number is ignored
+function parsePoints(points: string): [number, number][] {
+  const numbers = (points.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) || []).map(Number)
+  const pairs: [number, number][] = []
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    pairs.push([numbers[i], numbers[i + 1]])
+  }
+  return pairs
+}
+
+function ellipsePathData(cx: number, cy: number, rx: number, ry: number): string {
+  // Four quarter arcs, clockwise from the rightmost point
+  return `M${cx + rx} ${cy}` +
+    `A${rx} ${ry} 0 0 1 ${cx} ${cy + ry}` +
+    `A${rx} ${ry} 0 0 1 ${cx - rx} ${cy}` +
+    `A${rx} ${ry} 0 0 1 ${cx} ${cy - ry}` +
+    `A${rx} ${ry} 0 0 1 ${cx + rx} ${cy}Z`
+}
+
+function rectPathData(element: ShapeElement): string | null {
+  const x = getLength(element, 'x')
+  const y = getLength(element, 'y')
+  const width = getLength(element, 'width')
+  const height = getLength(element, 'height')
+  if (width <= 0 || height <= 0) {
+    return null
+  }
+
+  // A missing, `auto` or negative radius takes the other one; both are clamped to half the side
+  const getRadius = (name: string): number | null => {
+    const value = parseFloat(element.getAttribute(name) || '')
+    return isNaN(value) || value < 0 ? null : value
+  }
+  const rxValue = getRadius('rx')
+  const ryValue = getRadius('ry')
+  const rx = Math.min(rxValue ?? ryValue ?? 0, width / 2)
+  const ry = Math.min(ryValue ?? rxValue ?? 0, height / 2)
+
+  if (rx <= 0 || ry <= 0) {
+    return `M${x} ${y}H${x + width}V${y + height}H${x}Z`
+  }
+  return `M${x + rx} ${y}` +
+    `H${x + width - rx}A${rx} ${ry} 0 0 1 ${x + width} ${y + ry}` +
+    `V${y + height - ry}A${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}` +
+    `H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + height - ry}` +
+    `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`
+}
+
+// Path data of a shape element, or null if it isn't a shape or renders nothing
+export function getShapePathData(element: ShapeElement): string | null {
+  switch (element.tagName.toLowerCase()) {
+    case 'path':
+      return element.getAttribute('d') || null
+
+    case 'line':
+      return `M${getLength(element, 'x1')} ${getLength(element, 'y1')}L${getLength(element, 'x2')} ${getLength(element, 'y2')}`
+
+    case 'circle': {
+      const r = getLength(element, 'r')
+      return r > 0 ? ellipsePathData(getLength(element, 'cx'), getLength(element, 'cy'), r, r) : null
+    }
+
+    case 'ellipse': {
+      const rx = getLength(element, 'rx')
+      const ry = getLength(element, 'ry')
+      return rx > 0 && ry > 0 ? ellipsePathData(getLength(element, 'cx'), getLength(element, 'cy'), rx, ry) : null
+    }
+
+    case 'rect':
+      return rectPathData(element)
+
+    case 'polygon':
+    case 'polyline': {
+      const points = parsePoints(element.getAttribute('points') || '')
+      if (points.length === 0) {
+        return null
+      }
+      const pathData = points.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x} ${y}`).join('')
+      return element.tagName.toLowerCase() === 'polygon' ? `${pathData}Z` : pathData
+    }
+
+    default:
+      return null
+  }
+}
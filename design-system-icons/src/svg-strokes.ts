@@ -0,0 +1,143 @@
+import { parsePathData, serializePathData } from './path-data'
+import { StrokeStyle, strokePath } from './path-stroker'
+import { getShapePathData, SHAPE_TAGS } from './svg-shapes'
+import { getAttribute, parseSvg, serializeSvg, SvgElement, SvgNode } from './svg-tree'
+
+// Stroke outlining for exported SVGs, run before optimization, so icons drawn with strokes are
+// delivered as filled shapes, as Figma's outlineStroke() would draw them. Each stroked shape is
+// followed by a path filled with its stroke's paint; the shape keeps its fill and loses its stroke.
+// Strokes that the stroker can't reproduce are kept as they are: dashed strokes, non-scaling
+// strokes, and strokes that CSS may set.
+
+// Properties that outlining reads or replaces, inherited from groups and the root <svg>
+const INHERITED_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'fill-rule',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-miterlimit',
+  'stroke-dasharray',
+  'stroke-dashoffset'
+]
+
+const STROKE_PROPERTIES = INHERITED_PROPERTIES.filter(property => property.startsWith('stroke'))
+
+// Attributes the outline shares with its shape, so it is positioned, clipped and faded the same way
+const SHARED_ATTRIBUTES = ['transform', 'opacity', 'clip-path', 'mask', 'filter', 'visibility']
+
+// Clip paths ignore strokes, and the other definitions are drawn where they are used
+const DEFINITION_TAGS = ['defs', 'clipPath', 'mask', 'pattern', 'symbol', 'marker']
+
+type Properties = { [property: string]: string }
+
+function isPainted(paint: string | undefined): boolean {
+  return paint !== undefined && paint !== 'none' && paint !== 'transparent'
+}
+
+function getStrokeStyle(properties: Properties): StrokeStyle {
+  const lineCap = properties['stroke-linecap']
+  const lineJoin = properties['stroke-linejoin']
+  const miterLimit = parseFloat(properties['stroke-miterlimit'] || '4')
+  return {
+    width: parseFloat(properties['stroke-width'] || '1'),
+    lineCap: lineCap === 'round' || lineCap === 'square' ? lineCap : 'butt',
+    // miter-clip and arcs aren't supported by Figma either; they fall back to miter
+    lineJoin: lineJoin === 'round' || lineJoin === 'bevel' ? lineJoin : 'miter',
+    miterLimit: miterLimit >= 1 ? miterLimit : 4
+  }
+}
+
+function canOutline(element: SvgElement, properties: Properties): boolean {
+  const dashArray = properties['stroke-dasharray']
+  return (dashArray === undefined || dashArray === 'none') &&
+    getAttribute(element, 'vector-effect') !== 'non-scaling-stroke' &&
+    !/%|em|ex/.test(properties['stroke-width'] || '')
+}
+
+// The shape and the outline of its stroke in its place, or null if the shape has no stroke to outline
+function outlineShape(element: SvgElement, inherited: Properties, properties: Properties): SvgElement[] | null {
+  if (!isPainted(properties.stroke) || !canOutline(element, properties)) {
+    return null
+  }
+  const pathData = getShapePathData({ tagName: element.name, getAttribute: name => getAttribute(element, name) })
+  const style = getStrokeStyle(properties)
+  const outline = pathData && style.width > 0 ? serializePathData(strokePath(parsePathData(pathData), style)) : ''
+
+  // Lines have no interior; everything else is filled black unless told otherwise
+  const isFilled = element.name !== 'line' && (properties.fill === undefined || isPainted(properties.fill))
+  // A group's stroke would still reach the shape and its outline
+  const noStroke: [string, string][] = isPainted(inherited.stroke) ? [['stroke', 'none']] : []
+  const shape: SvgElement = {
+    ...element,
+    attributes: [
+      ...element.attributes.filter(([name]) => !STROKE_PROPERTIES.includes(name)),
+      ...noStroke
+    ]
+  }
+  const outlinePath: SvgElement = {
+    name: 'path',
+    attributes: [
+      ['d', outline],
+      ['fill', properties.stroke],
+      ...(properties['stroke-opacity'] !== undefined || inherited['fill-opacity'] !== undefined
+        ? [['fill-opacity', properties['stroke-opacity'] || '1'] as [string, string]]
+        : []),
+      // Outlines of overlapping stroke parts are separate contours, which evenodd would cut holes into
+      ...(inherited['fill-rule'] === 'evenodd' ? [['fill-rule', 'nonzero'] as [string, string]] : []),
+      ...noStroke,
+      ...element.attributes.filter(([name]) => SHARED_ATTRIBUTES.includes(name))
+    ],
+    children: []
+  }
+  return [...(isFilled ? [shape] : []), ...(outline ? [outlinePath] : [])]
+}
+
+// The inherited properties with the element's own ones applied
+function getProperties(element: SvgElement, inherited: Properties): Properties {
+  const properties = { ...inherited }
+  for (const [name, value] of element.attributes) {
+    if (INHERITED_PROPERTIES.includes(name)) {
+      properties[name] = value.trim()
+    }
+  }
+  return properties
+}
+
+function outlineChildren(element: SvgElement, inherited: Properties): SvgElement {
+  const children: SvgNode[] = []
+  for (const child of element.children) {
+    if (typeof child === 'string' || DEFINITION_TAGS.includes(child.name)) {
+      children.push(child)
+      continue
+    }
+    const properties = getProperties(child, inherited)
+    const outlined = SHAPE_TAGS.includes(child.name) ? outlineShape(child, inherited, properties) : null
+    if (outlined) {
+      children.push(...outlined)
+    } else {
+      children.push(child.name === 'g' ? outlineChildren(child, properties) : child)
+    }
+  }
+  return { ...element, children }
+}
+
+function hasStyles(node: SvgNode): boolean {
+  return typeof node !== 'string' &&
+    (node.name === 'style' || getAttribute(node, 'style') !== null || node.children.some(hasStyles))
+}
+
+export function outlineStrokes(svg: string): string {
+  const root = parseSvg(svg)
+  if (!root) {
+    console.warn('Could not parse SVG to outline strokes; keeping it as exported')
+    return svg
+  }
+  if (hasStyles(root)) {
+    return svg
+  }
+  return serializeSvg(outlineChildren(root, getProperties(root, {})))
+}
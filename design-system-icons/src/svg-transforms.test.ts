@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+
+import { bakeTransforms } from './svg-transforms'
+import { getAttribute, parseSvg, SvgElement } from './svg-tree'
+
+// Elements with the name, in document order
+function findElements(svg: string, name: string): SvgElement[] {
+  const visit = (element: SvgElement): SvgElement[] => [
+    ...(element.name === name ? [element] : []),
+    ...element.children.flatMap(child => typeof child === 'string' ? [] : visit(child))
+  ]
+  return visit(parseSvg(svg)!)
+}
+
+const CLIPPED_SVG = '<svg viewBox="0 0 24 24">' +
+  '<defs><clipPath id="c"><rect width="2" height="2"/></clipPath></defs>' +
+  '<g transform="translate(10 0)"><rect width="4" height="4" clip-path="url(#c)"/></g>' +
+  '</svg>'
+
+const GRADIENT_SVG = '<svg viewBox="0 0 24 24">' +
+  '<g transform="scale(1.5)"><path d="M0 0H16V16H0Z" fill="url(#g)"/></g>' +
+  '<defs><linearGradient id="g" x1="0" y1="0" x2="16" y2="16" gradientUnits="userSpaceOnUse">' +
+  '<stop stop-color="#f00"/><stop offset="1" stop-color="#00f"/></linearGradient></defs>' +
+  '</svg>'
+
+describe('bakeTransforms', () => {
+  it('applies group transforms to the coordinates of shapes', () => {
+    const svg = bakeTransforms('<svg viewBox="0 0 24 24"><g transform="translate(10 0)"><rect width="4" height="4"/></g></svg>')
+
+    expect(getAttribute(findElements(svg, 'path')[0], 'd')).toBe('M10 0h4v4h-4z')
+    expect(svg).not.toContain('transform')
+  })
+
+  it('keeps the transform of a shape with a clip path, so the clip moves with it', () => {
+    const svg = bakeTransforms(CLIPPED_SVG)
+    const [clip, shape] = findElements(svg, 'rect')
+
+    // The clip path is laid out in the shape's user space, which still has to be translated
+    expect(getAttribute(shape, 'transform')).toBe('matrix(1 0 0 1 10 0)')
+    expect(getAttribute(shape, 'x')).toBeNull()
+    expect(getAttribute(shape, 'width')).toBe('4')
+    expect(getAttribute(shape, 'clip-path')).toBe('url(#c)')
+    expect(getAttribute(clip, 'width')).toBe('2')
+    expect(getAttribute(clip, 'transform')).toBeNull()
+  })
+
+  it('keeps the transform of a shape with a user space gradient, so the gradient scales with it', () => {
+    const svg = bakeTransforms(GRADIENT_SVG)
+    const [shape] = findElements(svg, 'path')
+
+    expect(getAttribute(shape, 'transform')).toBe('matrix(1.5 0 0 1.5 0 0)')
+    expect(getAttribute(shape, 'd')).toBe('M0 0H16V16H0Z')
+    expect(getAttribute(findElements(svg, 'linearGradient')[0], 'x2')).toBe('16')
+  })
+
+  it('keeps the transform of a shape that inherits a gradient from a dissolved group', () => {
+    const svg = bakeTransforms('<svg viewBox="0 0 24 24"><g transform="scale(1.5)" fill="url(#g)"><path d="M0 0H16V16H0Z"/></g></svg>')
+    const [shape] = findElements(svg, 'path')
+
+    expect(getAttribute(shape, 'transform')).toBe('matrix(1.5 0 0 1.5 0 0)')
+    expect(getAttribute(shape, 'fill')).toBe('url(#g)')
+  })
+})
@@ -0,0 +1,320 @@
+import { SVG_CONFIG } from './config'
+import { formatNumber, normalizePathCommands, parsePathCommands, PathCommand, Point } from './path-data'
+import { stringifyPathCommands } from './svg-optimizer'
+import { getShapePathData, SHAPE_TAGS, ShapeElement } from './svg-shapes'
+import { getAttribute, parseSvg, serializeSvg, SvgElement, SvgNode } from './svg-tree'
+
+// Flattening of nested groups: group transforms are multiplied down and applied to the
+// coordinates of each shape, and the presentation attributes of dissolved groups are copied
+// onto their children, so every shape ends up as a transform-free path directly in <svg>.
+// Groups that clip, mask or filter their content are kept as they are, and shapes that
+// reference a definition keep their transform.
+
+// [a, b, c, d, e, f], as in the SVG matrix() transform: x' = ax + cy + e, y' = bx + dy + f
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+// Properties a dissolved group passes on to its children
+const INHERITED_PROPERTIES = [
+  'fill', 'fill-opacity', 'fill-rule', 'clip-rule', 'color', 'visibility',
+  'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset'
+]
+
+// Attributes that describe the geometry of each shape, replaced by `d` when it's baked
+const GEOMETRY_ATTRIBUTES: { [element: string]: string[] } = {
+  path: ['d'],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  circle: ['cx', 'cy', 'r'],
+  ellipse: ['cx', 'cy', 'rx', 'ry'],
+  rect: ['x', 'y', 'width', 'height', 'rx', 'ry'],
+  polygon: ['points'],
+  polyline: ['points']
+}
+
+// Elements that only define things for others to reference; where they sit doesn't matter
+const DEFINITION_ELEMENTS = ['defs', 'clipPath', 'mask', 'linearGradient', 'radialGradient', 'pattern', 'symbol', 'marker', 'filter', 'style', 'title', 'desc', 'metadata']
+
+interface FlattenContext {
+  matrix: Matrix
+  pushed: { [property: string]: string } // Properties of dissolved groups
+  inherited: { [property: string]: string } // Properties of all ancestors, for the effective stroke
+  opacity: number // Opacity of dissolved groups
+}
+
+// Multiply two matrices: `n` is applied first, then `m`
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ]
+}
+
+// The matrix of a transform attribute, or null if it can't be parsed
+function parseTransform(transform: string): Matrix | null {
+  let matrix = IDENTITY
+  const pattern = /\s*(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)\s*,?/g
+  let consumed = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(transform)) !== null) {
+    if (match.index !== consumed) {
+      return null
+    }
+    consumed = pattern.lastIndex
+    const args = match[2].split(/[\s,]+/).filter(Boolean).map(Number)
+    if (args.some(isNaN)) {
+      return null
+    }
+
+    let next: Matrix
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length !== 6) return null
+        next = args as Matrix
+        break
+      case 'translate':
+        if (args.length < 1 || args.length > 2) return null
+        next = [1, 0, 0, 1, args[0], args[1] || 0]
+        break
+      case 'scale':
+        if (args.length < 1 || args.length > 2) return null
+        next = [args[0], 0, 0, args.length > 1 ? args[1] : args[0], 0, 0]
+        break
+      case 'rotate': {
+        if (args.length !== 1 && args.length !== 3) return null
+        const angle = args[0] * Math.PI / 180
+        const [cx, cy] = args.length === 3 ? [args[1], args[2]] : [0, 0]
+        // Rotate around (cx, cy): translate(cx, cy) rotate(angle) translate(-cx, -cy)
+        next = multiply(
+          multiply([1, 0, 0, 1, cx, cy], [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]),
+          [1, 0, 0, 1, -cx, -cy]
+        )
+        break
+      }
+      case 'skewX':
+        if (args.length !== 1) return null
+        next = [1, 0, Math.tan(args[0] * Math.PI / 180), 1, 0, 0]
+        break
+      default:
+        if (args.length !== 1) return null
+        next = [1, Math.tan(args[0] * Math.PI / 180), 0, 1, 0, 0]
+    }
+    matrix = multiply(matrix, next)
+  }
+  return consumed === transform.length || transform.slice(consumed).trim() === '' ? matrix : null
+}
+
+function isIdentity(matrix: Matrix): boolean {
+  return matrix.every((value, index) => Math.abs(value - IDENTITY[index]) < 1e-12)
+}
+
+function applyToPoint(matrix: Matrix, point: Point): Point {
+  return {
+    x: matrix[0] * point.x + matrix[2] * point.y + matrix[4],
+    y: matrix[1] * point.x + matrix[3] * point.y + matrix[5]
+  }
+}
+
+// The scale factor of a matrix that only translates, rotates, reflects and scales uniformly,
+// or null for skews and non-uniform scales
+function getUniformScale(matrix: Matrix): number | null {
+  const [a, b, c, d] = matrix
+  const xScale = a * a + b * b
+  const yScale = c * c + d * d
+  const tolerance = 1e-9 * Math.max(xScale, yScale, 1)
+  return Math.abs(xScale - yScale) < tolerance && Math.abs(a * c + b * d) < tolerance ? Math.sqrt(xScale) : null
+}
+
+function transformCommands(commands: PathCommand[], matrix: Matrix): PathCommand[] {
+  const scale = getUniformScale(matrix)
+  // Arcs stay arcs under uniform scales; anything else distorts them, so they become cubics first
+  const source: PathCommand[] = scale === null ? normalizePathCommands(commands) : commands
+  const isReflection = matrix[0] * matrix[3] - matrix[1] * matrix[2] < 0
+  return source.map((command): PathCommand => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { type: command.type, to: applyToPoint(matrix, command.to) }
+      case 'C':
+        return { type: 'C', c1: applyToPoint(matrix, command.c1), c2: applyToPoint(matrix, command.c2), to: applyToPoint(matrix, command.to) }
+      case 'Q':
+        return { type: 'Q', control: applyToPoint(matrix, command.control), to: applyToPoint(matrix, command.to) }
+      case 'A': {
+        // The direction of the ellipse's x-axis after the transform
+        const angle = command.rotation * Math.PI / 180
+        const axis = { x: matrix[0] * Math.cos(angle) + matrix[2] * Math.sin(angle), y: matrix[1] * Math.cos(angle) + matrix[3] * Math.sin(angle) }
+        // Rotating an ellipse by 180° changes nothing, and rotating a circle never does
+        const rotation = command.rx === command.ry ? 0 : ((Math.atan2(axis.y, axis.x) * 180 / Math.PI) % 180 + 180) % 180
+        return {
+          type: 'A',
+          rx: command.rx * (scale as number),
+          ry: command.ry * (scale as number),
+          rotation,
+          largeArc: command.largeArc,
+          sweep: isReflection ? !command.sweep : command.sweep,
+          to: applyToPoint(matrix, command.to)
+        }
+      }
+      case 'Z':
+        return command
+    }
+  })
+}
+
+function formatMatrix(matrix: Matrix): string {
+  return `matrix(${matrix.map(value => formatNumber(value, 6)).join(' ')})`
+}
+
+function getInheritedAttributes(element: SvgElement): { [property: string]: string } {
+  const properties: { [property: string]: string } = {}
+  for (const [name, value] of element.attributes) {
+    if (INHERITED_PROPERTIES.includes(name)) {
+      properties[name] = value
+    }
+  }
+  return properties
+}
+
+// The element's attributes plus the properties and opacity of dissolved groups
+function withContextAttributes(element: SvgElement, context: FlattenContext): [string, string][] {
+  const attributes = element.attributes.filter(([name]) => name !== 'transform' && name !== 'opacity')
+  for (const [name, value] of Object.entries(context.pushed)) {
+    if (getAttribute(element, name) === null) {
+      attributes.push([name, value])
+    }
+  }
+  const opacity = parseFloat(getAttribute(element, 'opacity') ?? '1') * context.opacity
+  if (opacity !== 1) {
+    attributes.push(['opacity', formatNumber(opacity, 3)])
+  }
+  return attributes
+}
+
+// Keep an element as it is, with what the dissolved groups around it did in a wrapper group
+function wrapElement(element: SvgElement, context: FlattenContext): SvgNode[] {
+  if (isIdentity(context.matrix) && Object.keys(context.pushed).length === 0 && context.opacity === 1) {
+    return [element]
+  }
+  const wrapper: SvgElement = { name: 'g', attributes: withContextAttributes({ name: 'g', attributes: [], children: [] }, context), children: [element] }
+  if (!isIdentity(context.matrix)) {
+    wrapper.attributes.unshift(['transform', formatMatrix(context.matrix)])
+  }
+  return [wrapper]
+}
+
+function scaleLengths(value: string, scale: number): string {
+  return value.replace(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g, number => formatNumber(Number(number) * scale, SVG_CONFIG.PRECISION))
+}
+
+function bakeShape(element: SvgElement, context: FlattenContext): SvgNode[] {
+  const ownTransform = getAttribute(element, 'transform')
+  const ownMatrix = ownTransform === null ? IDENTITY : parseTransform(ownTransform)
+  if (!ownMatrix) {
+    return wrapElement(element, context)
+  }
+  const matrix = multiply(context.matrix, ownMatrix)
+  const attributes = withContextAttributes(element, context)
+  if (isIdentity(matrix)) {
+    return [{ ...element, attributes }]
+  }
+
+  const property = (name: string) => getAttribute(element, name) ?? context.inherited[name] ?? null
+  const stroke = property('stroke')
+  const isStroked = stroke !== null && stroke !== 'none' && stroke !== 'transparent'
+  const scale = getUniformScale(matrix)
+  // Clip paths, masks, filters and gradients are laid out in the user space of the shape that
+  // references them, so they would stay behind if only the shape's coordinates moved
+  const referencesDefinitions = [...attributes.map(([, value]) => value), property('fill') ?? '', stroke ?? '']
+    .some(value => value.includes('url('))
+  if (referencesDefinitions || (isStroked && scale === null)) {
+    // A skewed or unevenly scaled stroke has no stroke-width equivalent either; keep the transform
+    return [{ ...element, attributes: [['transform', formatMatrix(matrix)], ...attributes] }]
+  }
+
+  const shape: ShapeElement = { tagName: element.name, getAttribute: name => getAttribute(element, name) }
+  const d = getShapePathData(shape)
+  if (d === null) {
+    return [] // The shape renders nothing
+  }
+  const geometry = GEOMETRY_ATTRIBUTES[element.name] || []
+  const baked: [string, string][] = [['d', stringifyPathCommands(transformCommands(parsePathCommands(d), matrix), SVG_CONFIG.PRECISION)]]
+  const isStrokeScaled = isStroked && scale !== 1
+  const strokeLengths = ['stroke-width', 'stroke-dasharray', 'stroke-dashoffset']
+  for (const [name, value] of attributes) {
+    if (!geometry.includes(name) && !(isStrokeScaled && strokeLengths.includes(name))) {
+      baked.push([name, value])
+    }
+  }
+  if (isStrokeScaled) {
+    // Strokes are scaled along with the shape
+    baked.push(['stroke-width', formatNumber(parseFloat(property('stroke-width') ?? '1') * (scale as number), SVG_CONFIG.PRECISION)])
+    for (const name of ['stroke-dasharray', 'stroke-dashoffset']) {
+      const value = property(name)
+      if (value !== null && value !== 'none') {
+        baked.push([name, scaleLengths(value, scale as number)])
+      }
+    }
+  }
+  return [{ name: 'path', attributes: baked, children: element.children }]
+}
+
+// Groups that can't be dissolved without changing what they render
+function isIsolatingGroup(group: SvgElement, opacity: number): boolean {
+  if (group.attributes.some(([name]) => ['clip-path', 'mask', 'filter', 'style', 'class'].includes(name))) {
+    return true
+  }
+  // Opacity applies to the group as a whole, which is only the same as applying it to one child
+  const elementCount = group.children.filter(child => typeof child !== 'string').length
+  return opacity !== 1 && elementCount > 1
+}
+
+function flattenChildren(children: SvgNode[], context: FlattenContext): SvgNode[] {
+  const result: SvgNode[] = []
+  for (const child of children) {
+    if (typeof child === 'string') {
+      result.push(child)
+    } else if (child.name === 'g') {
+      const transform = getAttribute(child, 'transform')
+      const groupMatrix = transform === null ? IDENTITY : parseTransform(transform)
+      const opacity = context.opacity * parseFloat(getAttribute(child, 'opacity') ?? '1')
+      if (!groupMatrix || isIsolatingGroup(child, opacity)) {
+        result.push(...wrapElement(child, context))
+        continue
+      }
+      const properties = getInheritedAttributes(child)
+      result.push(...flattenChildren(child.children, {
+        matrix: multiply(context.matrix, groupMatrix),
+        pushed: { ...context.pushed, ...properties },
+        inherited: { ...context.inherited, ...properties },
+        opacity
+      }))
+    } else if (SHAPE_TAGS.includes(child.name)) {
+      result.push(...bakeShape(child, context))
+    } else if (DEFINITION_ELEMENTS.includes(child.name)) {
+      result.push(child)
+    } else {
+      result.push(...wrapElement(child, context))
+    }
+  }
+  return result
+}
+
+// SVG markup with nested groups dissolved and transforms applied to the shapes' coordinates
+export function bakeTransforms(svg: string): string {
+  const root = parseSvg(svg)
+  if (!root) {
+    return svg
+  }
+  const children = flattenChildren(root.children, {
+    matrix: IDENTITY,
+    pushed: {},
+    inherited: getInheritedAttributes(root),
+    opacity: 1
+  })
+  return serializeSvg({ ...root, children })
+}
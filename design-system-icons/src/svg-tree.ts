@@ -0,0 +1,77 @@
+// A small XML reader and writer for exported SVGs, for code that runs on the main thread,
+// where there is no DOMParser. Comments, processing instructions and doctypes are dropped,
+// and so is whitespace between elements outside of text content.
+export interface SvgElement {
+  name: string
+  attributes: [string, string][]
+  children: SvgNode[]
+}
+
+export type SvgNode = SvgElement | string
+
+// Whitespace is only meaningful inside text content
+const TEXT_ELEMENTS = ['text', 'tspan', 'textPath', 'style', 'title', 'desc']
+
+function parseAttributes(source: string): [string, string][] {
+  const attributes: [string, string][] = []
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source)) !== null) {
+    attributes.push([match[1], match[2] !== undefined ? match[2] : match[3]])
+  }
+  return attributes
+}
+
+// The <svg> element of the markup, or null if the markup isn't well-formed
+export function parseSvg(svg: string): SvgElement | null {
+  const root: SvgElement = { name: '', attributes: [], children: [] }
+  const stack: SvgElement[] = [root]
+  const pattern = /<!\[CDATA\[[\s\S]*?\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<![^>]*>|<\/?[^\s/>!?][^>]*>|[^<]+/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(svg)) !== null) {
+    const token = match[0]
+    const parent = stack[stack.length - 1]
+    if (token.startsWith('<![CDATA[')) {
+      parent.children.push(token)
+    } else if (token.startsWith('<!') || token.startsWith('<?')) {
+      continue
+    } else if (token.startsWith('</')) {
+      if (stack.length === 1 || parent.name !== token.slice(2, -1).trim()) {
+        return null // Unbalanced markup
+      }
+      stack.pop()
+    } else if (token.startsWith('<')) {
+      const tag = /^<([^\s/>]+)([\s\S]*?)(\/?)>$/.exec(token)
+      if (!tag) {
+        return null
+      }
+      const element: SvgElement = { name: tag[1], attributes: parseAttributes(tag[2]), children: [] }
+      parent.children.push(element)
+      if (!tag[3]) {
+        stack.push(element)
+      }
+    } else if (token.trim() || TEXT_ELEMENTS.includes(parent.name)) {
+      parent.children.push(token)
+    }
+  }
+
+  const svgElement = root.children.find((child): child is SvgElement => typeof child !== 'string' && child.name === 'svg')
+  return stack.length === 1 && svgElement ? svgElement : null
+}
+
+export function serializeSvg(node: SvgNode): string {
+  if (typeof node === 'string') {
+    return node
+  }
+  const attributes = node.attributes
+    .map(([name, value]) => value.includes('"') ? ` ${name}='${value}'` : ` ${name}="${value}"`)
+    .join('')
+  return node.children.length === 0
+    ? `<${node.name}${attributes}/>`
+    : `<${node.name}${attributes}>${node.children.map(serializeSvg).join('')}</${node.name}>`
+}
+
+export function getAttribute(element: SvgElement, name: string): string | null {
+  const attribute = element.attributes.find(([attributeName]) => attributeName === name)
+  return attribute ? attribute[1] : null
+}
@@ -0,0 +1,115 @@
+import * as ts from 'typescript'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { BUILT_IN_TEMPLATES } from './code-templates'
+import { processSvgToReact } from './svgr-processor'
+
+// Attributes as Figma and other editors write them: namespaced, hyphenated, and React's exceptions
+const ODD_ATTRIBUTES_SVG = '<svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">' +
+  '<defs><path id="p" d="M1 1H5V5Z"/><clipPath id="c"><rect width="20" height="20"/></clipPath></defs>' +
+  '<g clip-path="url(#c)">' +
+  '<use xlink:href="#p" xml:space="preserve"/>' +
+  '<path d="M2 2H9V9Z" class="shape" data-layer-name="Shape 1" aria-label="Arrow" stroke-width="2" stroke-linecap="round" ' +
+  'fill-rule="evenodd" tabindex="-1" style="opacity: .5; --accent: red; -webkit-mask: none" font-family=\'"Inter"\'/>' +
+  '</g></svg>'
+
+const MONOCHROME_SVG = '<svg viewBox="0 0 24 24"><path d="M2 2H20V20Z" fill="#000"/></svg>'
+
+const DUOTONE_SVG = '<svg viewBox="0 0 24 24"><path d="M2 2H9V9Z" fill="#000"/><path d="M12 2H20V9Z" fill="#000"/><path d="M2 12H9V20Z" fill="#f00"/></svg>'
+
+// Problems TypeScript finds parsing the code as a .tsx file
+function getSyntaxErrors(code: string): string[] {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: 'Icon.tsx',
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.React, target: ts.ScriptTarget.ES2020 }
+  })
+  return diagnostics.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))
+}
+
+// Names of the JSX attributes in the code, as written
+function getJsxAttributeNames(code: string): string[] {
+  const names: string[] = []
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxAttribute(node)) {
+      names.push(node.name.getText())
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(ts.createSourceFile('Icon.tsx', code, ts.ScriptTarget.ES2020, true, ts.ScriptKind.TSX))
+  return names
+}
+
+beforeEach(() => {
+  // Shapes that aren't flattened are reported
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('processSvgToReact', () => {
+  it.each(BUILT_IN_TEMPLATES.map(template => template.id))('generates TSX that parses with the %s template', id => {
+    const template = BUILT_IN_TEMPLATES.find(builtIn => builtIn.id === id)!.source
+    for (const svg of [ODD_ATTRIBUTES_SVG, DUOTONE_SVG]) {
+      const { reactCode } = processSvgToReact(svg, 'arrow-right', { template, colorMode: 'duotone' })
+      expect(getSyntaxErrors(reactCode)).toEqual([])
+    }
+  })
+
+  it('writes attributes with the names React expects', () => {
+    const { reactCode } = processSvgToReact(ODD_ATTRIBUTES_SVG, 'arrow-right')
+    const names = getJsxAttributeNames(reactCode)
+
+    expect(names).toEqual(expect.arrayContaining([
+      'xlinkHref',
+      'xmlSpace',
+      'className',
+      'data-layer-name',
+      'aria-label',
+      'strokeWidth',
+      'strokeLinecap',
+      'fillRule',
+      'clipPath',
+      'tabIndex',
+      'fontFamily',
+      'style'
+    ]))
+    // Namespaced names parse as JSX, but React doesn't accept them
+    expect(names.filter(name => name.includes(':'))).toEqual([])
+    expect(names.filter(name => name.includes('-') && !/^(data|aria)-/.test(name))).toEqual([])
+  })
+
+  it('writes style attributes as style objects and quoted values as expressions', () => {
+    const { reactCode } = processSvgToReact(ODD_ATTRIBUTES_SVG, 'arrow-right')
+
+    expect(reactCode).toContain('style={{ opacity: 0.5, "--accent": "red", WebkitMask: "none" }}')
+    expect(reactCode).toContain('fontFamily={"\\"Inter\\""}')
+  })
+
+  it('generates TSX that parses for a component set', () => {
+    const variants = [
+      { properties: { style: 'outline' }, svg: DUOTONE_SVG },
+      { properties: { style: 'filled' }, svg: ODD_ATTRIBUTES_SVG }
+    ]
+    const { reactCode } = processSvgToReact(DUOTONE_SVG, 'arrow-right', { variants, colorMode: 'duotone' })
+
+    expect(getSyntaxErrors(reactCode)).toEqual([])
+  })
+
+  it('takes a secondaryColor prop when only a variant other than the default one is duotone', () => {
+    const variants = [
+      { properties: { style: 'outline' }, svg: MONOCHROME_SVG },
+      { properties: { style: 'filled' }, svg: DUOTONE_SVG }
+    ]
+    const { reactCode, outputs } = processSvgToReact(MONOCHROME_SVG, 'arrow-right', { variants, colorMode: 'duotone' })
+
+    expect(getSyntaxErrors(reactCode)).toEqual([])
+    expect(reactCode).toContain('secondaryColor = "#f00", ...props }')
+    expect(reactCode).toContain('IconProps & { variant?: "outline" | "filled" } & { secondaryColor?: string }')
+    expect(reactCode).toContain('fill={secondaryColor}')
+    // The other targets draw the default variant, which has no secondary color
+    expect(outputs!.vue).not.toContain('secondaryColor')
+  })
+})
@@ -1,229 +1,50 @@
+import { getComponentName } from './icon-names';
+import { getSizeVariantSetup, getVariantCondition, getVariantLabel, getVariantPropDefaults, getVariantProps, getVariantPropsType, VariantProp } from './icon-variants';
+import { SHAPE_TAGS, ShapeElement } from './svg-shapes';
+import { bakeTransforms } from './svg-transforms';
+import { getAttribute, parseSvg, SvgElement, SvgNode } from './svg-tree';
+import { DEFAULT_TEMPLATE_ID, getBuiltInTemplate, renderTemplate } from './code-templates';
+import { getReactNativeComponentName, renderReactNativeComponent, RenderSyntax, renderSvelteComponent, renderSvgFile, renderVueComponent, TargetSource } from './output-targets';
+import { IconColorMode, IconVariant, OutputTarget } from './types';
+
 export interface ProcessedIcon {
   componentName: string;
   reactCode: string;
   jsx: string;
   previewSvg: string;
+  outputs?: Record<OutputTarget, string>; // Code for each output target; the React code is reactCode
+  variantPreviews?: { label: string; previewSvg: string }[]; // Each variant of a component set
 }
 
-export function getComponentName(filename: string): string {
-  // Convert kebab-case to PascalCase
-  return `${filename
-    .split("-")
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-    .join("")}Icon`;
-}
-
-// Function to convert stroke to outline by creating a path that represents the stroke
-function strokeToOutline(element: Element): string | null {
-  const tagName = element.tagName.toLowerCase();
-  const stroke = element.getAttribute('stroke');
-  const strokeWidth = element.getAttribute('stroke-width') || '1';
-  
-  if (!stroke || stroke === 'none' || stroke === 'transparent') {
-    return null;
-  }
-  
-  // For now, we'll implement a basic approach for common stroke elements
-  // This is a simplified version - a full implementation would need more sophisticated path generation
-  
-  if (tagName === 'line') {
-    const x1 = parseFloat(element.getAttribute('x1') || '0');
-    const y1 = parseFloat(element.getAttribute('y1') || '0');
-    const x2 = parseFloat(element.getAttribute('x2') || '0');
-    const y2 = parseFloat(element.getAttribute('y2') || '0');
-    const width = parseFloat(strokeWidth);
-    
-    // Create a rectangle path for the line stroke
-    const angle = Math.atan2(y2 - y1, x2 - x1);
-    const length = Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
-    const halfWidth = width / 2;
-    
-    const cos = Math.cos(angle);
-    const sin = Math.sin(angle);
-    
-    // Calculate the four corners of the stroke rectangle
-    const x1a = x1 - halfWidth * sin;
-    const y1a = y1 + halfWidth * cos;
-    const x1b = x1 + halfWidth * sin;
-    const y1b = y1 - halfWidth * cos;
-    const x2a = x2 - halfWidth * sin;
-    const y2a = y2 + halfWidth * cos;
-    const x2b = x2 + halfWidth * sin;
-    const y2b = y2 - halfWidth * cos;
-    
-    return `M ${x1a} ${y1a} L ${x2a} ${y2a} L ${x2b} ${y2b} L ${x1b} ${y1b} Z`;
-  }
-  
-  if (tagName === 'circle') {
-    const cx = parseFloat(element.getAttribute('cx') || '0');
-    const cy = parseFloat(element.getAttribute('cy') || '0');
-    const r = parseFloat(element.getAttribute('r') || '0');
-    const width = parseFloat(strokeWidth);
-    
-    // Create two circles - outer and inner
-    const outerR = r + width / 2;
-    const innerR = Math.max(0, r - width / 2);
-    
-    if (innerR <= 0) {
-      // Solid circle
-      return `M ${cx} ${cy - outerR} A ${outerR} ${outerR} 0 1 1 ${cx} ${cy + outerR} A ${outerR} ${outerR} 0 1 1 ${cx} ${cy - outerR} Z`;
-    } else {
-      // Ring (outer circle minus inner circle)
-      return `M ${cx} ${cy - outerR} A ${outerR} ${outerR} 0 1 1 ${cx} ${cy + outerR} A ${outerR} ${outerR} 0 1 1 ${cx} ${cy - outerR} Z M ${cx} ${cy - innerR} A ${innerR} ${innerR} 0 1 0 ${cx} ${cy + innerR} A ${innerR} ${innerR} 0 1 0 ${cx} ${cy - innerR} Z`;
-    }
-  }
-  
-  if (tagName === 'rect') {
-    const x = parseFloat(element.getAttribute('x') || '0');
-    const y = parseFloat(element.getAttribute('y') || '0');
-    const width = parseFloat(element.getAttribute('width') || '0');
-    const height = parseFloat(element.getAttribute('height') || '0');
-    const strokeWidth = parseFloat(element.getAttribute('stroke-width') || '1');
-    
-    // Create a rectangle outline
-    const halfStroke = strokeWidth / 2;
-    const outerX = x - halfStroke;
-    const outerY = y - halfStroke;
-    const outerWidth = width + strokeWidth;
-    const outerHeight = height + strokeWidth;
-    const innerX = x + halfStroke;
-    const innerY = y + halfStroke;
-    const innerWidth = Math.max(0, width - strokeWidth);
-    const innerHeight = Math.max(0, height - strokeWidth);
-    
-    if (innerWidth <= 0 || innerHeight <= 0) {
-      // Solid rectangle
-      return `M ${outerX} ${outerY} L ${outerX + outerWidth} ${outerY} L ${outerX + outerWidth} ${outerY + outerHeight} L ${outerX} ${outerY + outerHeight} Z`;
-    } else {
-      // Rectangle outline
-      return `M ${outerX} ${outerY} L ${outerX + outerWidth} ${outerY} L ${outerX + outerWidth} ${outerY + outerHeight} L ${outerX} ${outerY + outerHeight} Z M ${innerX} ${innerY} L ${innerX} ${innerY + innerHeight} L ${innerX + innerWidth} ${innerY + innerHeight} L ${innerX + innerWidth} ${innerY} Z`;
-    }
-  }
-  
-  // For path elements with stroke, we can't easily convert to outline without more sophisticated path processing
-  // For now, we'll just return the original path data
-  return element.getAttribute('d');
+export interface ComponentOptions {
+  colorMode?: IconColorMode; // Defaults to 'monochrome'
+  template?: string; // Source of the component template; defaults to the built-in one (code-templates.ts)
+  aliases?: string[]; // For the template's {{metadata}}
+  variants?: IconVariant[]; // Component sets: every variant, the default one first
 }
 
-// Function to flatten multiple SVG paths into a single outlined path
-export function flattenSvgPaths(svgContent: string): string {
-  try {
-    // Check if DOMParser is available
-    if (typeof DOMParser !== 'undefined') {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(svgContent, 'image/svg+xml');
-      const svgElement = doc.querySelector('svg');
-    
-    if (!svgElement) {
-      throw new Error("No SVG element found");
-    }
-    
-    // Get all elements that are not helper elements
-    const allElements = Array.from(svgElement.children);
-    const relevantElements = allElements.filter(element => {
-      // Skip helper elements
-      if (isHelperElement(element)) {
-        return false;
-      }
-      
-      // Include path elements and other vector elements
-      return ['path', 'line', 'circle', 'rect', 'ellipse', 'polygon', 'polyline'].includes(element.tagName.toLowerCase());
-    });
-    
-    if (relevantElements.length === 0) {
-      return svgContent;
-    }
-    
-    // Process each element to convert strokes to outlines and extract path data
-    const pathDataArray: string[] = [];
-    
-    for (const element of relevantElements) {
-      const tagName = element.tagName.toLowerCase();
-      
-      if (tagName === 'path') {
-        // Check if it has a stroke that needs to be converted to outline
-        const stroke = element.getAttribute('stroke');
-        if (stroke && stroke !== 'none' && stroke !== 'transparent') {
-          // For now, we'll keep the original path data
-          // A full implementation would need to convert the stroke to outline
-          const pathData = element.getAttribute('d');
-          if (pathData) {
-            pathDataArray.push(pathData);
-          }
-        } else {
-          // Regular filled path
-          const pathData = element.getAttribute('d');
-          if (pathData) {
-            pathDataArray.push(pathData);
-          }
-        }
-      } else {
-        // Convert other elements to path data
-        const strokeOutline = strokeToOutline(element);
-        if (strokeOutline) {
-          pathDataArray.push(strokeOutline);
-        } else {
-          // Element without stroke, convert to basic path
-          const pathData = element.getAttribute('d');
-          if (pathData) {
-            pathDataArray.push(pathData);
-          }
-        }
-      }
-    }
-    
-    if (pathDataArray.length === 0) {
-      console.warn('No valid path data found');
-      return svgContent;
-    }
-    
-    if (pathDataArray.length === 1) {
-      return svgContent;
-    }
-    
-    // Combine all path data into a single path
-    const combinedPathData = pathDataArray.join(' ');
-    
-    // Create a new SVG with a single flattened path
-    const newSvg = doc.createElement('svg');
-    
-    // Copy attributes from original SVG
-    Array.from(svgElement.attributes).forEach(attr => {
-      newSvg.setAttribute(attr.name, attr.value);
-    });
-    
-    // Create the flattened path element
-    const flattenedPath = doc.createElement('path');
-    flattenedPath.setAttribute('d', combinedPathData);
-    flattenedPath.setAttribute('fill', 'currentColor');
-    flattenedPath.setAttribute('fill-rule', 'evenodd');
-    
-    // Remove any stroke attributes to ensure it's properly outlined
-    flattenedPath.removeAttribute('stroke');
-    flattenedPath.removeAttribute('stroke-width');
-    flattenedPath.removeAttribute('stroke-linecap');
-    flattenedPath.removeAttribute('stroke-linejoin');
-    
-    newSvg.appendChild(flattenedPath);
-    
-    // Convert back to string
-    const serializer = new XMLSerializer();
-    return serializer.serializeToString(newSvg);
-    
-    } else {
-      // DOMParser not available, return original content
-      console.warn('DOMParser not available, cannot flatten SVG paths');
-      return svgContent;
-    }
-    
-  } catch (error) {
-    console.error('Error flattening SVG paths:', error);
-    return svgContent; // Return original if flattening fails
-  }
+// The component code for some JSX, through the template
+function renderComponent(iconName: string, componentName: string, jsx: string, viewBox: string, options: ComponentOptions, extra: { reactImports?: string; props?: string; setup?: string; variantProps?: string } = {}): string {
+  return renderTemplate(options.template ?? getBuiltInTemplate(DEFAULT_TEMPLATE_ID).source, {
+    componentName,
+    iconName,
+    jsx,
+    viewBox,
+    metadata: JSON.stringify({
+      name: iconName,
+      aliases: options.aliases || [],
+      ...(options.variants && options.variants.length > 1 ? { variants: options.variants.map(variant => variant.properties) } : {}),
+    }),
+    year: String(new Date().getFullYear()),
+    reactImports: extra.reactImports || '',
+    props: extra.props || '{ size = 24, className, ref, ...props }',
+    setup: extra.setup || '',
+    variantProps: extra.variantProps || '',
+  });
 }
 
 // Helper function to check if an element is a helper layer (white rectangle, etc.)
-function isHelperElement(element: Element): boolean {
+function isHelperElement(element: ShapeElement): boolean {
   const tagName = element.tagName.toLowerCase();
   
   // Check for white rectangles that are likely helper elements
@@ -256,7 +77,7 @@ function isHelperElement(element: Element): boolean {
 }
 
 // Helper function to check if an element is the main icon path
-function isMainIconElement(element: Element): boolean {
+function isMainIconElement(element: ShapeElement): boolean {
   const tagName = element.tagName.toLowerCase();
   
   // Prioritize path elements (most common for icons)
@@ -264,300 +85,431 @@ function isMainIconElement(element: Element): boolean {
     return true;
   }
   
-  // Include other vector elements that are likely part of the icon
-  if (['circle', 'ellipse', 'line', 'polygon', 'polyline'].includes(tagName)) {
+  // Include other vector elements that are likely part of the icon (helper rectangles are filtered out before)
+  if (['circle', 'ellipse', 'line', 'polygon', 'polyline', 'rect'].includes(tagName)) {
     return true;
   }
   
   return false;
 }
 
-export function processSvgToReact(
-  svgContent: string,
-  iconName: string
-): ProcessedIcon & { isSinglePath: boolean } {
-  try {
-    const componentName = getComponentName(iconName);
-    
-    // Simple regex-based SVG parsing as fallback
-    let viewBox = '0 0 24 24';
-    let childElements = '';
-    let isSinglePath = false;
-    
-    try {
-      // Try to use DOMParser if available
-      if (typeof DOMParser !== 'undefined') {
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(svgContent, 'image/svg+xml');
-        const svgElement = doc.querySelector('svg');
-      
-      if (svgElement) {
-        // Extract viewBox
-        viewBox = svgElement.getAttribute('viewBox') || '0 0 24 24';
-        
-        // Filter out helper elements and only process main icon elements
-        const mainElements = Array.from(svgElement.children).filter(element => {
-          // Skip helper elements
-          if (isHelperElement(element)) {
-            return false;
-          }
-          
-          // Only include main icon elements
-          return isMainIconElement(element);
-        });
-        
-        if (mainElements.length === 0) {
-          console.warn('No main icon elements found, falling back to all elements');
-          // Fallback: include all non-helper elements
-          const fallbackElements = Array.from(svgElement.children).filter(element => !isHelperElement(element));
-          mainElements.push(...fallbackElements);
-        }
-        
-        // Check if icon is properly flattened (more sophisticated logic)
-        const pathElements = mainElements.filter(element => element.tagName.toLowerCase() === 'path');
-        const vectorElements = mainElements.filter(element => 
-          ['path', 'circle', 'ellipse', 'line', 'polygon', 'polyline'].includes(element.tagName.toLowerCase())
-        );
-        
-        // Check if all elements are properly outlined (no strokes, only fills)
-        let allElementsProperlyOutlined = true;
-        let hasStrokes = false;
-        
-        for (const element of mainElements) {
-          const hasStroke = element.hasAttribute('stroke') && 
-                           element.getAttribute('stroke') !== 'none' && 
-                           element.getAttribute('stroke') !== 'transparent';
-          const hasFill = element.hasAttribute('fill') && 
-                         element.getAttribute('fill') !== 'none' && 
-                         element.getAttribute('fill') !== 'transparent';
-          
-          if (hasStroke) {
-            hasStrokes = true;
-            allElementsProperlyOutlined = false;
-          }
-          
-          // For vector elements, they should have either fill or be properly outlined
-          if (['path', 'circle', 'ellipse', 'rect', 'polygon', 'polyline'].includes(element.tagName.toLowerCase())) {
-            if (!hasFill && !hasStroke) {
-              // Element has no fill or stroke - might be empty or malformed
-              allElementsProperlyOutlined = false;
-            }
-          }
-        }
-        
-        // Check if there are any nested elements (groups within groups)
-        const hasNestedElements = mainElements.some(element => element.children.length > 0);
-        
-        // Icon is considered properly flattened if:
-        // 1. All elements are properly outlined (no strokes that need conversion)
-        // 2. No nested elements (no groups within groups)
-        // 3. Either single path element OR multiple properly outlined elements
-        const isSinglePathElement = pathElements.length === 1 && mainElements.length === 1;
-        const isMultipleProperlyOutlinedElements = mainElements.length > 1 && allElementsProperlyOutlined && !hasStrokes;
-        
-        // Fixed logic: allow both single path elements AND multiple properly outlined elements
-        isSinglePath = (isSinglePathElement || isMultipleProperlyOutlinedElements) && !hasNestedElements;
-        
-        // Only log warnings for problematic icons
-        if (!isSinglePath && mainElements.length > 0) {
-          console.warn(`Icon "${iconName}" needs flattening: ${mainElements.length} elements, hasStrokes: ${hasStrokes}, hasNestedElements: ${hasNestedElements}`);
-        }
-        
-        // Extract main icon elements and their attributes
-        childElements = mainElements.map(element => {
-          const tagName = element.tagName.toLowerCase();
-          let attributes = Array.from(element.attributes).map(attr => {
-            // Apply SVGR transformations
-            let value = attr.value;
-            if (attr.name === 'fill' || attr.name === 'stroke') {
-              // Convert any solid color fill/stroke to currentColor (except transparent/none)
-              if (value !== 'none' && value !== 'transparent' && value !== 'rgba(0,0,0,0)' && 
-                  !value.startsWith('url(') && !value.startsWith('hsl(') && !value.startsWith('rgb(')) {
-                value = 'currentColor';
-              }
-            }
-            return `${attr.name}="${value}"`;
-          }).join(' ');
-          
-          // Only convert existing fill/stroke colors, don't add new ones
-          
-          // Format path elements with proper line breaks and indentation
-          if (tagName === 'path') {
-            // Split attributes more carefully, preserving quoted values
-            const attrs = [];
-            let current = '';
-            let inQuotes = false;
-            let quoteChar = '';
-            
-            for (let i = 0; i < attributes.length; i++) {
-              const char = attributes[i];
-              if ((char === '"' || char === "'") && !inQuotes) {
-                inQuotes = true;
-                quoteChar = char;
-                current += char;
-              } else if (char === quoteChar && inQuotes) {
-                inQuotes = false;
-                quoteChar = '';
-                current += char;
-              } else if (char === ' ' && !inQuotes) {
-                if (current.trim()) {
-                  attrs.push(current.trim());
-                  current = '';
-                }
-              } else {
-                current += char;
-              }
-            }
-            if (current.trim()) {
-              attrs.push(current.trim());
-            }
-            
-            const formattedAttrs = attrs.map(attr => `\n          ${attr}`).join('');
-            return `<${tagName}${formattedAttrs}\n        />`;
-          }
-          
-          return `<${tagName} ${attributes} />`;
-        }).join('\n        ');
-      } else {
-        throw new Error("No SVG element found");
+// Elements that define things for the icon to reference through url(#id) or href="#id"
+const DEFINITION_TAGS = ['defs', 'clipPath', 'mask', 'linearGradient', 'radialGradient', 'pattern', 'filter', 'symbol', 'marker'];
+
+// Element-like view of parsed markup, for the checks written against ShapeElement
+function asShapeElement(element: SvgElement): ShapeElement {
+  return { tagName: element.name, getAttribute: name => getAttribute(element, name) };
+}
+
+// IDs referenced through url(#id), href="#id" or xlink:href="#id"
+function getReferencedIds(node: SvgNode, ids: Set<string> = new Set()): Set<string> {
+  if (typeof node === 'string') {
+    return ids;
+  }
+  for (const [name, value] of node.attributes) {
+    const pattern = /url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value)) !== null) {
+      ids.add(match[1]);
+    }
+    if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+      ids.add(value.slice(1));
+    }
+  }
+  node.children.forEach(child => getReferencedIds(child, ids));
+  return ids;
+}
+
+// The definitions the icon uses, directly or through other definitions (a gradient that
+// inherits another's stops, a mask filled with a gradient). Unused ones are dropped.
+function getUsedDefinitions(definitions: SvgElement[], content: SvgElement[]): SvgElement[] {
+  const candidates = definitions.reduce<SvgElement[]>((result, definition) => result.concat(
+    definition.name === 'defs'
+      ? definition.children.filter((child): child is SvgElement => typeof child !== 'string')
+      : [definition]
+  ), []);
+
+  const referenced = new Set<string>();
+  content.forEach(element => getReferencedIds(element, referenced));
+  let used: SvgElement[] = [];
+  let previousCount = -1;
+  while (used.length !== previousCount) {
+    previousCount = used.length;
+    used = candidates.filter(candidate => referenced.has(getAttribute(candidate, 'id') || ''));
+    used.forEach(definition => getReferencedIds(definition, referenced));
+  }
+  return used;
+}
+
+// Solid colors, which the color modes rewrite; gradients, patterns and rgb()/hsl() values are kept
+function isSolidColor(value: string): boolean {
+  return value !== 'none' && value !== 'transparent' && value !== 'rgba(0,0,0,0)' &&
+    !value.startsWith('url(') && !value.startsWith('hsl(') && !value.startsWith('rgb(');
+}
+
+// Solid fill and stroke colors of the drawn elements, the most used first (then in order of appearance).
+// In duotone mode the first one is the primary color and all others take the secondary color.
+function getIconColors(elements: SvgElement[]): string[] {
+  const counts = new Map<string, number>();
+  const visit = (element: SvgElement) => {
+    if (DEFINITION_TAGS.includes(element.name)) {
+      return;
+    }
+    for (const name of ['fill', 'stroke']) {
+      const value = getAttribute(element, name);
+      if (value !== null && isSolidColor(value)) {
+        counts.set(value.toLowerCase(), (counts.get(value.toLowerCase()) || 0) + 1);
       }
-      } else {
-        // DOMParser not available, skip to regex fallback
-        throw new Error("DOMParser not available");
+    }
+    element.children.forEach(child => typeof child !== 'string' && visit(child));
+  };
+  elements.forEach(visit);
+  return Array.from(counts.keys()).sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0));
+}
+
+interface RenderOptions {
+  syntax: RenderSyntax;
+  ids: Set<string>; // IDs that are referenced and defined, and so get rewritten
+  idPrefix: string; // Prefix of rewritten IDs in static markup; empty keeps them as they are
+  isDefinition: boolean; // Colors inside definitions are kept: masks depend on them
+  colorMode: IconColorMode;
+  secondaryColors: string[]; // Colors drawn with the secondaryColor prop in duotone mode
+}
+
+// React names that aren't the camelCased SVG name
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  crossorigin: 'crossOrigin',
+};
+
+// React name of an attribute, as SVGR writes it: `stroke-width` becomes strokeWidth and `xlink:href`
+// xlinkHref, while data-* and aria-* attributes keep their names
+function toJsxAttributeName(name: string): string {
+  if (JSX_ATTRIBUTE_NAMES[name]) {
+    return JSX_ATTRIBUTE_NAMES[name];
+  }
+  if (/^(data|aria)-/.test(name)) {
+    return name;
+  }
+  return name.replace(/[-:]([a-z])/g, (match, letter: string) => letter.toUpperCase());
+}
+
+// React name of a CSS property: `-webkit-mask` becomes WebkitMask, `-ms-filter` msFilter, and
+// custom properties keep their name as a quoted key
+function toJsxStyleName(property: string): string {
+  if (property.startsWith('--')) {
+    return JSON.stringify(property);
+  }
+  return property
+    .replace(/^-ms-/, 'ms-')
+    .replace(/-([a-z])/g, (match, letter: string) => letter.toUpperCase());
+}
+
+function escapeTemplateLiteral(value: string): string {
+  return value.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${');
+}
+
+// A rewritten ID: per instance in components, or prefixed in static markup. react-native-svg
+// scopes IDs to each <Svg>, so they are kept there.
+function renderId(value: string, options: RenderOptions): string {
+  switch (options.syntax) {
+    case 'jsx':
+    case 'vue':
+      return `\${id}-${value}`;
+    case 'svelte':
+      return `{id}-${value}`;
+    default:
+      return options.idPrefix ? `${options.idPrefix}-${value}` : value;
+  }
+}
+
+// The value with its references pointed at the rewritten IDs (a template literal in JSX and Vue
+// bindings), or null if it references nothing that is rewritten
+function rewriteReferences(value: string, isHref: boolean, options: RenderOptions): string | null {
+  let hasReference = false;
+  const referenceValue = (referencedId: string) => {
+    hasReference = true;
+    return renderId(referencedId, options);
+  };
+  const isTemplateLiteral = options.syntax === 'jsx' || options.syntax === 'vue';
+  const text = isTemplateLiteral ? escapeTemplateLiteral(value) : value;
+  let rewritten = text.replace(/url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/g, (match, referencedId: string) =>
+    options.ids.has(referencedId) ? `url(#${referenceValue(referencedId)})` : match
+  );
+  if (isHref && value.startsWith('#') && options.ids.has(value.slice(1))) {
+    rewritten = `#${referenceValue(value.slice(1))}`;
+  }
+  if (!hasReference) {
+    return null;
+  }
+  return isTemplateLiteral ? `\`${rewritten}\`` : rewritten;
+}
+
+// A style attribute as a JSX style object. Numbers stay numbers, as SVGR writes them.
+function toJsxStyle(style: string, options: RenderOptions): string {
+  const properties = style
+    .split(/;(?![^(]*\))/)
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) {
+        return null;
       }
-    } catch (domError) {
-      console.warn("DOMParser failed, using regex fallback:", domError);
-      
-      // Fallback: Use regex to extract SVG content
-      const viewBoxMatch = svgContent.match(/viewBox="([^"]+)"/);
-      if (viewBoxMatch) {
-        viewBox = viewBoxMatch[1];
+      const property = declaration.slice(0, colon).trim();
+      const value = declaration.slice(colon + 1).trim();
+      if (!property || !value) {
+        return null;
       }
-      
-      // Extract path elements using regex (prioritize paths for icons)
-      const pathMatches = svgContent.match(/<path[^>]*\/>/g) || [];
-      const circleMatches = svgContent.match(/<circle[^>]*\/>/g) || [];
-      const rectMatches = svgContent.match(/<rect[^>]*\/>/g) || [];
-      const otherMatches = svgContent.match(/<(?:ellipse|line|polygon|polyline)[^>]*\/>/g) || [];
-      
-      // Filter out helper rectangles (white, 24x24, etc.)
-      const filteredRectMatches = rectMatches.filter(element => {
-        // Skip white rectangles and 24x24 rectangles (likely helpers)
-        if (element.includes('fill="#ffffff"') || element.includes('fill="white"') || 
-            element.includes('fill="#fff"') || element.includes('width="24"') && element.includes('height="24"')) {
-          return false;
-        }
-        return true;
-      });
-      
-      const allElements = [...pathMatches, ...circleMatches, ...filteredRectMatches, ...otherMatches];
-      
-      // Check if icon is properly flattened (regex fallback)
-      const pathElements = allElements.filter(element => element.startsWith('<path'));
-      const vectorElements = allElements.filter(element => 
-        element.startsWith('<path') || element.startsWith('<circle') || element.startsWith('<ellipse') ||
-        element.startsWith('<line') || element.startsWith('<polygon') || element.startsWith('<polyline')
-      );
-      
-      // Check if all elements are properly outlined (no strokes, only fills)
-      let allElementsProperlyOutlined = true;
-      let hasStrokes = false;
-      
-      for (const element of allElements) {
-        const hasStroke = element.includes('stroke=') && 
-                         !element.includes('stroke="none"') && 
-                         !element.includes('stroke="transparent"');
-        const hasFill = element.includes('fill=') && 
-                       !element.includes('fill="none"') && 
-                       !element.includes('fill="transparent"');
-        
-        if (hasStroke) {
-          hasStrokes = true;
-          allElementsProperlyOutlined = false;
-        }
-        
-        // For vector elements, they should have either fill or be properly outlined
-        if (element.startsWith('<path') || element.startsWith('<circle') || element.startsWith('<ellipse') ||
-            element.startsWith('<rect') || element.startsWith('<polygon') || element.startsWith('<polyline')) {
-          if (!hasFill && !hasStroke) {
-            // Element has no fill or stroke - might be empty or malformed
-            allElementsProperlyOutlined = false;
-          }
-        }
+      const expression = rewriteReferences(value, false, options) ??
+        (/^-?(?:\d+\.?\d*|\.\d+)$/.test(value) ? String(Number(value)) : JSON.stringify(value));
+      return `${toJsxStyleName(property.toLowerCase())}: ${expression}`;
+    })
+    .filter((property): property is string => property !== null);
+  return `{ ${properties.join(', ')} }`;
+}
+
+function renderAttribute(name: string, value: string, options: RenderOptions): string | null {
+  const { syntax } = options;
+  const isJsx = syntax === 'jsx' || syntax === 'react-native';
+
+  if (name === 'id') {
+    if (!options.ids.has(value)) {
+      return null; // Unreferenced IDs would only clash between instances
+    }
+    switch (syntax) {
+      case 'jsx':
+        return `id={\`\${id}-${escapeTemplateLiteral(value)}\`}`;
+      case 'vue':
+        return `:id="\`\${id}-${escapeTemplateLiteral(value)}\`"`;
+      default:
+        return `id="${renderId(value, options)}"`;
+    }
+  }
+
+  // Apply SVGR transformations
+  if (!options.isDefinition && (name === 'fill' || name === 'stroke') && isSolidColor(value) && options.colorMode !== 'original') {
+    if (options.colorMode === 'duotone' && options.secondaryColors.includes(value.toLowerCase())) {
+      // Static markup shows the prop's default, the first secondary color
+      switch (syntax) {
+        case 'markup':
+          return `${name}="${options.secondaryColors[0]}"`;
+        case 'vue':
+          return `:${name}="secondaryColor"`;
+        default:
+          return `${name}={secondaryColor}`;
       }
-      
-      // For regex fallback, we can't easily detect nested elements, so we'll be more conservative
-      // and assume that if there are multiple elements, it might not be properly flattened
-      const hasMultipleElements = allElements.length > 1;
-      
-      // Icon is considered properly flattened if:
-      // 1. All elements are properly outlined (no strokes that need conversion)
-      // 2. Either single path element OR multiple properly outlined elements
-      const isSinglePathElement = pathElements.length === 1 && allElements.length === 1;
-      const isMultipleProperlyOutlinedElements = allElements.length > 1 && allElementsProperlyOutlined && !hasStrokes;
-      
-      // Fixed logic: allow both single path elements AND multiple properly outlined elements
-      isSinglePath = isSinglePathElement || isMultipleProperlyOutlinedElements;
-      
-      // Only log warnings for problematic icons (regex fallback)
-      if (!isSinglePath && allElements.length > 0) {
-        console.warn(`Icon "${iconName}" needs flattening (regex): ${allElements.length} elements, hasStrokes: ${hasStrokes}`);
+    }
+    // Convert any solid color fill/stroke to currentColor (except transparent/none)
+    value = 'currentColor';
+  }
+
+  let expression = rewriteReferences(value, name === 'href' || name === 'xlink:href', options);
+  if (syntax === 'react-native' && expression !== null) {
+    // Static references are plain strings
+    value = expression;
+    expression = null;
+  }
+  if (!isJsx) {
+    if (syntax === 'vue' && expression !== null) {
+      return `:${name}="${expression}"`;
+    }
+    return `${name}="${expression ?? value}"`;
+  }
+  if (name === 'style') {
+    return `style={${toJsxStyle(value, options)}}`;
+  }
+  const jsxName = toJsxAttributeName(name);
+  if (expression !== null) {
+    return `${jsxName}={${expression}}`;
+  }
+  return value.includes('"') ? `${jsxName}={${JSON.stringify(value)}}` : `${jsxName}="${value}"`;
+}
+
+// Markup of an element at the given indentation; the first line isn't indented
+function renderElement(element: SvgElement, indent: string, options: RenderOptions): string {
+  const isDefinition = options.isDefinition || DEFINITION_TAGS.includes(element.name);
+  const childOptions = { ...options, isDefinition };
+  const tagName = options.syntax === 'react-native' ? getReactNativeComponentName(element.name) : element.name;
+  const attributes = element.attributes
+    .map(([name, value]) => renderAttribute(name, value, childOptions))
+    .filter((attribute): attribute is string => attribute !== null);
+
+  const children = element.children.map(child => {
+    if (typeof child !== 'string') {
+      return renderElement(child, `${indent}  `, childOptions);
+    }
+    // Text (titles, styles) has to be a string expression in JSX, and braces are expressions in Vue and Svelte
+    const text = child.replace(/^<!\[CDATA\[|\]\]>$/g, '');
+    switch (options.syntax) {
+      case 'jsx':
+      case 'react-native':
+        return `{${JSON.stringify(text)}}`;
+      case 'vue':
+      case 'svelte':
+        return child.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+      default:
+        return child;
+    }
+  });
+
+  // Format path elements with proper line breaks and indentation
+  if (element.name === 'path' && children.length === 0) {
+    const formattedAttrs = attributes.map(attr => `\n${indent}  ${attr}`).join('');
+    return `<${tagName}${formattedAttrs}\n${indent}/>`;
+  }
+  const attributeText = attributes.map(attr => ` ${attr}`).join('');
+  if (children.length === 0) {
+    return `<${tagName}${attributeText} />`;
+  }
+  return `<${tagName}${attributeText}>${children.map(child => `\n${indent}  ${child}`).join('')}\n${indent}</${tagName}>`;
+}
+
+// Names of all elements in some markup, e.g. for the react-native-svg imports
+function getElementNames(elements: SvgElement[], names: Set<string> = new Set()): Set<string> {
+  for (const element of elements) {
+    names.add(element.name);
+    getElementNames(element.children.filter((child): child is SvgElement => typeof child !== 'string'), names);
+  }
+  return names;
+}
+
+// Drawn shapes, including those inside groups that were kept for their clip path, mask or filter
+function getDrawnShapes(elements: SvgElement[]): SvgElement[] {
+  return elements.reduce<SvgElement[]>((shapes, element) => {
+    if (element.name === 'g') {
+      return shapes.concat(getDrawnShapes(element.children.filter((child): child is SvgElement => typeof child !== 'string')));
+    }
+    return SHAPE_TAGS.includes(element.name) ? shapes.concat(element) : shapes;
+  }, []);
+}
+
+// The elements of one exported SVG, ready to be rendered in each syntax
+interface IconGeometry {
+  viewBox: string;
+  isSinglePath: boolean;
+  usesIds: boolean; // Whether the elements reference each other, so IDs are made unique per instance
+  secondaryColors: string[]; // Duotone colors after the main one
+  elementNames: Set<string>;
+  renderChildren: (syntax: RenderSyntax, indent?: string, idPrefix?: string) => string;
+}
+
+function parseIconGeometry(svgContent: string, iconName: string, componentName: string, colorMode: IconColorMode): IconGeometry {
+  // Dissolve groups and apply transforms to the coordinates, so the shapes are direct children of <svg>
+  const svgElement = parseSvg(bakeTransforms(svgContent));
+  if (!svgElement) {
+    throw new Error("No SVG element found");
+  }
+  
+  // Extract viewBox
+  const viewBox = getAttribute(svgElement, 'viewBox') || '0 0 24 24';
+  const elements = svgElement.children.filter((child): child is SvgElement => typeof child !== 'string');
+  
+  // Definitions are carried along when something references them
+  const definitions = elements.filter(element => DEFINITION_TAGS.includes(element.name));
+  
+  // Filter out helper elements and only process main icon elements (and the groups kept around them)
+  const mainElements = elements.filter(element =>
+    !DEFINITION_TAGS.includes(element.name) && !isHelperElement(asShapeElement(element)) &&
+    (isMainIconElement(asShapeElement(element)) || element.name === 'g')
+  );
+  
+  if (mainElements.length === 0) {
+    console.warn('No main icon elements found, falling back to all elements');
+    // Fallback: include all non-helper elements
+    mainElements.push(...elements.filter(element => !DEFINITION_TAGS.includes(element.name) && !isHelperElement(asShapeElement(element))));
+  }
+  
+  // Check if icon is properly flattened, on the shapes that are actually drawn
+  const shapes = getDrawnShapes(mainElements);
+  const pathElements = shapes.filter(element => element.name === 'path');
+  
+  // Check if all elements are properly outlined (no strokes, only fills)
+  let allElementsProperlyOutlined = true;
+  let hasStrokes = false;
+  
+  for (const element of shapes) {
+    const stroke = getAttribute(element, 'stroke');
+    const fill = getAttribute(element, 'fill');
+    const hasStroke = stroke !== null && stroke !== 'none' && stroke !== 'transparent';
+    const hasFill = fill !== null && fill !== 'none' && fill !== 'transparent';
+    
+    if (hasStroke) {
+      hasStrokes = true;
+      allElementsProperlyOutlined = false;
+    }
+    
+    // For vector elements, they should have either fill or be properly outlined
+    if (['path', 'circle', 'ellipse', 'rect', 'polygon', 'polyline'].includes(element.name)) {
+      if (!hasFill && !hasStroke) {
+        // Element has no fill or stroke - might be empty or malformed
+        allElementsProperlyOutlined = false;
       }
-      
-      childElements = allElements.map(element => {
-        // Apply SVGR transformations to fill and stroke attributes - convert any solid color to currentColor
-        let transformedElement = element.replace(/(fill|stroke)="(?!none|transparent|rgba\(0,0,0,0\)|url\(|hsl\(|rgb\()[^"]*"/g, '$1="currentColor"');
-        
-        // Only convert existing fill/stroke colors, don't add new ones
-        
-        // Format path elements with proper line breaks and indentation
-        if (element.startsWith('<path')) {
-          const match = transformedElement.match(/<path([^>]*)\/>/);
-          if (match) {
-            const attrString = match[1].trim();
-            // Split attributes more carefully, preserving quoted values
-            const attrs = [];
-            let current = '';
-            let inQuotes = false;
-            let quoteChar = '';
-            
-            for (let i = 0; i < attrString.length; i++) {
-              const char = attrString[i];
-              if ((char === '"' || char === "'") && !inQuotes) {
-                inQuotes = true;
-                quoteChar = char;
-                current += char;
-              } else if (char === quoteChar && inQuotes) {
-                inQuotes = false;
-                quoteChar = '';
-                current += char;
-              } else if (char === ' ' && !inQuotes) {
-                if (current.trim()) {
-                  attrs.push(current.trim());
-                  current = '';
-                }
-              } else {
-                current += char;
-              }
-            }
-            if (current.trim()) {
-              attrs.push(current.trim());
-            }
-            
-            const formattedAttrs = attrs.map(attr => `\n          ${attr}`).join('');
-            transformedElement = `<path${formattedAttrs}\n        />`;
-          }
-        }
-        
-        return transformedElement;
-      }).join('\n        ');
     }
+  }
+  
+  // Icon is considered properly flattened if:
+  // 1. All elements are properly outlined (no strokes that need conversion)
+  // 2. Either single path element OR multiple properly outlined elements
+  const isSinglePathElement = pathElements.length === 1 && shapes.length === 1;
+  const isMultipleProperlyOutlinedElements = shapes.length > 1 && allElementsProperlyOutlined && !hasStrokes;
+  const isSinglePath = isSinglePathElement || isMultipleProperlyOutlinedElements;
+  
+  // Only log warnings for problematic icons
+  if (!isSinglePath && shapes.length > 0) {
+    console.warn(`Icon "${iconName}" needs flattening: ${shapes.length} elements, hasStrokes: ${hasStrokes}`);
+  }
+  
+  // IDs are rewritten per component instance (useId), so two icons on a page don't clash
+  const usedDefinitions = getUsedDefinitions(definitions, mainElements);
+  const outputElements = usedDefinitions.length > 0
+    ? [...mainElements, { name: 'defs', attributes: [], children: usedDefinitions }]
+    : mainElements;
+  const referencedIds = new Set<string>();
+  outputElements.forEach(element => getReferencedIds(element, referencedIds));
+  const definedIds = new Set<string>();
+  const collectIds = (node: SvgNode) => {
+    if (typeof node !== 'string') {
+      const elementId = getAttribute(node, 'id');
+      if (elementId !== null && referencedIds.has(elementId)) {
+        definedIds.add(elementId);
+      }
+      node.children.forEach(collectIds);
+    }
+  };
+  outputElements.forEach(collectIds);
+  const usesIds = definedIds.size > 0;
+  
+  // Duotone: the main color follows currentColor (the `color` prop or CSS), the others a secondaryColor prop
+  const secondaryColors = colorMode === 'duotone' ? getIconColors(mainElements).slice(1) : [];
+  
+  const renderChildren = (syntax: RenderSyntax, indent = '        ', idPrefix = componentName.replace(/[^\w-]/g, '')) => outputElements
+    .map(element => renderElement(element, indent, {
+      syntax,
+      ids: definedIds,
+      idPrefix,
+      isDefinition: false,
+      colorMode,
+      secondaryColors
+    }))
+    .join(`\n${indent}`);
 
-    // Create the JSX content with proper formatting
-    const jsx = `<svg
+  return {
+    viewBox,
+    isSinglePath,
+    usesIds,
+    secondaryColors,
+    elementNames: getElementNames(outputElements),
+    renderChildren,
+  };
+}
+
+// The component's <svg> element, taking its props
+function renderJsxSvg(geometry: IconGeometry): string {
+  return `<svg
         width={size || 24}
         height={size || 24}
-        viewBox="${viewBox}"
+        viewBox="${geometry.viewBox}"
         fill="currentColor"
         xmlns="http://www.w3.org/2000/svg"
         className={className}
@@ -565,45 +517,98 @@ export function processSvgToReact(
         ref={ref}
         {...props}
       >
-        ${childElements}
+        ${geometry.renderChildren('jsx')}
       </svg>`;
+}
 
-    // Create a preview SVG (without React props) for rendering
-    const previewSvg = `<svg
+// A preview SVG (without React props) for rendering
+function renderPreviewSvg(geometry: IconGeometry): string {
+  return `<svg
         width="24"
         height="24"
-        viewBox="${viewBox}"
+        viewBox="${geometry.viewBox}"
         fill="currentColor"
         xmlns="http://www.w3.org/2000/svg"
         aria-hidden="true"
       >
-        ${childElements}
+        ${geometry.renderChildren('markup')}
       </svg>`;
+}
+
+// Variants of a component set in one expression: each is drawn when the props select it, and
+// the default variant otherwise
+function renderVariantJsx(variants: IconVariant[], geometries: IconGeometry[], props: VariantProp[]): string {
+  const nest = (jsx: string) => jsx.replace(/\n/g, '\n  ');
+  return [
+    ...variants.slice(1).map((variant, index) =>
+      `${getVariantCondition(variant, props)} ? (\n        ${nest(renderJsxSvg(geometries[index + 1]))}\n      ) : `),
+    `(\n        ${nest(renderJsxSvg(geometries[0]))}\n      )`,
+  ].join('');
+}
+
+export function processSvgToReact(
+  svgContent: string,
+  iconName: string,
+  options: ComponentOptions = {}
+): ProcessedIcon & { isSinglePath: boolean } {
+  const colorMode = options.colorMode || 'monochrome';
+  try {
+    const componentName = getComponentName(iconName);
+    const geometry = parseIconGeometry(svgContent, iconName, componentName, colorMode);
+
+    // Component sets: every variant's geometry, in one component whose props pick the variant
+    const variants = options.variants && options.variants.length > 1 ? options.variants : [];
+    const variantProps = getVariantProps(variants);
+    const geometries = [geometry, ...variants.slice(1).map(variant => parseIconGeometry(variant.svg, iconName, componentName, colorMode))];
+    const usesIds = geometries.some(variantGeometry => variantGeometry.usesIds);
+    const isSinglePath = geometries.every(variantGeometry => variantGeometry.isSinglePath);
+    // The secondaryColor prop is needed when any variant draws with it, not only the default one
+    const secondaryColors = geometries.reduce<string[]>((colors, variantGeometry) =>
+      colors.concat(variantGeometry.secondaryColors.filter(color => !colors.includes(color))), []);
+    const sizeProp = variantProps.find(prop => prop.isSize);
+    const propsPattern = `{ size = ${sizeProp ? Number(sizeProp.defaultValue) : 24}, ${getVariantPropDefaults(variantProps).map(prop => `${prop}, `).join('')}className, ref, ${secondaryColors.length > 0 ? `secondaryColor = "${secondaryColors[0]}", ` : ''}...props }`;
+
+    // Create the JSX content with proper formatting
+    const jsx = variants.length > 0 ? renderVariantJsx(variants, geometries, variantProps) : renderJsxSvg(geometry);
+    const previewSvg = renderPreviewSvg(geometry);
 
     // Generate the full React component code
-    const reactCode = `/**
- * (c) Copyright 2025 Nominal Inc. All rights reserved.
- */
-
-import React, { memo } from "react";
-
-import type { IconProps } from "./types";
-// Auto-generated icon component
-export const ${componentName}: React.NamedExoticComponent<IconProps> = memo(
-  function ${componentName}({ size = 24, className, ref, ...props }: IconProps) {
-    return (
-      ${jsx}
-    );
-  },
-);
-${componentName}.displayName = "${componentName}";
-export { ${componentName} as ReactComponent };`;
+    const reactCode = renderComponent(iconName, componentName, jsx, geometry.viewBox, options, {
+      reactImports: usesIds ? ', useId' : '',
+      props: propsPattern,
+      setup: [
+        usesIds ? '    // useId() may contain characters that break url(#…) references\n    const id = useId().replace(/[^\\w-]/g, "");' : '',
+        getSizeVariantSetup(variantProps),
+      ].filter(Boolean).join('\n'),
+      // IconProps doesn't declare secondaryColor
+      variantProps: getVariantPropsType(variantProps) + (secondaryColors.length > 0 ? ' & { secondaryColor?: string }' : ''),
+    });
+
+    // The same elements for the other frameworks; component sets are written with their default variant
+    const targetSource: TargetSource = {
+      componentName,
+      viewBox: geometry.viewBox,
+      usesIds: geometry.usesIds,
+      secondaryColor: geometry.secondaryColors[0],
+      elementNames: Array.from(geometry.elementNames),
+      renderChildren: geometry.renderChildren,
+    };
 
     return {
       componentName,
       reactCode,
       jsx,
       previewSvg,
+      ...(variants.length > 0
+        ? { variantPreviews: variants.map((variant, index) => ({ label: getVariantLabel(variant), previewSvg: renderPreviewSvg(geometries[index]) })) }
+        : {}),
+      outputs: {
+        react: reactCode,
+        vue: renderVueComponent(targetSource),
+        svelte: renderSvelteComponent(targetSource),
+        'react-native': renderReactNativeComponent(targetSource),
+        svg: renderSvgFile(targetSource),
+      },
       isSinglePath,
     };
   } catch (error) {
@@ -625,23 +630,7 @@ export { ${componentName} as ReactComponent };`;
         <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5" />
       </svg>`;
     
-    const fallbackCode = `/**
- * (c) Copyright 2025 Nominal Inc. All rights reserved.
- */
-
-import React, { memo } from "react";
-
-import type { IconProps } from "./types";
-// Auto-generated icon component (fallback)
-export const ${componentName}: React.NamedExoticComponent<IconProps> = memo(
-  function ${componentName}({ size = 24, className, ref, ...props }: IconProps) {
-    return (
-      ${fallbackJsx}
-    );
-  },
-);
-${componentName}.displayName = "${componentName}";
-export { ${componentName} as ReactComponent };`;
+    const fallbackCode = renderComponent(iconName, componentName, fallbackJsx, '0 0 24 24', options);
 
     return {
       componentName,
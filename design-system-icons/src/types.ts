@@ -10,18 +10,262 @@ export interface IconData {
   metadata?: Record<string, any>
   processedIcon?: ProcessedIcon
   isSinglePath?: boolean
+  conflict?: IconConflict
+  conflictResolution?: ConflictResolution
+  optimization?: SvgOptimizationStats
+  canvas?: CanvasNormalization // Set when the exported SVG was fitted onto the canvas
+  colorMode?: IconColorMode // Defaults to 'monochrome'
+  targets?: OutputTarget[] // Set when submitting; defaults to ['react']
+  variants?: IconVariant[] // Every variant of a component set, the default one first; svg is the default's
 }
 
+// One variant of a component set, with its variant properties, e.g. { size: '24', style: 'filled' }
+export interface IconVariant {
+  properties: { [property: string]: string }
+  svg: string
+}
+
+// How the generated component colors the icon: 'monochrome' draws every solid color with currentColor,
+// 'duotone' keeps a second color behind a secondaryColor prop, 'original' keeps the colors from Figma
+export type IconColorMode = 'monochrome' | 'duotone' | 'original'
+
+// Code generated for each icon: the React component, Vue and Svelte components, a react-native-svg
+// component and a standalone SVG (see output-targets.ts)
+export type OutputTarget = 'react' | 'vue' | 'svelte' | 'react-native' | 'svg'
+
+// Layer types that can be picked up as icons
+export type IconNodeType = 'FRAME' | 'COMPONENT' | 'COMPONENT_SET' | 'INSTANCE' | 'VECTOR' | 'BOOLEAN_OPERATION' | 'GROUP'
+
+// Which selected nodes are icons; see icon-detection.ts
+export interface DetectionRules {
+  frameSizes: number[] // Allowed sizes of square frames, components and instances
+  tolerance: number // How far, in pixels, a frame's width and height may be off an allowed size
+  minVectorSize: number // Size range of vectors, boolean operations and groups
+  maxVectorSize: number
+  framesInVectorRange: boolean // Whether frames, components and instances of any size within the vector range are icons too
+  nodeTypes: IconNodeType[]
+  namePrefix: string // Only names starting with this, when set
+  namePattern: string // Only names matching this regular expression, when set
+}
+
+// A selected node that wasn't picked up as an icon, and why
+export interface RejectedNode {
+  id: string
+  name: string
+  reason: string
+}
+
+// Pages of the file and their top-level sections, which a scan can be limited to; see icon-scan.ts
+export interface ScanPage {
+  id: string
+  name: string
+  sections: { id: string; name: string }[]
+}
+
+// An icon found by scanning pages instead of the selection
+export interface ScannedIcon {
+  id: string
+  name: string
+  type: IconNodeType
+  pageId: string
+  pageName: string
+  path: string[] // Names of the sections, frames and groups between the page and the icon
+  width: number
+  height: number
+}
+
+// Progress of a scan: the icons found since the last update, and whether the scan ended
+export interface ScanProgress {
+  icons: ScannedIcon[]
+  scannedNodes: number
+  pageName?: string // The page being scanned
+  done: boolean
+  cancelled?: boolean
+}
+
+// An icon fitted onto the canvas: the exported viewBox (in Figma pixels) and where it ended up,
+// in canvas units; see svg-canvas.ts
+export interface CanvasNormalization {
+  size: number
+  original: CanvasBounds
+  normalized: CanvasBounds
+}
+
+export interface CanvasBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Size of an icon's SVG before and after the optimization pass; see svg-optimizer.ts
+export interface SvgOptimizationStats {
+  originalBytes: number
+  optimizedBytes: number
+  precision: number // Decimals kept in coordinates
+}
+
+export interface IconConflict {
+  // 'name' when the component name is taken, 'svg' when identical artwork exists, 'both' for either
+  kind: 'name' | 'svg' | 'both'
+  existingName: string
+  existingPath: string
+}
+
+// 'skip' leaves the existing icon alone, 'update' intentionally replaces it
+export type ConflictResolution = 'skip' | 'update'
+
 export interface ProcessedIcon {
   componentName: string
   reactCode: string
   jsx: string
   previewSvg: string
+  outputs?: Record<OutputTarget, string> // Code for each output target; the React code is reactCode
+  variantPreviews?: { label: string; previewSvg: string }[] // Each variant of a component set
+}
+
+// How icons are delivered; see delivery.ts for the backend behind each mode
+export type DeliveryMode = 'workflow' | 'pull-request' | 'gitlab-merge-request' | 'webhook' | 'fake'
+
+// Compression of the `icons` workflow input; see payload.ts for the format. 'legacy' is the
+// original unversioned base64, which workflows that predate the versioned format decode.
+export type PayloadEncoding = 'legacy' | 'gzip' | 'deflate' | 'none'
+
+export interface DeliveryProfile {
+  id: string
+  name: string
+  owner: string
+  repo: string
+  branch: string
+  workflowFile: string
+  deliveryMode: DeliveryMode
+  payloadEncoding?: PayloadEncoding // Profiles saved before this option existed use the default
+  endpointUrl?: string // GitLab instance URL (defaults to https://gitlab.com) or webhook URL
+  componentTemplate?: ComponentTemplateId // Defaults to 'memo'
+}
+
+// A built-in component template (see code-templates.ts), or 'repository' for the one on the target branch
+export type ComponentTemplateId = 'memo' | 'default-export' | 'repository'
+
+export type WorkflowRunState = 'pending' | 'queued' | 'in_progress' | 'success' | 'failure'
+
+export interface ChunkRunProgress {
+  chunkNumber: number
+  totalChunks: number
+  iconCount: number
+  state: WorkflowRunState
+  conclusion?: string
+  runUrl?: string
+}
+
+// An icon as sent to the design system workflow
+export interface IconPayload {
+  name: string
+  svg: string
+  aliases: string[]
+  update?: boolean
+  colorMode?: IconColorMode // Omitted for monochrome icons
+  targets?: OutputTarget[] // Omitted when only the React component is wanted
+  variants?: IconVariant[] // Component sets only; the default variant first
+}
+
+// One workflow dispatch of a submission. All chunks of a submission share the batch ID and
+// manifest hash, so the workflow can gather them onto one branch and open a single PR.
+export interface BatchChunk {
+  batchId: string
+  manifestHash: string
+  chunkNumber: number
+  totalChunks: number
+  icons: IconPayload[]
+}
+
+// A chunk that still failed after retries, kept in clientStorage so it can be resent later
+export interface FailedChunk extends BatchChunk {
+  id: string
+  profile: DeliveryProfile
+  error: string
+  failedAt: number
+  attempts: number
+}
+
+// A submission as recorded locally, for looking up what was sent and where it went
+export interface BatchRecord {
+  batchId: string
+  manifestHash: string
+  profileId: string
+  profileName: string
+  createdAt: number
+  iconNames: string[]
+  chunks: ChunkRunProgress[]
+}
+
+// What the UI needs to show a failed chunk, without the SVG payload
+export interface FailedChunkSummary {
+  id: string
+  batchId: string
+  profileName: string
+  iconNames: string[]
+  error: string
+  failedAt: number
+}
+
+// A file a submission would create or change, compared with the target branch
+export type DryRunFileChange = 'added' | 'modified' | 'unchanged' | 'unknown'
+
+export interface DryRunFile {
+  path: string
+  content: string
+  change: DryRunFileChange
+  diff?: string // Unified diff against the file on the target branch
+}
+
+export interface DryRunChunk {
+  chunkNumber: number
+  totalChunks: number
+  request?: string // The chunk's payload exactly as it would be sent, for backends that encode one
+  requestSize?: number
+  icons: IconPayload[] // Decoded back from the request, so encoding problems show up here
+  files: DryRunFile[]
+}
+
+// Everything a submission would send, planned and encoded like the real thing but never sent
+export interface DryRunResult {
+  profileName: string
+  deliveryMode: DeliveryMode
+  batchId: string
+  manifestHash: string
+  createdAt: number
+  chunks: DryRunChunk[]
+  diffError?: string // Why files couldn't be compared with the target branch
+}
+
+export type PreflightIssueCode =
+  | 'missing_token'
+  | 'invalid_token'
+  | 'missing_scopes'
+  | 'repo_not_found'
+  | 'no_push_access'
+  | 'branch_not_found'
+  | 'workflow_not_found'
+  | 'network_error'
+
+export interface PreflightIssue {
+  code: PreflightIssueCode
+  message: string
+  remediation: string
+}
+
+export interface PreflightResult {
+  ok: boolean
+  login?: string
+  issues: PreflightIssue[]
 }
 
 export interface IconProps {
   size?: number
   className?: string
+  color?: string // Primary color of duotone icons, and the only color of monochrome ones
+  secondaryColor?: string // Duotone icons only
   [key: string]: unknown
 }
 
@@ -32,7 +276,60 @@ export interface GetSelectedIconsHandler extends EventHandler {
 
 export interface GetSelectedIconsResponseHandler extends EventHandler {
   name: 'GET_SELECTED_ICONS'
-  handler: (data: { icons: IconData[] }) => void
+  handler: (data: { icons: IconData[]; rejected?: RejectedNode[] }) => void
+}
+
+export interface GetDetectionRulesHandler extends EventHandler {
+  name: 'GET_DETECTION_RULES'
+  handler: () => void
+}
+
+export interface DetectionRulesHandler extends EventHandler {
+  name: 'DETECTION_RULES'
+  handler: (rules: DetectionRules) => void
+}
+
+export interface SaveDetectionRulesHandler extends EventHandler {
+  name: 'SAVE_DETECTION_RULES'
+  handler: (rules: DetectionRules) => Promise<void>
+}
+
+export interface GetScanPagesHandler extends EventHandler {
+  name: 'GET_SCAN_PAGES'
+  handler: () => Promise<void>
+}
+
+export interface ScanPagesHandler extends EventHandler {
+  name: 'SCAN_PAGES'
+  handler: (data: { pages: ScanPage[] }) => void
+}
+
+// Scans the given pages and sections, or the whole file when there are none
+export interface ScanIconsHandler extends EventHandler {
+  name: 'SCAN_ICONS'
+  handler: (data: { scopeIds: string[] }) => Promise<void>
+}
+
+export interface CancelScanHandler extends EventHandler {
+  name: 'CANCEL_SCAN'
+  handler: () => void
+}
+
+export interface ScanProgressHandler extends EventHandler {
+  name: 'SCAN_PROGRESS'
+  handler: (progress: ScanProgress) => void
+}
+
+// Selects scanned icons in Figma; selections can't span pages, so only those on the first icon's page
+export interface SelectScannedIconsHandler extends EventHandler {
+  name: 'SELECT_SCANNED_ICONS'
+  handler: (data: { iconIds: string[] }) => Promise<void>
+}
+
+// Loads scanned icons from any page into the icon list, as if they were selected
+export interface LoadScannedIconsHandler extends EventHandler {
+  name: 'LOAD_SCANNED_ICONS'
+  handler: (data: { iconIds: string[] }) => Promise<void>
 }
 
 export interface AddIconsHandler extends EventHandler {
@@ -62,12 +359,135 @@ export interface FlattenIconsHandler extends EventHandler {
 
 export interface ShowSuccessHandler extends EventHandler {
   name: 'SHOW_SUCCESS'
-  handler: (data: { iconCount: number; workflowUrl?: string }) => void
+  handler: (data: { iconCount: number; failedIconCount?: number; batchId?: string; deliveryMode?: DeliveryMode; workflowUrl?: string; pullRequestUrl?: string }) => void
+}
+
+export interface WorkflowRunUpdateHandler extends EventHandler {
+  name: 'WORKFLOW_RUN_UPDATE'
+  handler: (data: ChunkRunProgress) => void
+}
+
+// Plan and encode a submission like ADD_ICONS, but only report what would be sent
+export interface PreviewSubmissionHandler extends EventHandler {
+  name: 'PREVIEW_SUBMISSION'
+  handler: (icons: IconData[]) => Promise<void>
+}
+
+export interface DryRunResultHandler extends EventHandler {
+  name: 'DRY_RUN_RESULT'
+  handler: (result: DryRunResult) => void
 }
 
 export interface ShowErrorHandler extends EventHandler {
   name: 'SHOW_ERROR'
-  handler: (data: { title: string; message: string; details?: string }) => void
+  handler: (data: { title: string; message: string; details?: string; issues?: PreflightIssue[] }) => void
+}
+
+export interface GetGitHubSettingsHandler extends EventHandler {
+  name: 'GET_GITHUB_SETTINGS'
+  handler: () => void
+}
+
+export interface GitHubSettingsHandler extends EventHandler {
+  name: 'GITHUB_SETTINGS'
+  handler: (data: { hasToken: boolean; tokenHint?: string; profileSecretHints: { [profileId: string]: string } }) => void
+}
+
+// Token or secret of a GitLab or webhook profile, stored separately from the profile itself
+export interface SaveProfileSecretHandler extends EventHandler {
+  name: 'SAVE_PROFILE_SECRET'
+  handler: (data: { profileId: string; secret: string }) => Promise<void>
+}
+
+export interface SaveGitHubTokenHandler extends EventHandler {
+  name: 'SAVE_GITHUB_TOKEN'
+  handler: (data: { token: string }) => Promise<void>
+}
+
+export interface ClearGitHubTokenHandler extends EventHandler {
+  name: 'CLEAR_GITHUB_TOKEN'
+  handler: () => Promise<void>
+}
+
+export interface CheckGitHubAccessHandler extends EventHandler {
+  name: 'CHECK_GITHUB_ACCESS'
+  handler: () => Promise<void>
+}
+
+export interface GitHubAccessResultHandler extends EventHandler {
+  name: 'GITHUB_ACCESS_RESULT'
+  handler: (result: PreflightResult) => void
+}
+
+export interface GetDeliveryProfilesHandler extends EventHandler {
+  name: 'GET_DELIVERY_PROFILES'
+  handler: () => void
+}
+
+export interface DeliveryProfilesHandler extends EventHandler {
+  name: 'DELIVERY_PROFILES'
+  handler: (data: { profiles: DeliveryProfile[]; activeProfileId: string }) => void
+}
+
+export interface SaveDeliveryProfileHandler extends EventHandler {
+  name: 'SAVE_DELIVERY_PROFILE'
+  handler: (profile: DeliveryProfile) => Promise<void>
+}
+
+export interface DeleteDeliveryProfileHandler extends EventHandler {
+  name: 'DELETE_DELIVERY_PROFILE'
+  handler: (data: { profileId: string }) => Promise<void>
+}
+
+export interface SetActiveProfileHandler extends EventHandler {
+  name: 'SET_ACTIVE_PROFILE'
+  handler: (data: { profileId: string }) => Promise<void>
+}
+
+export interface CheckIconConflictsHandler extends EventHandler {
+  name: 'CHECK_ICON_CONFLICTS'
+  handler: (data: { icons: { id: string; name: string; svg: string }[] }) => Promise<void>
+}
+
+export interface IconConflictsHandler extends EventHandler {
+  name: 'ICON_CONFLICTS'
+  handler: (data: { conflicts: { [iconId: string]: IconConflict }; error?: string }) => void
+}
+
+export interface GetFailedChunksHandler extends EventHandler {
+  name: 'GET_FAILED_CHUNKS'
+  handler: () => Promise<void>
+}
+
+export interface FailedChunksHandler extends EventHandler {
+  name: 'FAILED_CHUNKS'
+  handler: (data: { chunks: FailedChunkSummary[] }) => void
+}
+
+export interface ResumeFailedChunksHandler extends EventHandler {
+  name: 'RESUME_FAILED_CHUNKS'
+  handler: () => Promise<void>
+}
+
+export interface DiscardFailedChunksHandler extends EventHandler {
+  name: 'DISCARD_FAILED_CHUNKS'
+  handler: () => Promise<void>
+}
+
+export interface GetBatchRecordsHandler extends EventHandler {
+  name: 'GET_BATCH_RECORDS'
+  handler: () => Promise<void>
+}
+
+export interface BatchRecordsHandler extends EventHandler {
+  name: 'BATCH_RECORDS'
+  handler: (data: { records: BatchRecord[] }) => void
+}
+
+// The active profile's component template, sent whenever it is (re)loaded
+export interface ComponentTemplateHandler extends EventHandler {
+  name: 'COMPONENT_TEMPLATE'
+  handler: (data: { source: string; error?: string }) => void
 }
 
 export interface CloseConfirmationHandler extends EventHandler {
@@ -1,33 +1,54 @@
 import {
   Button,
+  Checkbox,
   Container,
+  Dropdown,
+  IconCheck16,
   IconCheck24,
   IconFrame24,
   IconInspect24,
+  IconButton,
+  IconSearchSmall24,
+  IconSettingsSmall24,
   IconWarning16,
   Layer,
   LoadingIndicator,
   render,
+  SegmentedControl,
   SelectableItem,
   Stack,
   Text,
   Textbox,
   TextboxMultiline,
+  Toggle,
   VerticalSpace
 } from '@create-figma-plugin/ui'
 import { emit, on } from '@create-figma-plugin/utilities'
 import { h } from 'preact'
-import { useCallback, useEffect, useRef, useState } from 'preact/hooks'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'preact/hooks'
 import Prism from 'prismjs'
 
 import '!./output.css'
-import { AddIconsHandler, GetSelectedIconsHandler, GetSelectedIconsResponseHandler, IconData, ProcessedIcon, UpdateIconNameHandler, UpdateIconDescriptionHandler, IconUpdatedHandler, FlattenIconsHandler, ShowSuccessHandler, ShowErrorHandler, CloseConfirmationHandler } from './types'
+import { AddIconsHandler, GetSelectedIconsHandler, GetSelectedIconsResponseHandler, IconData, ProcessedIcon, UpdateIconNameHandler, UpdateIconDescriptionHandler, IconUpdatedHandler, FlattenIconsHandler, ShowSuccessHandler, ShowErrorHandler, CloseConfirmationHandler, ChunkRunProgress, WorkflowRunState, WorkflowRunUpdateHandler, GetGitHubSettingsHandler, GitHubSettingsHandler, SaveGitHubTokenHandler, ClearGitHubTokenHandler, CheckGitHubAccessHandler, GitHubAccessResultHandler, PreflightIssue, PreflightResult, DeliveryMode, DeliveryProfile, DeliveryProfilesHandler, PayloadEncoding, GetDeliveryProfilesHandler, SaveDeliveryProfileHandler, DeleteDeliveryProfileHandler, SetActiveProfileHandler, CheckIconConflictsHandler, IconConflictsHandler, IconConflict, ConflictResolution, FailedChunkSummary, FailedChunksHandler, GetFailedChunksHandler, ResumeFailedChunksHandler, DiscardFailedChunksHandler, BatchRecord, BatchRecordsHandler, GetBatchRecordsHandler, SaveProfileSecretHandler, DryRunFileChange, DryRunResult, DryRunResultHandler, PreviewSubmissionHandler, IconColorMode, CanvasNormalization, ComponentTemplateHandler, ComponentTemplateId, OutputTarget, DetectionRules, DetectionRulesHandler, GetDetectionRulesHandler, SaveDetectionRulesHandler, IconNodeType, RejectedNode, ScanPage, ScannedIcon, GetScanPagesHandler, ScanPagesHandler, ScanIconsHandler, CancelScanHandler, ScanProgressHandler, SelectScannedIconsHandler, LoadScannedIconsHandler } from './types'
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, REPOSITORY_TEMPLATE_ID } from './code-templates'
+import { findNameCollisions, getIconNames } from './icon-names'
+import { getEndpointUrlProblem } from './network-access'
+import { processSvgToReact } from './svgr-processor'
 
 
 
-function ReactCodeDisplay({ processedIcon }: { processedIcon: ProcessedIcon }) {
+// Output targets in the order of their tabs; Vue, Svelte and SVG code is highlighted as markup
+const OUTPUT_TARGETS: { value: OutputTarget; label: string; language: 'javascript' | 'markup' }[] = [
+  { value: 'react', label: 'React', language: 'javascript' },
+  { value: 'vue', label: 'Vue', language: 'markup' },
+  { value: 'svelte', label: 'Svelte', language: 'markup' },
+  { value: 'react-native', label: 'Native', language: 'javascript' },
+  { value: 'svg', label: 'SVG', language: 'markup' }
+]
+
+function CodeDisplay({ code, language }: { code: string; language: 'javascript' | 'markup' }) {
   // Use Prism.js for syntax highlighting
-  const highlightedCode = Prism.highlight(processedIcon.reactCode, Prism.languages.javascript, 'javascript');
+  const highlightedCode = Prism.highlight(code, Prism.languages[language], language);
 
   return (
     <div class="bg-[var(--figma-color-bg-secondary)] max-w-full p-3 rounded border border-[var(--figma-color-border)] font-mono text-xs overflow-auto">
@@ -44,14 +65,144 @@ export function getReactComponentCode(processedIcon: ProcessedIcon): string {
   return processedIcon.reactCode;
 }
 
-function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesChange }: {
+function getConflictDescription(conflict: IconConflict): string {
+  switch (conflict.kind) {
+    case 'both':
+      return `Already exists as "${conflict.existingName}" with the same artwork`
+    case 'name':
+      return `The name "${conflict.existingName}" is already used in the design system`
+    case 'svg':
+      return `Identical artwork already exists as "${conflict.existingName}"`
+  }
+}
+
+function ConflictResolutionToggle({ resolution, onChange }: {
+  resolution: ConflictResolution
+  onChange: (resolution: ConflictResolution) => void
+}) {
+  return (
+    <SegmentedControl
+      value={resolution}
+      onValueChange={value => onChange(value as ConflictResolution)}
+      options={[
+        { value: 'skip', children: 'Skip' },
+        { value: 'update', children: 'Update' }
+      ]}
+    />
+  )
+}
+
+// Regenerate an icon's preview and code for its color mode and the component template; whether
+// the icon needs flattening depends on neither
+function regenerateIcon(icon: IconData, template: string | undefined): IconData {
+  const { isSinglePath, ...processedIcon } = processSvgToReact(icon.svg, icon.name, { colorMode: icon.colorMode, template, aliases: icon.aliases, variants: icon.variants })
+  return { ...icon, processedIcon }
+}
+
+const COLOR_MODES: { value: IconColorMode; label: string; description: string }[] = [
+  { value: 'monochrome', label: 'Monochrome', description: 'Every color follows currentColor' },
+  { value: 'duotone', label: 'Duotone', description: 'The main color follows currentColor (the color prop), the others the secondaryColor prop' },
+  { value: 'original', label: 'Original', description: 'Colors are kept as they are in Figma' }
+]
+
+// One tile per color mode, each previewing the icon as that mode would generate it
+function ColorModePicker({ icon, onChange }: {
+  icon: IconData
+  onChange: (colorMode: IconColorMode) => void
+}) {
+  const previews = useMemo(
+    () => COLOR_MODES.map(mode => processSvgToReact(icon.svg, icon.name, { colorMode: mode.value }).previewSvg),
+    [icon.svg, icon.name]
+  )
+  const selectedMode = icon.colorMode || 'monochrome'
+
+  return (
+    <div class="grid grid-cols-3 gap-2">
+      {COLOR_MODES.map((mode, index) => (
+        <button
+          key={mode.value}
+          class={`flex flex-col items-center gap-1 p-2 rounded border ${mode.value === selectedMode ? 'border-[var(--figma-color-border-selected)] bg-[var(--figma-color-bg-selected)]' : 'border-[var(--figma-color-border)]'}`}
+          title={mode.description}
+          onClick={() => onChange(mode.value)}
+        >
+          <div
+            class="flex items-center justify-center [&>svg]:size-6 [&>svg]:text-current [&>svg]:fill-current"
+            dangerouslySetInnerHTML={{ __html: previews[index] }}
+          />
+          <span class="text-[11px]">{mode.label}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+// Why selected layers weren't picked up as icons, following the detection rules in Settings
+function RejectedNodeList({ nodes }: { nodes: RejectedNode[] }) {
+  return (
+    <div class="flex flex-col gap-1 w-full text-[11px]">
+      {nodes.map(node => (
+        <div key={node.id} class="flex items-start gap-1">
+          <IconWarning16 class="shrink-0 scale-75" />
+          <span><strong class="font-medium">{node.name}</strong>: {node.reason}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// The exported bounds at their original size (dashed) and where they were fitted (solid), over
+// the preview of an icon that was normalized onto the canvas
+function CanvasBoundsOverlay({ canvas }: { canvas: CanvasNormalization }) {
+  const { size, original, normalized } = canvas
+  return (
+    <svg
+      class="absolute inset-0 size-20 overflow-visible pointer-events-none"
+      viewBox={`0 0 ${size} ${size}`}
+      fill="none"
+      stroke-width={1}
+    >
+      <title>{`Fitted from ${original.width}×${original.height} onto the ${size}×${size} canvas`}</title>
+      <rect width={size} height={size} class="stroke-[color:var(--figma-color-border)]" vector-effect="non-scaling-stroke" />
+      <rect
+        x={(size - original.width) / 2}
+        y={(size - original.height) / 2}
+        width={original.width}
+        height={original.height}
+        class="stroke-[color:var(--figma-color-text-secondary)]"
+        stroke-dasharray="2 2"
+        vector-effect="non-scaling-stroke"
+      />
+      <rect
+        x={normalized.x}
+        y={normalized.y}
+        width={normalized.width}
+        height={normalized.height}
+        class="stroke-[color:var(--figma-color-border-brand-strong)]"
+        vector-effect="non-scaling-stroke"
+      />
+    </svg>
+  )
+}
+
+function IconPreview({ icon, isLoading, isFlattening, templateError, detectionRules, rejectedNodes, nameCollisions, outputTargets, onNameChange, onAliasesChange, onConflictResolutionChange, onColorModeChange, onOutputTargetToggle }: {
   icon: IconData | null
   isLoading: boolean
   isFlattening: boolean
+  templateError?: string
+  detectionRules: DetectionRules | null
+  rejectedNodes: RejectedNode[] // Selected layers that weren't picked up as icons
+  nameCollisions?: string[] // Other icons of the batch with the same file or component name
+  outputTargets: OutputTarget[] // Included in the submission
   onNameChange: (name: string) => void
   onAliasesChange: (aliases: string[]) => void
+  onConflictResolutionChange: (resolution: ConflictResolution) => void
+  onColorModeChange: (colorMode: IconColorMode) => void
+  onOutputTargetToggle: (target: OutputTarget, isIncluded: boolean) => void
 }) {
   const [aliasesText, setAliasesText] = useState(icon?.aliases?.join(', ') || '')
+  const [outputTab, setOutputTab] = useState<OutputTarget>('react')
+  const outputTabLanguage = OUTPUT_TARGETS.find(target => target.value === outputTab)?.language || 'javascript'
+  const names = icon ? getIconNames(icon.name) : null
 
   // Update aliases text when icon changes - show existing aliases or description
   useEffect(() => {
@@ -89,10 +240,25 @@ function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesCha
         {icon ? (
           <div>
             {icon.processedIcon ? (
-              <div
-                class="flex items-center justify-center [&>svg]:size-20 [&>svg]:text-current [&>svg]:fill-current"
-                dangerouslySetInnerHTML={{ __html: icon.processedIcon.previewSvg }}
-              />
+              <div class="relative">
+                <div
+                  class="flex items-center justify-center [&>svg]:size-20 [&>svg]:text-current [&>svg]:fill-current"
+                  dangerouslySetInnerHTML={{ __html: icon.processedIcon.previewSvg }}
+                />
+                {icon.canvas && <CanvasBoundsOverlay canvas={icon.canvas} />}
+                {icon.processedIcon.variantPreviews && (
+                  <div class="flex flex-wrap justify-center gap-1 mt-2 mb-6 max-w-64">
+                    {icon.processedIcon.variantPreviews.map(variant => (
+                      <div
+                        key={variant.label}
+                        class="flex items-center justify-center size-8 rounded bg-[var(--figma-color-bg)] [&>svg]:size-6 [&>svg]:text-current [&>svg]:fill-current"
+                        title={variant.label}
+                        dangerouslySetInnerHTML={{ __html: variant.previewSvg }}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
             ) : (
               <div
                 class="flex items-center justify-center [&>svg]:size-12 [&>svg]:text-current [&>svg]:fill-current"
@@ -100,8 +266,16 @@ function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesCha
               />
             )}
             <div class="absolute bottom-1 right-1 px-1.5 py-px bg-[var(--figma-color-bg)] rounded-full font-mono text-[10px] text-[var(--figma-color-text-secondary)]">
-              {Math.round(icon.width)}×{Math.round(icon.height)}
+              {Math.round(icon.width)}×{Math.round(icon.height)}{icon.canvas && ` → ${icon.canvas.size}×${icon.canvas.size}`}
             </div>
+            {icon.optimization && icon.optimization.optimizedBytes < icon.optimization.originalBytes && (
+              <div
+                class="absolute bottom-1 left-1 px-1.5 py-px bg-[var(--figma-color-bg)] rounded-full font-mono text-[10px] text-[var(--figma-color-text-secondary)]"
+                title={`SVG optimized from ${icon.optimization.originalBytes.toLocaleString()} to ${icon.optimization.optimizedBytes.toLocaleString()} bytes. Coordinates are rounded to ${icon.optimization.precision} decimals; no point moves by more than ${0.5 * Math.pow(10, -icon.optimization.precision)}.`}
+              >
+                −{(icon.optimization.originalBytes - icon.optimization.optimizedBytes).toLocaleString()} bytes ({Math.round((1 - icon.optimization.optimizedBytes / icon.optimization.originalBytes) * 100)}%)
+              </div>
+            )}
             {icon.isSinglePath === false && (
               <div class="absolute top-1 left-1 flex items-center gap=px pl-1 pr-2 py-px bg-[var(--figma-color-bg-warning)] rounded-full text-[10px] text-[var(--figma-color-text-onwarning)]">
                 <IconWarning16 class="scale-75" />
@@ -114,9 +288,10 @@ function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesCha
             <LoadingIndicator />
           </div>
         ) : (
-          <div class="flex flex-col items-center justify-center gap-4">
+          <div class="flex flex-col items-center justify-center gap-4 px-4">
             <IconInspect24 />
-            <Text>Select <code class="font-mono border border-figma-border rounded text-[10px] px-1 py-0.5">24×24px</code> icon(s) to get started</Text>
+            <Text>Select <code class="font-mono border border-figma-border rounded text-[10px] px-1 py-0.5">{detectionRules ? detectionRules.frameSizes.join(', ') : '24'}px</code> icon(s) to get started</Text>
+            {rejectedNodes.length > 0 && <RejectedNodeList nodes={rejectedNodes} />}
           </div>
         )}
       </div>
@@ -127,6 +302,24 @@ function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesCha
           <Container space="medium">
             <VerticalSpace space="medium" />
             <Stack space="medium">
+              {rejectedNodes.length > 0 && (
+                <details class="text-[11px] text-[var(--figma-color-text-secondary)]">
+                  <summary class="cursor-default">{rejectedNodes.length} other selected layer{rejectedNodes.length !== 1 ? "s weren't" : " wasn't"} picked up as {rejectedNodes.length !== 1 ? 'icons' : 'an icon'}</summary>
+                  <RejectedNodeList nodes={rejectedNodes} />
+                </details>
+              )}
+              {icon.conflict && (
+                <div class="flex flex-col gap-2 p-2 rounded bg-[var(--figma-color-bg-warning-tertiary)]">
+                  <div class="flex items-start gap-1 text-[11px]">
+                    <IconWarning16 class="shrink-0" />
+                    <span>{getConflictDescription(icon.conflict)} ({icon.conflict.existingPath}).</span>
+                  </div>
+                  <ConflictResolutionToggle
+                    resolution={icon.conflictResolution || 'skip'}
+                    onChange={onConflictResolutionChange}
+                  />
+                </div>
+              )}
               <div>
                 <Text>Icon Name</Text>
                 <VerticalSpace space="extraSmall" />
@@ -136,6 +329,18 @@ function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesCha
                   placeholder={icon ? "Enter icon name" : "No icon selected"}
                   disabled={!icon}
                 />
+                {names && (
+                  <div class="flex flex-col gap-0.5 mt-1 text-[10px] text-[var(--figma-color-text-secondary)]">
+                    <span class="font-mono">{names.fileName}.tsx · {names.componentName}</span>
+                    {names.notes.map(note => <span key={note}>{note}</span>)}
+                    {nameCollisions && (
+                      <span class="flex items-start gap-1 text-[var(--figma-color-text-warning)]">
+                        <IconWarning16 class="shrink-0 scale-75" />
+                        <span>Same file or component name as {nameCollisions.map(name => `"${name}"`).join(', ')}. Rename one of them to submit.</span>
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
               <div>
                 <Text>Aliases (comma-separated)</Text>
@@ -147,11 +352,40 @@ function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesCha
                   disabled={!icon}
                 />
               </div>
+              <div>
+                <Text>Colors</Text>
+                <VerticalSpace space="extraSmall" />
+                <ColorModePicker icon={icon} onChange={onColorModeChange} />
+              </div>
               {icon?.processedIcon && (
                 <div>
                   <Text>Output Code</Text>
                   <VerticalSpace space="extraSmall" />
-                  <ReactCodeDisplay processedIcon={icon.processedIcon} />
+                  {templateError && (
+                    <div class="flex items-start gap-1 mb-2 text-[11px] text-[var(--figma-color-text-warning)]">
+                      <IconWarning16 class="shrink-0" />
+                      <span>Component template couldn't be loaded, showing the built-in one: {templateError}</span>
+                    </div>
+                  )}
+                  <SegmentedControl
+                    value={outputTab}
+                    onValueChange={value => setOutputTab(value as OutputTarget)}
+                    options={OUTPUT_TARGETS.map(target => ({ value: target.value, children: target.label }))}
+                  />
+                  <VerticalSpace space="extraSmall" />
+                  <Toggle
+                    value={outputTargets.includes(outputTab)}
+                    onValueChange={isIncluded => onOutputTargetToggle(outputTab, isIncluded)}
+                    // At least one target has to be submitted
+                    disabled={outputTargets.length === 1 && outputTargets[0] === outputTab}
+                  >
+                    <Text>Include in submission</Text>
+                  </Toggle>
+                  <VerticalSpace space="extraSmall" />
+                  <CodeDisplay
+                    code={outputTab === 'react' ? icon.processedIcon.reactCode : icon.processedIcon.outputs?.[outputTab] || '// Not generated for this icon'}
+                    language={outputTabLanguage}
+                  />
                 </div>
               )}
             </Stack>
@@ -165,19 +399,154 @@ function IconPreview({ icon, isLoading, isFlattening, onNameChange, onAliasesCha
 
 type ConfirmationType = 'success' | 'error'
 
+const RUN_STATE_LABELS: Record<WorkflowRunState, string> = {
+  pending: 'Waiting for run',
+  queued: 'Queued',
+  in_progress: 'In progress',
+  success: 'Success',
+  failure: 'Failed'
+}
+
+const RUN_STATE_COLORS: Record<WorkflowRunState, string> = {
+  pending: 'text-[var(--figma-color-text-tertiary)]',
+  queued: 'text-[var(--figma-color-text-secondary)]',
+  in_progress: 'text-[var(--figma-color-text-brand)]',
+  success: 'text-[var(--figma-color-text-success)]',
+  failure: 'text-[var(--figma-color-text-danger)]'
+}
+
+function WorkflowRunList({ runs }: { runs: ChunkRunProgress[] }) {
+  return (
+    <div class="w-full flex flex-col border border-[var(--figma-color-border)] rounded text-left">
+      {runs.map(run => (
+        <div key={run.chunkNumber} class="flex items-center gap-2 px-2 py-1.5 border-b last:border-b-0 border-[var(--figma-color-border)]">
+          <div class="flex-1 min-w-0">
+            <div class="font-medium">Chunk {run.chunkNumber}/{run.totalChunks}</div>
+            <div class="text-[10px] text-[var(--figma-color-text-secondary)]">
+              {run.iconCount} icon{run.iconCount !== 1 ? 's' : ''}
+            </div>
+          </div>
+          <div class={`flex items-center gap-1 text-[11px] ${RUN_STATE_COLORS[run.state]}`}>
+            {(run.state === 'pending' || run.state === 'queued' || run.state === 'in_progress') && (
+              <LoadingIndicator />
+            )}
+            <span>{run.conclusion && run.state === 'failure' ? `${RUN_STATE_LABELS[run.state]} (${run.conclusion.replace(/_/g, ' ')})` : RUN_STATE_LABELS[run.state]}</span>
+          </div>
+          {run.runUrl && (
+            <a
+              class="text-[11px] text-[var(--figma-color-text-brand)] underline"
+              href={run.runUrl}
+              target="_blank"
+              rel="noreferrer"
+            >
+              View run
+            </a>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function PreflightIssueList({ issues }: { issues: PreflightIssue[] }) {
+  return (
+    <div class="w-full flex flex-col gap-2 text-left">
+      {issues.map(issue => (
+        <div key={issue.code} class="p-2 rounded bg-[var(--figma-color-bg-secondary)]">
+          <div class="flex items-start gap-1 text-[var(--figma-color-text-danger)] font-medium">
+            <IconWarning16 class="shrink-0" />
+            <span>{issue.message}</span>
+          </div>
+          <div class="mt-1 text-[11px] text-[var(--figma-color-text-secondary)]">
+            {issue.remediation}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Chunks from earlier submissions that failed after retries and can be resent
+function FailedChunksBanner({ chunks, isResuming, onResume, onDiscard }: {
+  chunks: FailedChunkSummary[]
+  isResuming: boolean
+  onResume: () => void
+  onDiscard: () => void
+}) {
+  const iconNames = chunks.reduce<string[]>((names, chunk) => names.concat(chunk.iconNames), [])
+  const lastChunk = chunks[chunks.length - 1]
+  const profileNames = chunks
+    .map(chunk => chunk.profileName)
+    .filter((name, index, names) => names.indexOf(name) === index)
+
+  return (
+    <div class="p-2 border-t border-[var(--figma-color-border)] flex flex-col gap-2 bg-[var(--figma-color-bg-warning-tertiary)]">
+      <div class="flex items-start gap-1 text-[11px]">
+        <IconWarning16 class="shrink-0" />
+        <div class="min-w-0">
+          <div class="font-medium">
+            {iconNames.length} icon{iconNames.length !== 1 ? 's' : ''} from an earlier submission{profileNames.length === 1 ? ` to ${profileNames[0]}` : ''} {iconNames.length !== 1 ? 'were' : 'was'} not sent
+          </div>
+          <div class="truncate text-[var(--figma-color-text-secondary)]" title={iconNames.join(', ')}>
+            {iconNames.join(', ')}
+          </div>
+          <div class="truncate text-[10px] text-[var(--figma-color-text-secondary)]" title={lastChunk.error}>
+            {lastChunk.error}
+          </div>
+        </div>
+      </div>
+      <div class="flex gap-2 justify-end">
+        <Button secondary onClick={onDiscard} disabled={isResuming}>
+          Discard
+        </Button>
+        <Button onClick={onResume} loading={isResuming}>
+          Resume
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// What happens to the icons next, depending on how they were delivered
+function getSuccessMessage(iconCount: number, deliveryMode?: DeliveryMode): string {
+  const icons = `${iconCount} icon${iconCount !== 1 ? 's' : ''} ${iconCount !== 1 ? 'have' : 'has'}`
+  switch (deliveryMode) {
+    case 'pull-request':
+      return `${icons} been committed to a new branch and a pull request has been opened for review.`
+    case 'gitlab-merge-request':
+      return `${icons} been committed to a new branch and a merge request has been opened for review.`
+    case 'webhook':
+      return `${icons} been sent to the webhook of your delivery profile.`
+    case 'fake':
+      return `${icons} been accepted by the local test backend. Nothing was sent.`
+    default:
+      return `${icons} been sent to your design system. A GitHub Actions workflow is now processing your icons and will create a pull request when complete.`
+  }
+}
+
 function ConfirmationModal({
   type,
   title,
   message,
   details,
+  deliveryMode,
   workflowUrl,
+  pullRequestUrl,
+  runs,
+  issues,
+  batchId,
   onClose
 }: {
   type: ConfirmationType
   title: string
   message: string
   details?: string
+  deliveryMode?: DeliveryMode
   workflowUrl?: string
+  pullRequestUrl?: string
+  runs?: ChunkRunProgress[]
+  issues?: PreflightIssue[]
+  batchId?: string
   onClose: () => void
 }) {
   const isSuccess = type === 'success'
@@ -216,9 +585,24 @@ function ConfirmationModal({
               )}
             </div>
 
+            {/* Preflight problems with remediation */}
+            {issues && issues.length > 0 && isError && (
+              <PreflightIssueList issues={issues} />
+            )}
+
+            {/* Per-chunk workflow run progress */}
+            {runs && runs.length > 0 && isSuccess && (
+              <WorkflowRunList runs={runs} />
+            )}
+            {batchId && isSuccess && (
+              <div class="text-[10px] text-[var(--figma-color-text-tertiary)]">
+                Batch <span class="font-mono select-all">{batchId}</span>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div class="flex gap-2">
-              {workflowUrl && isSuccess && (
+              {workflowUrl && isSuccess && !(runs && runs.some(run => run.runUrl)) && (
                 <Button
                   secondary
                   onClick={() => {
@@ -229,6 +613,17 @@ function ConfirmationModal({
                   View Progress
                 </Button>
               )}
+              {pullRequestUrl && isSuccess && (
+                <Button
+                  secondary
+                  onClick={() => {
+                    // Open the pull request in new tab
+                    window.open(pullRequestUrl, '_blank')
+                  }}
+                >
+                  {deliveryMode === 'gitlab-merge-request' ? 'View Merge Request' : deliveryMode === 'webhook' ? 'View Result' : 'View Pull Request'}
+                </Button>
+              )}
               <Button onClick={onClose}>
                 Close
               </Button>
@@ -240,6 +635,715 @@ function ConfirmationModal({
   )
 }
 
+// Must match DEFAULT_PROFILE_ID in profiles.ts; the built-in profile is read-only
+const DEFAULT_PROFILE_ID = 'production'
+
+const DELIVERY_MODE_LABELS: { [mode in DeliveryMode]: string } = {
+  'workflow': 'GitHub workflow',
+  'pull-request': 'GitHub pull request',
+  'gitlab-merge-request': 'GitLab merge request',
+  'webhook': 'Webhook',
+  'fake': 'Local test (no network)'
+}
+
+// Must match isGitHubMode in delivery.ts; these modes use the GitHub token
+function isGitHubMode(mode: DeliveryMode): boolean {
+  return mode === 'workflow' || mode === 'pull-request'
+}
+
+// Short description of where a profile delivers to
+function getProfileTarget(profile: DeliveryProfile): string {
+  switch (profile.deliveryMode) {
+    case 'workflow':
+      return `${profile.owner}/${profile.repo} · ${profile.branch} · ${profile.workflowFile}`
+    case 'pull-request':
+      return `${profile.owner}/${profile.repo} · ${profile.branch} · pull request`
+    case 'gitlab-merge-request':
+      return `${profile.owner}/${profile.repo} · ${profile.branch} · merge request`
+    case 'webhook':
+      return profile.endpointUrl || 'webhook'
+    case 'fake':
+      return 'local test, nothing is sent'
+  }
+}
+
+function ProfileEditor({
+  profile,
+  secretHint,
+  onSave,
+  onCancel
+}: {
+  profile: DeliveryProfile
+  secretHint?: string
+  onSave: (profile: DeliveryProfile, secret: string) => void
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState<DeliveryProfile>(profile)
+  const [secret, setSecret] = useState('')
+
+  const updateField = useCallback(function (field: keyof DeliveryProfile, value: string) {
+    setDraft(prev => ({ ...prev, [field]: value }))
+  }, [])
+
+  // Webhooks and local tests don't target a repository
+  const hasRepository = draft.deliveryMode !== 'webhook' && draft.deliveryMode !== 'fake'
+  // Figma blocks hosts that the manifest doesn't list; GitLab falls back to gitlab.com without a URL
+  const endpointUrl = (draft.endpointUrl || '').trim()
+  const endpointUrlProblem = endpointUrl !== '' && (draft.deliveryMode === 'gitlab-merge-request' || draft.deliveryMode === 'webhook')
+    ? getEndpointUrlProblem(endpointUrl)
+    : null
+  const isComplete = endpointUrlProblem === null && draft.name.trim() !== '' &&
+    (!hasRepository || (draft.owner.trim() !== '' && draft.repo.trim() !== '' && draft.branch.trim() !== '')) &&
+    (draft.deliveryMode !== 'workflow' || draft.workflowFile.trim() !== '') &&
+    (draft.deliveryMode !== 'webhook' || (draft.endpointUrl || '').trim() !== '')
+
+  return (
+    <div class="flex flex-col gap-2 p-2 rounded border border-[var(--figma-color-border)]">
+      <Textbox value={draft.name} onValueInput={value => updateField('name', value)} placeholder="Profile name, e.g. My fork" />
+      <Dropdown
+        value={draft.deliveryMode}
+        onValueChange={value => updateField('deliveryMode', value as DeliveryMode)}
+        options={(Object.keys(DELIVERY_MODE_LABELS) as DeliveryMode[]).map(mode => ({ value: mode, text: DELIVERY_MODE_LABELS[mode] }))}
+      />
+      {hasRepository && (
+        <div class="flex gap-2">
+          <div class="flex-1"><Textbox value={draft.owner} onValueInput={value => updateField('owner', value)} placeholder={draft.deliveryMode === 'gitlab-merge-request' ? 'Group' : 'Owner'} /></div>
+          <div class="flex-1"><Textbox value={draft.repo} onValueInput={value => updateField('repo', value)} placeholder={draft.deliveryMode === 'gitlab-merge-request' ? 'Project' : 'Repository'} /></div>
+        </div>
+      )}
+      {hasRepository && (
+        <Textbox value={draft.branch} onValueInput={value => updateField('branch', value)} placeholder="Branch" />
+      )}
+      {draft.deliveryMode === 'gitlab-merge-request' && (
+        <Textbox value={draft.endpointUrl || ''} onValueInput={value => updateField('endpointUrl', value)} placeholder="GitLab URL (default https://gitlab.com)" />
+      )}
+      {draft.deliveryMode === 'webhook' && (
+        <Textbox value={draft.endpointUrl || ''} onValueInput={value => updateField('endpointUrl', value)} placeholder="Webhook URL, e.g. https://ci.example.com/hooks/icons" />
+      )}
+      {endpointUrlProblem && (
+        <div class="text-[10px] text-[var(--figma-color-text-danger)]">{endpointUrlProblem}</div>
+      )}
+      {(draft.deliveryMode === 'gitlab-merge-request' || draft.deliveryMode === 'webhook') && (
+        <Textbox
+          password
+          value={secret}
+          onValueInput={setSecret}
+          placeholder={secretHint
+            ? `Saved ${draft.deliveryMode === 'webhook' ? 'secret' : 'token'} ${secretHint} (enter a new one to rotate)`
+            : draft.deliveryMode === 'webhook' ? 'Bearer secret (optional)' : 'GitLab access token with the api scope'}
+        />
+      )}
+      {draft.deliveryMode === 'workflow' && (
+        <Textbox value={draft.workflowFile} onValueInput={value => updateField('workflowFile', value)} placeholder="Workflow file, e.g. design-system-add-icons.yml" />
+      )}
+      {draft.deliveryMode === 'workflow' && (
+        <div class="flex items-center gap-2">
+          <Text class="shrink-0">Payload</Text>
+          <Dropdown
+            value={draft.payloadEncoding || 'legacy'}
+            onValueChange={value => updateField('payloadEncoding', value as PayloadEncoding)}
+            options={[
+              { value: 'legacy', text: 'Base64 (original format)' },
+              { value: 'gzip', text: 'Gzip compressed' },
+              { value: 'deflate', text: 'Deflate compressed' },
+              { value: 'none', text: 'Uncompressed' }
+            ]}
+          />
+        </div>
+      )}
+      <div class="flex items-center gap-2">
+        <Text class="shrink-0">Component</Text>
+        <Dropdown
+          value={draft.componentTemplate || DEFAULT_TEMPLATE_ID}
+          onValueChange={value => updateField('componentTemplate', value as ComponentTemplateId)}
+          options={[
+            ...BUILT_IN_TEMPLATES.map(template => ({ value: template.id, text: template.name })),
+            // Webhooks and local tests have no repository to read a template from
+            ...(hasRepository ? [{ value: REPOSITORY_TEMPLATE_ID, text: 'From the repository' }] : [])
+          ]}
+        />
+      </div>
+      <div class="flex gap-2">
+        <Button onClick={() => onSave({ ...draft, name: draft.name.trim(), owner: draft.owner.trim(), repo: draft.repo.trim(), branch: draft.branch.trim(), workflowFile: draft.workflowFile.trim(), endpointUrl: (draft.endpointUrl || '').trim() || undefined }, secret)} disabled={!isComplete}>
+          Save profile
+        </Button>
+        <Button secondary onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function DeliveryProfileSettings({
+  profiles,
+  activeProfileId,
+  profileSecretHints
+}: {
+  profiles: DeliveryProfile[]
+  activeProfileId: string
+  profileSecretHints: { [profileId: string]: string }
+}) {
+  const [editingProfile, setEditingProfile] = useState<DeliveryProfile | null>(null)
+
+  const handleAddProfile = useCallback(function () {
+    // Start from the active profile so a fork or staging branch only needs a small change
+    const baseProfile = profiles.find(profile => profile.id === activeProfileId) || profiles[0]
+    setEditingProfile({
+      ...baseProfile,
+      id: `profile-${Date.now().toString(36)}`,
+      name: ''
+    })
+  }, [profiles, activeProfileId])
+
+  const handleSaveProfile = useCallback(function (profile: DeliveryProfile, secret: string) {
+    emit<SaveDeliveryProfileHandler>('SAVE_DELIVERY_PROFILE', profile)
+    // An empty secret keeps the saved one
+    if (secret.trim() !== '') {
+      emit<SaveProfileSecretHandler>('SAVE_PROFILE_SECRET', { profileId: profile.id, secret })
+    }
+    setEditingProfile(null)
+  }, [])
+
+  return (
+    <div>
+      <Text>Delivery profiles</Text>
+      <VerticalSpace space="extraSmall" />
+      <div class="flex flex-col border border-[var(--figma-color-border)] rounded">
+        {profiles.map(profile => (
+          <div key={profile.id} class="flex items-center gap-2 px-2 py-1.5 border-b last:border-b-0 border-[var(--figma-color-border)]">
+            <div class="flex-1 min-w-0">
+              <div class="font-medium truncate">
+                {profile.name}{profile.id === activeProfileId ? ' (active)' : ''}
+              </div>
+              <div class="text-[10px] text-[var(--figma-color-text-secondary)] truncate">
+                {getProfileTarget(profile)}
+              </div>
+            </div>
+            {profile.id !== DEFAULT_PROFILE_ID && (
+              <div class="flex gap-1">
+                <Button secondary onClick={() => setEditingProfile(profile)}>Edit</Button>
+                <Button secondary danger onClick={() => emit<DeleteDeliveryProfileHandler>('DELETE_DELIVERY_PROFILE', { profileId: profile.id })}>Delete</Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <VerticalSpace space="extraSmall" />
+      {editingProfile ? (
+        <ProfileEditor
+          key={editingProfile.id}
+          profile={editingProfile}
+          secretHint={profileSecretHints[editingProfile.id]}
+          onSave={handleSaveProfile}
+          onCancel={() => setEditingProfile(null)}
+        />
+      ) : (
+        <Button secondary onClick={handleAddProfile}>
+          Add profile
+        </Button>
+      )}
+    </div>
+  )
+}
+
+const ICON_NODE_TYPES: { value: IconNodeType; label: string }[] = [
+  { value: 'FRAME', label: 'Frames' },
+  { value: 'COMPONENT', label: 'Components' },
+  { value: 'COMPONENT_SET', label: 'Component sets' },
+  { value: 'INSTANCE', label: 'Instances' },
+  { value: 'VECTOR', label: 'Vectors' },
+  { value: 'BOOLEAN_OPERATION', label: 'Boolean operations' },
+  { value: 'GROUP', label: 'Groups' }
+]
+
+// Parse a comma-separated list of sizes, or null if any of them isn't a positive number
+function parseSizes(text: string): number[] | null {
+  const sizes = text.split(',').map(size => size.trim()).filter(Boolean).map(Number)
+  return sizes.length > 0 && sizes.every(size => size > 0) ? sizes : null
+}
+
+function getNamePatternError(pattern: string): string | null {
+  try {
+    new RegExp(pattern)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression'
+  }
+}
+
+// Which selected layers are picked up as icons; see icon-detection.ts
+function DetectionRuleSettings({ rules }: { rules: DetectionRules }) {
+  const [frameSizes, setFrameSizes] = useState(rules.frameSizes.join(', '))
+  const [tolerance, setTolerance] = useState(String(rules.tolerance))
+  const [minVectorSize, setMinVectorSize] = useState(String(rules.minVectorSize))
+  const [maxVectorSize, setMaxVectorSize] = useState(String(rules.maxVectorSize))
+  const [framesInVectorRange, setFramesInVectorRange] = useState(rules.framesInVectorRange)
+  const [nodeTypes, setNodeTypes] = useState<IconNodeType[]>(rules.nodeTypes)
+  const [namePrefix, setNamePrefix] = useState(rules.namePrefix)
+  const [namePattern, setNamePattern] = useState(rules.namePattern)
+
+  const sizes = parseSizes(frameSizes)
+  const patternError = getNamePatternError(namePattern)
+  const draft: DetectionRules = {
+    frameSizes: sizes || [],
+    tolerance: Number(tolerance),
+    minVectorSize: Number(minVectorSize),
+    maxVectorSize: Number(maxVectorSize),
+    framesInVectorRange,
+    nodeTypes: ICON_NODE_TYPES.map(type => type.value).filter(type => nodeTypes.includes(type)),
+    namePrefix,
+    namePattern
+  }
+  const isValid = sizes !== null && draft.tolerance >= 0 && draft.minVectorSize > 0 &&
+    draft.maxVectorSize >= draft.minVectorSize && draft.nodeTypes.length > 0 && patternError === null
+
+  return (
+    <div>
+      <Text>Icon detection</Text>
+      <VerticalSpace space="extraSmall" />
+      <div class="flex flex-col gap-2 p-2 rounded border border-[var(--figma-color-border)]">
+        <div class="flex items-center gap-2">
+          <Text class="shrink-0 w-24">Frame sizes</Text>
+          <div class="flex-1"><Textbox value={frameSizes} onValueInput={setFrameSizes} placeholder="16, 20, 24, 32" /></div>
+          <Text class="shrink-0">±</Text>
+          <div class="w-12"><Textbox value={tolerance} onValueInput={setTolerance} /></div>
+        </div>
+        <div class="flex items-center gap-2">
+          <Text class="shrink-0 w-24">Vector sizes</Text>
+          <div class="flex-1"><Textbox value={minVectorSize} onValueInput={setMinVectorSize} placeholder="Min" /></div>
+          <Text class="shrink-0">–</Text>
+          <div class="flex-1"><Textbox value={maxVectorSize} onValueInput={setMaxVectorSize} placeholder="Max" /></div>
+        </div>
+        <Checkbox value={framesInVectorRange} onValueChange={setFramesInVectorRange}>
+          <Text>Also frames of any size within the vector sizes</Text>
+        </Checkbox>
+        <div class="grid grid-cols-2 gap-1">
+          {ICON_NODE_TYPES.map(type => (
+            <Checkbox
+              key={type.value}
+              value={nodeTypes.includes(type.value)}
+              onValueChange={isIncluded => setNodeTypes(prev => isIncluded ? [...prev, type.value] : prev.filter(value => value !== type.value))}
+            >
+              <Text>{type.label}</Text>
+            </Checkbox>
+          ))}
+        </div>
+        <Textbox value={namePrefix} onValueInput={setNamePrefix} placeholder="Name prefix, e.g. icon/" />
+        <Textbox value={namePattern} onValueInput={setNamePattern} placeholder="Name pattern, e.g. ^(icon|ic)[-/]" />
+        {patternError && namePattern && (
+          <div class="text-[10px] text-[var(--figma-color-text-danger)]">{patternError}</div>
+        )}
+        <div class="text-[10px] text-[var(--figma-color-text-secondary)]">
+          Frames, components and instances must be square at one of the frame sizes{framesInVectorRange ? ', or within the vector sizes' : ''}. Vectors, boolean operations and groups must be within the vector sizes.
+        </div>
+        <div class="flex gap-2">
+          <Button onClick={() => emit<SaveDetectionRulesHandler>('SAVE_DETECTION_RULES', draft)} disabled={!isValid}>
+            Save rules
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Submissions recorded on this device, newest first, for looking up a batch later
+function RecentSubmissions({ records }: { records: BatchRecord[] }) {
+  return (
+    <div>
+      <Text>Recent submissions</Text>
+      <VerticalSpace space="extraSmall" />
+      {records.length === 0 ? (
+        <div class="text-[11px] text-[var(--figma-color-text-secondary)]">Nothing has been submitted from this device yet.</div>
+      ) : (
+        <div class="flex flex-col border border-[var(--figma-color-border)] rounded">
+          {records.map(record => (
+            <div key={record.batchId} class="flex flex-col gap-0.5 px-2 py-1.5 border-b last:border-b-0 border-[var(--figma-color-border)]">
+              <div class="flex items-center gap-2">
+                <div class="flex-1 font-medium truncate">
+                  {record.iconNames.length} icon{record.iconNames.length !== 1 ? 's' : ''} to {record.profileName}
+                </div>
+                <div class="text-[10px] text-[var(--figma-color-text-secondary)]">
+                  {new Date(record.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <div class="text-[10px] text-[var(--figma-color-text-secondary)] truncate" title={record.iconNames.join(', ')}>
+                {record.iconNames.join(', ')}
+              </div>
+              <div class="font-mono text-[10px] text-[var(--figma-color-text-tertiary)] select-all">{record.batchId}</div>
+              <div class="flex flex-wrap gap-x-2 text-[10px]">
+                {record.chunks.map(chunk => chunk.runUrl ? (
+                  <a
+                    key={chunk.chunkNumber}
+                    class={`underline ${RUN_STATE_COLORS[chunk.state]}`}
+                    href={chunk.runUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    {chunk.chunkNumber}/{chunk.totalChunks}: {RUN_STATE_LABELS[chunk.state]}
+                  </a>
+                ) : (
+                  <span key={chunk.chunkNumber} class={RUN_STATE_COLORS[chunk.state]}>
+                    {chunk.chunkNumber}/{chunk.totalChunks}: {RUN_STATE_LABELS[chunk.state]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const DRY_RUN_CHANGE_LABELS: { [change in DryRunFileChange]: string } = {
+  added: 'New',
+  modified: 'Changed',
+  unchanged: 'Unchanged',
+  unknown: 'Not compared'
+}
+
+const DRY_RUN_CHANGE_COLORS: { [change in DryRunFileChange]: string } = {
+  added: 'text-[var(--figma-color-text-success)]',
+  modified: 'text-[var(--figma-color-text-warning)]',
+  unchanged: 'text-[var(--figma-color-text-tertiary)]',
+  unknown: 'text-[var(--figma-color-text-secondary)]'
+}
+
+// Save the dry run as a JSON file, so it can be attached to a review
+function downloadDryRun(result: DryRunResult) {
+  const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `dry-run-${result.batchId}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// What a submission would send, chunk by chunk, with the files it would create or change
+function DryRunPanel({ result, onClose }: { result: DryRunResult; onClose: () => void }) {
+  const iconCount = result.chunks.reduce((count, chunk) => count + chunk.icons.length, 0)
+
+  return (
+    <div class="fixed inset-0 bg-[var(--figma-color-bg)] flex flex-col z-40">
+      <div class="flex-1 overflow-y-auto">
+        <Container space="medium">
+          <VerticalSpace space="medium" />
+          <Stack space="small">
+            <div class="text-lg font-semibold">Dry run</div>
+            <div class="text-[11px] text-[var(--figma-color-text-secondary)]">
+              {iconCount} icon{iconCount !== 1 ? 's' : ''} to {result.profileName} in {result.chunks.length} chunk{result.chunks.length !== 1 ? 's' : ''}. Nothing has been sent.
+            </div>
+            <div class="font-mono text-[10px] text-[var(--figma-color-text-tertiary)] select-all">
+              {result.batchId} · {result.manifestHash}
+            </div>
+            {result.diffError && (
+              <div class="text-[11px] text-[var(--figma-color-text-warning)]">{result.diffError}</div>
+            )}
+            {result.chunks.map(chunk => (
+              <div key={chunk.chunkNumber} class="flex flex-col gap-1 p-2 rounded border border-[var(--figma-color-border)]">
+                <div class="font-medium">
+                  Chunk {chunk.chunkNumber}/{chunk.totalChunks} · {chunk.icons.length} icon{chunk.icons.length !== 1 ? 's' : ''}
+                  {chunk.requestSize !== undefined ? ` · ${chunk.requestSize.toLocaleString()} bytes` : ''}
+                </div>
+                <details>
+                  <summary class="cursor-pointer text-[11px]">Decoded payload</summary>
+                  <pre class="text-[10px] whitespace-pre-wrap break-all max-h-48 overflow-y-auto">{JSON.stringify(chunk.icons, null, 2)}</pre>
+                </details>
+                {chunk.request !== undefined && (
+                  <details>
+                    <summary class="cursor-pointer text-[11px]">Request</summary>
+                    <pre class="text-[10px] whitespace-pre-wrap break-all max-h-48 overflow-y-auto">{chunk.request}</pre>
+                  </details>
+                )}
+                {chunk.files.map(file => (
+                  <details key={file.path}>
+                    <summary class="cursor-pointer text-[11px]">
+                      <span class="font-mono">{file.path}</span>{' '}
+                      <span class={DRY_RUN_CHANGE_COLORS[file.change]}>{DRY_RUN_CHANGE_LABELS[file.change]}</span>
+                    </summary>
+                    <pre class="text-[10px] whitespace-pre-wrap break-all max-h-64 overflow-y-auto">{file.diff || file.content}</pre>
+                  </details>
+                ))}
+              </div>
+            ))}
+          </Stack>
+          <VerticalSpace space="medium" />
+        </Container>
+      </div>
+      <div class="flex gap-2 p-2 border-t border-[var(--figma-color-border)]">
+        <div class="flex-1">
+          <Button secondary fullWidth onClick={() => downloadDryRun(result)}>
+            Save dry run
+          </Button>
+        </div>
+        <div class="flex-1">
+          <Button fullWidth onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// The state of the last scan, kept while the scan panel is closed
+interface ScanStatus {
+  isScanning: boolean
+  scannedNodes: number
+  pageName?: string
+  cancelled?: boolean
+}
+
+function getScannedIconLocation(icon: ScannedIcon): string {
+  return [icon.pageName, ...icon.path].join(' / ')
+}
+
+// Scanning pages for icons, and picking icons from the results to select or submit. Scans run in
+// the main thread and keep going while the panel is closed.
+function ScanPanel({ pages, icons, status, onScan, onCancel, onSelect, onLoad, onClose }: {
+  pages: ScanPage[]
+  icons: ScannedIcon[]
+  status: ScanStatus | null
+  onScan: (scopeIds: string[]) => void
+  onCancel: () => void
+  onSelect: (iconIds: string[]) => void
+  onLoad: (iconIds: string[]) => void
+  onClose: () => void
+}) {
+  const [scopeIds, setScopeIds] = useState<string[]>([])
+  const [filter, setFilter] = useState('')
+  const [checkedIds, setCheckedIds] = useState<string[]>([])
+
+  const toggleScope = (id: string, isIncluded: boolean) => setScopeIds(prev => isIncluded ? [...prev, id] : prev.filter(value => value !== id))
+  const query = filter.trim().toLowerCase()
+  const shownIcons = query
+    ? icons.filter(icon => `${icon.name} ${getScannedIconLocation(icon)}`.toLowerCase().includes(query))
+    : icons
+  const checkedIcons = icons.filter(icon => checkedIds.includes(icon.id))
+  const areAllShownChecked = shownIcons.length > 0 && shownIcons.every(icon => checkedIds.includes(icon.id))
+
+  return (
+    <div class="fixed inset-0 bg-[var(--figma-color-bg)] flex flex-col z-40">
+      <div class="flex-1 overflow-y-auto">
+        <Container space="medium">
+          <VerticalSpace space="medium" />
+          <Stack space="small">
+            <div class="text-lg font-semibold">Scan for icons</div>
+            <div class="text-[11px] text-[var(--figma-color-text-secondary)]">
+              Finds every layer on the chosen pages and sections that the detection rules pick up as an icon. Nothing checked scans the whole file.
+            </div>
+            <div class="flex flex-col gap-1 p-2 rounded border border-[var(--figma-color-border)] max-h-40 overflow-y-auto">
+              {pages.map(page => (
+                <div key={page.id}>
+                  <Checkbox value={scopeIds.includes(page.id)} onValueChange={isIncluded => toggleScope(page.id, isIncluded)}>
+                    <Text>{page.name}</Text>
+                  </Checkbox>
+                  {page.sections.length > 0 && !scopeIds.includes(page.id) && (
+                    <div class="flex flex-col gap-1 mt-1 pl-6">
+                      {page.sections.map(section => (
+                        <Checkbox key={section.id} value={scopeIds.includes(section.id)} onValueChange={isIncluded => toggleScope(section.id, isIncluded)}>
+                          <Text>{section.name}</Text>
+                        </Checkbox>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div class="flex items-center gap-2">
+              {status && status.isScanning ? (
+                <Button secondary onClick={onCancel}>Cancel scan</Button>
+              ) : (
+                <Button onClick={() => {
+                  setCheckedIds([])
+                  // Sections of a page that is scanned whole are left out
+                  onScan(scopeIds.filter(id => !pages.some(page => page.sections.some(section => section.id === id) && scopeIds.includes(page.id))))
+                }}>
+                  Scan {scopeIds.length === 0 ? 'whole file' : 'selected pages'}
+                </Button>
+              )}
+              {status && (
+                <div class="text-[11px] text-[var(--figma-color-text-secondary)]">
+                  {status.isScanning
+                    ? `Scanning${status.pageName ? ` "${status.pageName}"` : ''}… ${status.scannedNodes.toLocaleString()} layers, `
+                    : `${status.cancelled ? 'Cancelled after' : 'Scanned'} ${status.scannedNodes.toLocaleString()} layers, `}
+                  {icons.length} icon{icons.length !== 1 ? 's' : ''} found
+                </div>
+              )}
+            </div>
+            {icons.length > 0 && (
+              <div class="flex items-center gap-2">
+                <div class="flex-1">
+                  <Textbox value={filter} onValueInput={setFilter} placeholder="Filter by name, page or path" />
+                </div>
+                <Checkbox
+                  value={areAllShownChecked}
+                  onValueChange={isChecked => {
+                    const shownIds = shownIcons.map(icon => icon.id)
+                    setCheckedIds(prev => isChecked
+                      ? [...prev.filter(id => !shownIds.includes(id)), ...shownIds]
+                      : prev.filter(id => !shownIds.includes(id)))
+                  }}
+                >
+                  <Text>All shown</Text>
+                </Checkbox>
+              </div>
+            )}
+            <div class="flex flex-col">
+              {shownIcons.map(icon => (
+                <div key={icon.id} class="py-1 border-b border-[var(--figma-color-border)]">
+                  <Checkbox
+                    value={checkedIds.includes(icon.id)}
+                    onValueChange={isChecked => setCheckedIds(prev => isChecked ? [...prev, icon.id] : prev.filter(id => id !== icon.id))}
+                  >
+                    <div class="flex flex-col">
+                      <Text class="font-medium">{icon.name}</Text>
+                      <div class="text-[10px] text-[var(--figma-color-text-secondary)]">
+                        {getScannedIconLocation(icon)} · {Math.round(icon.width)}×{Math.round(icon.height)}
+                      </div>
+                    </div>
+                  </Checkbox>
+                </div>
+              ))}
+            </div>
+          </Stack>
+          <VerticalSpace space="medium" />
+        </Container>
+      </div>
+      <div class="flex gap-2 p-2 border-t border-[var(--figma-color-border)]">
+        <div class="flex-1">
+          <Button secondary fullWidth onClick={onClose}>
+            Close
+          </Button>
+        </div>
+        <div class="flex-1" title="A selection can't span pages, so only the icons on the first one's page are selected">
+          <Button secondary fullWidth disabled={checkedIcons.length === 0} onClick={() => onSelect(checkedIcons.map(icon => icon.id))}>
+            Select in Figma
+          </Button>
+        </div>
+        <div class="flex-1">
+          <Button fullWidth disabled={checkedIcons.length === 0} onClick={() => onLoad(checkedIcons.map(icon => icon.id))}>
+            Use {checkedIcons.length} icon{checkedIcons.length !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function SettingsPanel({
+  hasToken,
+  tokenHint,
+  accessResult,
+  isCheckingAccess,
+  onSaveToken,
+  onCheckAccess,
+  profiles,
+  activeProfileId,
+  profileSecretHints,
+  batchRecords,
+  detectionRules,
+  onClose
+}: {
+  hasToken: boolean
+  tokenHint?: string
+  accessResult?: PreflightResult
+  isCheckingAccess: boolean
+  onSaveToken: (token: string) => void
+  onCheckAccess: () => void
+  profiles: DeliveryProfile[]
+  activeProfileId: string
+  profileSecretHints: { [profileId: string]: string }
+  batchRecords: BatchRecord[]
+  detectionRules: DetectionRules | null
+  onClose: () => void
+}) {
+  const [token, setToken] = useState('')
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId)
+  // Other backends bring their own credentials, so they can be tested without a GitHub token
+  const canTestAccess = hasToken || (activeProfile !== undefined && !isGitHubMode(activeProfile.deliveryMode))
+
+  const handleSave = useCallback(function () {
+    onSaveToken(token)
+    setToken('')
+  }, [token, onSaveToken])
+
+  const handleClear = useCallback(function () {
+    emit<ClearGitHubTokenHandler>('CLEAR_GITHUB_TOKEN')
+    setToken('')
+  }, [])
+
+  return (
+    <div class="fixed inset-0 bg-[var(--figma-color-bg)] flex flex-col z-40">
+      <div class="flex-1 overflow-y-auto">
+        <Container space="medium">
+          <VerticalSpace space="medium" />
+          <Stack space="medium">
+            <div class="text-lg font-semibold">Settings</div>
+            <div>
+              <Text>GitHub Personal Access Token</Text>
+              <VerticalSpace space="extraSmall" />
+              <Textbox
+                password
+                value={token}
+                onValueInput={setToken}
+                placeholder={hasToken ? `Saved token ${tokenHint || ''} (enter a new one to rotate)` : 'ghp_…'}
+              />
+              <VerticalSpace space="extraSmall" />
+              <div class="text-[11px] text-[var(--figma-color-text-secondary)]">
+                {hasToken
+                  ? 'A token is saved for your account on this device only.'
+                  : 'No token saved. Create one at github.com/settings/tokens with the workflow and contents:write scopes.'}
+              </div>
+            </div>
+            <div class="flex gap-2">
+              <Button onClick={handleSave} disabled={token.trim() === ''}>
+                {hasToken ? 'Replace token' : 'Save token'}
+              </Button>
+              {canTestAccess && (
+                <Button secondary onClick={onCheckAccess} loading={isCheckingAccess}>
+                  Test access
+                </Button>
+              )}
+              {hasToken && (
+                <Button secondary danger onClick={handleClear}>
+                  Remove token
+                </Button>
+              )}
+            </div>
+            {canTestAccess && accessResult && !isCheckingAccess && (
+              accessResult.ok ? (
+                <div class="flex items-center gap-1 text-[11px] text-[var(--figma-color-text-success)]">
+                  <IconCheck16 />
+                  <span>
+                    {accessResult.login ? `Connected as ${accessResult.login}. ` : ''}
+                    {activeProfile && !isGitHubMode(activeProfile.deliveryMode)
+                      ? `"${activeProfile.name}" looks good.`
+                      : 'Token, repository and workflow look good.'}
+                  </span>
+                </div>
+              ) : (
+                <PreflightIssueList issues={accessResult.issues} />
+              )
+            )}
+            <DeliveryProfileSettings profiles={profiles} activeProfileId={activeProfileId} profileSecretHints={profileSecretHints} />
+            {detectionRules && <DetectionRuleSettings rules={detectionRules} />}
+            <RecentSubmissions records={batchRecords} />
+          </Stack>
+          <VerticalSpace space="medium" />
+        </Container>
+      </div>
+      <div class="p-2 border-t border-[var(--figma-color-border)]">
+        <Button secondary fullWidth onClick={onClose}>
+          Done
+        </Button>
+      </div>
+    </div>
+  )
+}
+
 function Plugin() {
   const [icons, setIcons] = useState<IconData[]>([])
   const [selectedIconIndex, setSelectedIconIndex] = useState<number>(0)
@@ -253,6 +1357,35 @@ function Plugin() {
   const [confirmationMessage, setConfirmationMessage] = useState('')
   const [confirmationDetails, setConfirmationDetails] = useState<string | undefined>(undefined)
   const [workflowUrl, setWorkflowUrl] = useState<string | undefined>(undefined)
+  const [pullRequestUrl, setPullRequestUrl] = useState<string | undefined>(undefined)
+  const [deliveryMode, setDeliveryMode] = useState<DeliveryMode | undefined>(undefined)
+  const [chunkRuns, setChunkRuns] = useState<ChunkRunProgress[]>([])
+  const [showSettings, setShowSettings] = useState(false)
+  const [isDryRun, setIsDryRun] = useState(false)
+  const [componentTemplate, setComponentTemplate] = useState<string | undefined>(undefined)
+  const [outputTargets, setOutputTargets] = useState<OutputTarget[]>(['react'])
+  const [templateError, setTemplateError] = useState<string | undefined>(undefined)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null)
+  const [hasToken, setHasToken] = useState(false)
+  const [tokenHint, setTokenHint] = useState<string | undefined>(undefined)
+  const [profileSecretHints, setProfileSecretHints] = useState<{ [profileId: string]: string }>({})
+  const [accessResult, setAccessResult] = useState<PreflightResult | undefined>(undefined)
+  const [isCheckingAccess, setIsCheckingAccess] = useState(false)
+  const [confirmationIssues, setConfirmationIssues] = useState<PreflightIssue[] | undefined>(undefined)
+  const [profiles, setProfiles] = useState<DeliveryProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE_ID)
+  const [conflictCheckError, setConflictCheckError] = useState<string | undefined>(undefined)
+  const [failedChunks, setFailedChunks] = useState<FailedChunkSummary[]>([])
+  const [isResuming, setIsResuming] = useState(false)
+  const [batchRecords, setBatchRecords] = useState<BatchRecord[]>([])
+  const [detectionRules, setDetectionRules] = useState<DetectionRules | null>(null)
+  const [rejectedNodes, setRejectedNodes] = useState<RejectedNode[]>([])
+  const [batchId, setBatchId] = useState<string | undefined>(undefined)
+  const [showScan, setShowScan] = useState(false)
+  const [scanPages, setScanPages] = useState<ScanPage[]>([])
+  const [scannedIcons, setScannedIcons] = useState<ScannedIcon[]>([])
+  const [scanStatus, setScanStatus] = useState<ScanStatus | null>(null)
   const layerListRef = useRef<HTMLDivElement>(null)
 
   const handleGetSelectedIcons = useCallback(function () {
@@ -312,13 +1445,50 @@ function Plugin() {
     }
   }, [selectedIconIndex, icons])
 
+  const handleColorModeChange = useCallback(function (colorMode: IconColorMode) {
+    setIcons(prev => prev.map((icon, i) =>
+      i === selectedIconIndex ? regenerateIcon({ ...icon, colorMode }, componentTemplate) : icon
+    ))
+  }, [selectedIconIndex, componentTemplate])
+
+  const handleConflictResolutionChange = useCallback(function (iconId: string, resolution: ConflictResolution) {
+    setIcons(prev => prev.map(icon =>
+      icon.id === iconId ? { ...icon, conflictResolution: resolution } : icon
+    ))
+  }, [])
+
   const handleAddIcons = useCallback(function () {
-    // Only export icons that are properly flattened
-    const flattenedIcons = icons.filter(icon => icon.isSinglePath === true)
+    // Only export icons that are properly flattened, leaving out existing icons marked as skipped
+    const flattenedIcons = icons
+      .filter(icon => icon.isSinglePath === true && icon.conflictResolution !== 'skip')
+      .map(icon => ({ ...icon, targets: outputTargets }))
     console.log('handleAddIcons called with', flattenedIcons.length, 'flattened icons')
+    if (isDryRun) {
+      setIsPreviewing(true)
+      emit<PreviewSubmissionHandler>('PREVIEW_SUBMISSION', flattenedIcons)
+      return
+    }
     setIsAddingToDesignSystem(true)
+    setChunkRuns([])
     emit<AddIconsHandler>('ADD_ICONS', flattenedIcons)
-  }, [icons])
+  }, [icons, isDryRun, outputTargets])
+
+  const handleOutputTargetToggle = useCallback(function (target: OutputTarget, isIncluded: boolean) {
+    // Keep the tab order, so payloads don't depend on the order targets were picked in
+    setOutputTargets(prev => OUTPUT_TARGETS
+      .map(outputTarget => outputTarget.value)
+      .filter(value => value === target ? isIncluded : prev.includes(value)))
+  }, [])
+
+  const handleResumeFailedChunks = useCallback(function () {
+    setIsResuming(true)
+    setChunkRuns([])
+    emit<ResumeFailedChunksHandler>('RESUME_FAILED_CHUNKS')
+  }, [])
+
+  const handleDiscardFailedChunks = useCallback(function () {
+    emit<DiscardFailedChunksHandler>('DISCARD_FAILED_CHUNKS')
+  }, [])
 
   const handleCloseConfirmation = useCallback(function () {
     setShowConfirmation(false)
@@ -327,6 +1497,40 @@ function Plugin() {
     setConfirmationMessage('')
     setConfirmationDetails(undefined)
     setWorkflowUrl(undefined)
+    setPullRequestUrl(undefined)
+    setChunkRuns([])
+    setConfirmationIssues(undefined)
+    setBatchId(undefined)
+  }, [])
+
+  const handleSaveToken = useCallback(function (token: string) {
+    // Saving also runs the access check in the main thread
+    setIsCheckingAccess(true)
+    emit<SaveGitHubTokenHandler>('SAVE_GITHUB_TOKEN', { token })
+  }, [])
+
+  const handleCheckAccess = useCallback(function () {
+    setIsCheckingAccess(true)
+    emit<CheckGitHubAccessHandler>('CHECK_GITHUB_ACCESS')
+  }, [])
+
+  const handleActiveProfileChange = useCallback(function (profileId: string) {
+    setActiveProfileId(profileId)
+    // The access result belongs to the previous profile
+    setAccessResult(undefined)
+    emit<SetActiveProfileHandler>('SET_ACTIVE_PROFILE', { profileId })
+  }, [])
+
+  const handleScan = useCallback(function (scopeIds: string[]) {
+    setScannedIcons([])
+    setScanStatus({ isScanning: true, scannedNodes: 0 })
+    emit<ScanIconsHandler>('SCAN_ICONS', { scopeIds })
+  }, [])
+
+  const handleLoadScannedIcons = useCallback(function (iconIds: string[]) {
+    setShowScan(false)
+    setIsLoading(true)
+    emit<LoadScannedIconsHandler>('LOAD_SCANNED_ICONS', { iconIds })
   }, [])
 
   const handleFlattenIcons = useCallback(function () {
@@ -343,6 +1547,7 @@ function Plugin() {
   useEffect(function () {
     // Listen for the response from the main thread
     on<GetSelectedIconsResponseHandler>('GET_SELECTED_ICONS', function (data) {
+      setRejectedNodes(data.rejected || [])
 
       // If we receive empty icons array, it means selection is being processed or no selection
       if (data.icons.length === 0) {
@@ -395,21 +1600,109 @@ function Plugin() {
 
     // Listen for success events
     on<ShowSuccessHandler>('SHOW_SUCCESS', function (data) {
+      setIsAddingToDesignSystem(false)
+      setIsResuming(false)
       setConfirmationType('success')
       setConfirmationTitle('Icons successfully added')
-      setConfirmationMessage(`${data.iconCount} icon${data.iconCount !== 1 ? 's' : ''} ${data.iconCount !== 1 ? 'have' : 'has'} been sent to your design system. A GitHub Actions workflow is now processing your icons and will create a pull request when complete.`)
-      setConfirmationDetails(undefined)
+      setConfirmationMessage(getSuccessMessage(data.iconCount, data.deliveryMode))
+      setConfirmationDetails(data.failedIconCount
+        ? `${data.failedIconCount} icon${data.failedIconCount !== 1 ? 's' : ''} could not be sent after several attempts. They have been saved and can be resumed once the problem is fixed.`
+        : undefined)
       setWorkflowUrl(data.workflowUrl)
+      setPullRequestUrl(data.pullRequestUrl)
+      setDeliveryMode(data.deliveryMode)
+      setBatchId(data.batchId)
       setShowConfirmation(true)
     })
 
+    // Listen for workflow run progress, one update per chunk
+    on<WorkflowRunUpdateHandler>('WORKFLOW_RUN_UPDATE', function (progress) {
+      setChunkRuns(prev => [
+        ...prev.filter(run => run.chunkNumber !== progress.chunkNumber),
+        progress
+      ].sort((a, b) => a.chunkNumber - b.chunkNumber))
+    })
+
+    // Listen for dry runs, which are shown instead of a confirmation
+    on<DryRunResultHandler>('DRY_RUN_RESULT', function (result) {
+      setIsPreviewing(false)
+      setDryRunResult(result)
+    })
+
+    // Listen for the saved credential status
+    on<GitHubSettingsHandler>('GITHUB_SETTINGS', function (data) {
+      setHasToken(data.hasToken)
+      setTokenHint(data.tokenHint)
+      setProfileSecretHints(data.profileSecretHints)
+    })
+
+    // Listen for preflight results (from Settings or after saving a token)
+    on<GitHubAccessResultHandler>('GITHUB_ACCESS_RESULT', function (result) {
+      setAccessResult(result)
+      setIsCheckingAccess(false)
+    })
+
+    // Listen for icons that already exist in the target repository
+    on<IconConflictsHandler>('ICON_CONFLICTS', function (data) {
+      setConflictCheckError(data.error)
+      setIcons(prev => prev.map(icon => {
+        const conflict = data.conflicts[icon.id]
+        return {
+          ...icon,
+          conflict,
+          // Existing icons are skipped unless the designer marks them as an intentional update
+          conflictResolution: conflict ? (icon.conflictResolution || 'skip') : undefined
+        }
+      }))
+    })
+
+    // Listen for the locally recorded submissions
+    on<BatchRecordsHandler>('BATCH_RECORDS', function (data) {
+      setBatchRecords(data.records)
+    })
+
+    // Listen for chunks that failed in this or an earlier submission
+    on<FailedChunksHandler>('FAILED_CHUNKS', function (data) {
+      setFailedChunks(data.chunks)
+    })
+
+    on<DetectionRulesHandler>('DETECTION_RULES', function (rules) {
+      setDetectionRules(rules)
+    })
+
+    on<ScanPagesHandler>('SCAN_PAGES', function (data) {
+      setScanPages(data.pages)
+    })
+
+    // Listen for scan progress; each update carries the icons found since the last one
+    on<ScanProgressHandler>('SCAN_PROGRESS', function (progress) {
+      setScannedIcons(prev => progress.icons.length > 0 ? [...prev, ...progress.icons] : prev)
+      setScanStatus(prev => ({
+        isScanning: !progress.done,
+        scannedNodes: Math.max(progress.scannedNodes, prev ? prev.scannedNodes : 0),
+        pageName: progress.pageName,
+        cancelled: progress.cancelled
+      }))
+    })
+
+    // Listen for delivery profile changes
+    on<DeliveryProfilesHandler>('DELIVERY_PROFILES', function (data) {
+      setProfiles(data.profiles)
+      setActiveProfileId(data.activeProfileId)
+    })
+
     // Listen for error events
     on<ShowErrorHandler>('SHOW_ERROR', function (data) {
+      setIsAddingToDesignSystem(false)
+      setIsPreviewing(false)
+      setIsResuming(false)
       setConfirmationType('error')
       setConfirmationTitle(data.title)
       setConfirmationMessage(data.message)
       setConfirmationDetails(data.details)
+      setConfirmationIssues(data.issues)
       setWorkflowUrl(undefined)
+      setPullRequestUrl(undefined)
       setShowConfirmation(true)
     })
 
@@ -421,10 +1714,22 @@ function Plugin() {
       setConfirmationMessage('')
       setConfirmationDetails(undefined)
       setWorkflowUrl(undefined)
+      setPullRequestUrl(undefined)
+      setChunkRuns([])
+    })
+
+    on<ComponentTemplateHandler>('COMPONENT_TEMPLATE', function (data) {
+      setComponentTemplate(data.source)
+      setTemplateError(data.error)
+      setIcons(prev => prev.map(icon => regenerateIcon(icon, data.source)))
     })
 
-    // Request the selected icons
+    // Request the selected icons and the credential status
     handleGetSelectedIcons()
+    emit<GetGitHubSettingsHandler>('GET_GITHUB_SETTINGS')
+    emit<GetDeliveryProfilesHandler>('GET_DELIVERY_PROFILES')
+    emit<GetDetectionRulesHandler>('GET_DETECTION_RULES')
+    emit<GetFailedChunksHandler>('GET_FAILED_CHUNKS')
   }, [handleGetSelectedIcons])
 
   // Reset selected icon index if it's out of bounds
@@ -434,6 +1739,21 @@ function Plugin() {
     }
   }, [icons.length, selectedIconIndex])
 
+  // Check the selection against the design system whenever icons, names or the profile change
+  const conflictCheckKey = icons.map(icon => `${icon.id}:${icon.name}`).join('|')
+  useEffect(function () {
+    if (conflictCheckKey === '') {
+      return
+    }
+    // Debounce so typing a new name doesn't send a request per keystroke
+    const timeout = setTimeout(() => {
+      emit<CheckIconConflictsHandler>('CHECK_ICON_CONFLICTS', {
+        icons: icons.map(icon => ({ id: icon.id, name: icon.name, svg: icon.svg }))
+      })
+    }, 500)
+    return () => clearTimeout(timeout)
+  }, [conflictCheckKey, activeProfileId])
+
   // Set up keyboard navigation
   useEffect(function () {
     const layerList = layerListRef.current
@@ -444,6 +1764,8 @@ function Plugin() {
   }, [handleKeyDown])
 
   const selectedIcon = icons[selectedIconIndex]
+  // Skipped icons aren't written, so they can't collide
+  const nameCollisions = useMemo(() => findNameCollisions(icons.filter(icon => icon.conflictResolution !== 'skip')), [icons])
 
   return (
     <div class="flex h-full w-full overflow-hidden">
@@ -454,10 +1776,47 @@ function Plugin() {
           title={confirmationTitle}
           message={confirmationMessage}
           details={confirmationDetails}
+          deliveryMode={deliveryMode}
           workflowUrl={workflowUrl}
+          pullRequestUrl={pullRequestUrl}
+          runs={chunkRuns}
+          issues={confirmationIssues}
+          batchId={batchId}
           onClose={handleCloseConfirmation}
         />
       )}
+      {/* Settings */}
+      {dryRunResult && (
+        <DryRunPanel result={dryRunResult} onClose={() => setDryRunResult(null)} />
+      )}
+      {showScan && (
+        <ScanPanel
+          pages={scanPages}
+          icons={scannedIcons}
+          status={scanStatus}
+          onScan={handleScan}
+          onCancel={() => emit<CancelScanHandler>('CANCEL_SCAN')}
+          onSelect={iconIds => emit<SelectScannedIconsHandler>('SELECT_SCANNED_ICONS', { iconIds })}
+          onLoad={handleLoadScannedIcons}
+          onClose={() => setShowScan(false)}
+        />
+      )}
+      {showSettings && (
+        <SettingsPanel
+          hasToken={hasToken}
+          tokenHint={tokenHint}
+          accessResult={accessResult}
+          isCheckingAccess={isCheckingAccess}
+          onSaveToken={handleSaveToken}
+          onCheckAccess={handleCheckAccess}
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          profileSecretHints={profileSecretHints}
+          batchRecords={batchRecords}
+          detectionRules={detectionRules}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
       {/* Left Sidebar - Icon List */}
       {icons.length > 1 && (
         <div class="w-44 border-r border-[var(--figma-color-border)] flex flex-col">
@@ -496,12 +1855,25 @@ function Plugin() {
                   }
                 >
                   <div className="flex items-center gap-2 h-5">
-                    <Text class="font-medium truncate">{icon.name}</Text>
+                    <Text class={`font-medium truncate ${icon.conflictResolution === 'skip' ? 'line-through opacity-60' : ''}`}>{icon.name}</Text>
                     {icon.isSinglePath === false && (
                       <div className="text-[var(--figma-color-text-warning)]">
                         <IconWarning16 class="scale-75" />
                       </div>
                     )}
+                    {icon.conflict && (
+                      <button
+                        class="ml-auto shrink-0 px-1.5 rounded-full text-[10px] bg-[var(--figma-color-bg-warning-tertiary)]"
+                        title={`${getConflictDescription(icon.conflict)}. Click to ${icon.conflictResolution === 'update' ? 'skip it' : 'submit it as an update'}.`}
+                        onClick={event => {
+                          // Don't change the selected icon when toggling
+                          event.stopPropagation()
+                          handleConflictResolutionChange(icon.id, icon.conflictResolution === 'update' ? 'skip' : 'update')
+                        }}
+                      >
+                        {icon.conflictResolution === 'update' ? 'Update' : 'Skip'}
+                      </button>
+                    )}
                   </div>
                 </Layer>
               ))
@@ -531,19 +1903,56 @@ function Plugin() {
       )}
       {/* Right Panel - Preview and Fields */}
       <div class="flex-1 flex flex-col h-full max-w-full overflow-hidden relative">
+        <div class="absolute top-1 right-1 z-10 flex">
+          <IconButton
+            onClick={() => {
+              emit<GetScanPagesHandler>('GET_SCAN_PAGES')
+              setShowScan(true)
+            }}
+            title="Scan pages for icons"
+          >
+            <IconSearchSmall24 />
+          </IconButton>
+          <IconButton
+            onClick={() => {
+              emit<GetBatchRecordsHandler>('GET_BATCH_RECORDS')
+              setShowSettings(true)
+            }}
+            title="Settings"
+          >
+            <IconSettingsSmall24 />
+          </IconButton>
+        </div>
         <div class="flex-1 overflow-hidden">
           <IconPreview
             icon={icons.length > 0 ? selectedIcon : null}
             isLoading={isLoading}
             isFlattening={isFlattening}
+            templateError={templateError}
+            detectionRules={detectionRules}
+            rejectedNodes={rejectedNodes}
+            nameCollisions={selectedIcon && nameCollisions[selectedIcon.id]}
+            outputTargets={outputTargets}
+            onOutputTargetToggle={handleOutputTargetToggle}
             onNameChange={handleIconNameChange}
             onAliasesChange={handleIconAliasesChange}
+            onConflictResolutionChange={resolution => selectedIcon && handleConflictResolutionChange(selectedIcon.id, resolution)}
+            onColorModeChange={handleColorModeChange}
           />
         </div>
+        {failedChunks.length > 0 && !isAddingToDesignSystem && (
+          <FailedChunksBanner
+            chunks={failedChunks}
+            isResuming={isResuming}
+            onResume={handleResumeFailedChunks}
+            onDiscard={handleDiscardFailedChunks}
+          />
+        )}
         {icons.length > 0 && (
           <div className="p-2 border-t border-[var(--figma-color-border)]">
             {(() => {
-              const flattenedIcons = icons.filter(icon => icon.isSinglePath === true)
+              const flattenedIcons = icons.filter(icon => icon.isSinglePath === true && icon.conflictResolution !== 'skip')
+              const collidingIcons = flattenedIcons.filter(icon => nameCollisions[icon.id])
               const unflattenedIcons = icons.filter(icon => icon.isSinglePath === false)
 
               // Show flatten button if only 1 icon is selected and it's not flattened
@@ -559,16 +1968,44 @@ function Plugin() {
                 )
               }
 
-              // Show add button for flattened icons
+              // Show add button for flattened icons, with the delivery profile to submit to
               return (
-                <Button
-                  fullWidth
-                  onClick={handleAddIcons}
-                  disabled={flattenedIcons.length === 0}
-                  loading={isAddingToDesignSystem}
-                >
-                  Add {flattenedIcons.length} icon{flattenedIcons.length !== 1 ? 's' : ''} to design system
-                </Button>
+                <div class="flex flex-col gap-1">
+                {conflictCheckError && (
+                  <div class="text-[10px] text-[var(--figma-color-text-secondary)]">{conflictCheckError}</div>
+                )}
+                {collidingIcons.length > 0 && (
+                  <div class="text-[10px] text-[var(--figma-color-text-warning)]">
+                    {collidingIcons.length} icons would be written to the same files: {collidingIcons.map(icon => icon.name).join(', ')}
+                  </div>
+                )}
+                <div class="flex items-center gap-2">
+                  {profiles.length > 1 && (
+                    <div class="w-32 shrink-0" title="Delivery profile">
+                      <Dropdown
+                        value={activeProfileId}
+                        onValueChange={handleActiveProfileChange}
+                        options={profiles.map(profile => ({ value: profile.id, text: profile.name }))}
+                      />
+                    </div>
+                  )}
+                  <div class="flex-1">
+                    <Button
+                      fullWidth
+                      onClick={handleAddIcons}
+                      disabled={flattenedIcons.length === 0 || collidingIcons.length > 0}
+                      loading={isAddingToDesignSystem || isPreviewing}
+                    >
+                      {isDryRun ? 'Preview' : 'Add'} {flattenedIcons.length} icon{flattenedIcons.length !== 1 ? 's' : ''} {isDryRun ? 'submission' : 'to design system'}
+                    </Button>
+                  </div>
+                  <div class="shrink-0" title="Show what would be sent without sending it">
+                    <Toggle value={isDryRun} onValueChange={setIsDryRun}>
+                      <Text>Dry run</Text>
+                    </Toggle>
+                  </div>
+                </div>
+                </div>
               )
             })()}
           </div>
@@ -0,0 +1,104 @@
+import { githubRequest } from './github-api'
+import { ChunkRunProgress, DeliveryProfile, WorkflowRunState } from './types'
+
+// The dispatch endpoint returns no run ID, so each chunk is dispatched with a
+// `correlationId` input. The workflow must include it in its `run-name`, e.g.
+//   run-name: Add icons ${{ inputs.chunkInfo }} (${{ inputs.correlationId }})
+// which lets us find the run again through its `display_title`.
+export interface DispatchedChunk {
+  chunkNumber: number
+  totalChunks: number
+  iconCount: number
+  correlationId: string
+  dispatchedAt: number
+}
+
+interface WorkflowRun {
+  id: number
+  html_url: string
+  display_title: string
+  status: string
+  conclusion: string | null
+}
+
+const POLL_INTERVAL = 5000 // 5 seconds between status checks
+const POLL_TIMEOUT = 20 * 60 * 1000 // Give up tracking after 20 minutes
+
+// Create a reasonably unique ID that the workflow echoes back in its run name
+export function createCorrelationId(chunkNumber: number): string {
+  return `icons-${Date.now().toString(36)}-${chunkNumber}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Map GitHub's status/conclusion pair onto the states shown in the UI
+function getRunState(run: WorkflowRun): WorkflowRunState {
+  if (run.status !== 'completed') {
+    return run.status === 'in_progress' ? 'in_progress' : 'queued'
+  }
+  return run.conclusion === 'success' ? 'success' : 'failure'
+}
+
+// List recent dispatch runs of the icons workflow, starting slightly before the earliest dispatch
+async function listRecentRuns(profile: DeliveryProfile, since: number): Promise<WorkflowRun[]> {
+  // Allow for clock skew between Figma and GitHub
+  const created = new Date(since - 60 * 1000).toISOString()
+  const response = await githubRequest<{ workflow_runs: WorkflowRun[] }>(
+    profile,
+    `/actions/workflows/${profile.workflowFile}/runs?event=workflow_dispatch&branch=${encodeURIComponent(profile.branch)}&created=%3E%3D${encodeURIComponent(created)}&per_page=100`
+  )
+  return response.workflow_runs
+}
+
+// Poll the workflow runs for each dispatched chunk until all are complete or tracking times out
+export async function trackWorkflowRuns(profile: DeliveryProfile, chunks: DispatchedChunk[], onUpdate: (progress: ChunkRunProgress) => void): Promise<void> {
+  if (chunks.length === 0) {
+    return
+  }
+
+  const since = Math.min(...chunks.map(chunk => chunk.dispatchedAt))
+  const lastStates: { [correlationId: string]: WorkflowRunState } = {}
+  for (const chunk of chunks) {
+    lastStates[chunk.correlationId] = 'pending'
+  }
+  const startTime = Date.now()
+
+  while (Date.now() - startTime < POLL_TIMEOUT) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL))
+
+    let runs: WorkflowRun[]
+    try {
+      runs = await listRecentRuns(profile, since)
+    } catch (error) {
+      // Keep polling; a single failed status request shouldn't stop tracking
+      console.error('Error listing workflow runs:', error)
+      continue
+    }
+
+    let pendingCount = 0
+    for (const chunk of chunks) {
+      const run = runs.find(candidate => candidate.display_title.includes(chunk.correlationId))
+      const state = run ? getRunState(run) : 'pending'
+
+      if (state !== 'success' && state !== 'failure') {
+        pendingCount++
+      }
+
+      if (lastStates[chunk.correlationId] !== state) {
+        lastStates[chunk.correlationId] = state
+        onUpdate({
+          chunkNumber: chunk.chunkNumber,
+          totalChunks: chunk.totalChunks,
+          iconCount: chunk.iconCount,
+          state,
+          conclusion: run?.conclusion || undefined,
+          runUrl: run?.html_url
+        })
+      }
+    }
+
+    if (pendingCount === 0) {
+      return
+    }
+  }
+
+  console.warn('Stopped tracking workflow runs after timeout')
+}